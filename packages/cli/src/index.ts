@@ -1,38 +1,170 @@
 #!/usr/bin/env node
 import chalk from 'chalk';
 import { Command } from 'commander';
-import { generateCommitMessage } from './lib/ai.js';
 import {
+  generateCommitMessage,
+  generateCommitMessages,
+  getCommitPayload,
+  type CommitMessageOptions,
+} from './lib/ai.js';
+import {
+  generateBranchName,
+  isProtectedBranch,
+  slugifyBranchName,
+  uniqueBranchName,
+} from './lib/branch.js';
+import { responseCache } from './lib/cache.js';
+import {
+  DEFAULT_PROFILE,
+  changeSecretStorage,
   clearConfig,
   getAiProvider,
   getApiKey,
   getConfigPath,
+  getGenerationSettings,
+  getProviderPlugins,
   isSetupComplete,
+  locateApiKey,
+  resolveActiveProfile,
+  resolveProvider,
   setApiKey,
+  setGenerationSettings,
+  setProfileOverride,
+  type AiProvider,
 } from './lib/config.js';
 import {
+  applyToIndex,
+  branchExists,
   commit,
+  createBranch,
   createGitHubRepo,
+  createPullRequest,
+  fetchBranch,
+  getAheadBehind,
+  getAmendChanges,
+  getAmendDiff,
+  getBranchCommits,
+  getBranchDiff,
+  getCommitterIdentity,
+  getCurrentBranch,
+  getIssue,
+  getRepoRoot,
+  getStagedFileSizes,
   getStagedDiff,
+  getTrackingSha,
+  getWorkingTreeDiff,
+  getWorkingTreeFileSizes,
   hasChanges,
   hasRemote,
+  hasStagedChanges,
   initGitRepo,
   installGhCli,
+  isBranchPushed,
   isGhAuthenticated,
   isGhInstalled,
   isGitRepo,
   loginGh,
   logoutGh,
   push,
+  requireCurrentBranch,
+  resolveBaseRef,
+  restoreIndex,
+  saveIndex,
   stageAll,
+  stageTracked,
+  syncWith,
+  type SyncStrategy,
+  unstageAll,
 } from './lib/git.js';
-import { inputApiKey, selectAiProvider } from './lib/prompt.js';
+import {
+  CHAINED_HOOK_NAME,
+  getHookStatus,
+  HOOK_NAME,
+  HOOK_TIMEOUT,
+  installHook,
+  prependMessage,
+  shouldGenerateMessage,
+  uninstallHook,
+} from './lib/hook.js';
+import {
+  CancelledError,
+  EXIT_INPUT_REQUIRED,
+  configureInteractivity,
+  getExitCode,
+  isInteractive,
+} from './lib/interactive.js';
+import type { ChangedFile } from './lib/offline.js';
+import {
+  bindProfile,
+  createProfile,
+  listProfiles,
+  removeProfile,
+  unbindDirectory,
+  useProfile,
+} from './lib/profiles.js';
+import {
+  inputApiKey,
+  inputBranchName,
+  inputGenerationSettings,
+  printPayload,
+  printPlan,
+  reviewCommitMessage,
+  reviewPlan,
+  reviewPullRequest,
+  selectAiProvider,
+  selectModel,
+  selectSyncStrategy,
+} from './lib/prompt.js';
+import { findPrTemplate, generatePullRequest } from './lib/pr.js';
+import { findProvider, loadProviderPlugins } from './lib/providers/registry.js';
+import { SECRET_BACKENDS } from './lib/secrets.js';
+import {
+  ALLOW_MARKER,
+  checkFileSizes,
+  filterAllowed,
+  formatFinding,
+  formatSize,
+  parseSize,
+  scanDiff,
+  type Finding,
+} from './lib/scan.js';
+import { getSettings, resolveSettings } from './lib/settings.js';
+import { buildPatch, planCommits, splitUnits } from './lib/split.js';
+import {
+  buildTicketContext,
+  findTickets,
+  finishCommitMessage,
+  issueNumber,
+} from './lib/ticket.js';
+import {
+  checkBudget,
+  formatCost,
+  formatUsageTable,
+  summarizeUsage,
+  usageLog,
+  type UsageGrouping,
+} from './lib/usage.js';
 
 const program = new Command();
 
+/**
+ * Collect a repeatable option into a list
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
 program
   .version('0.1.0')
-  .description('Git automation CLI with AI-powered commit messages');
+  .description('Git automation CLI with AI-powered commit messages')
+  .option('--non-interactive', 'Never prompt; fail when input is missing')
+  .option(
+    '-y, --yes',
+    'Answer yes to confirmations (implies --non-interactive)',
+  )
+  .hook('preAction', () => {
+    configureInteractivity(program.opts());
+  });
 
 // Setup command
 program
@@ -93,7 +225,7 @@ program
       const apiKey = await inputApiKey(provider);
 
       // Save configuration
-      setApiKey(provider, apiKey);
+      await setApiKey(provider, apiKey);
 
       console.log(chalk.green.bold('\n✅ Setup complete!\n'));
       console.log(chalk.gray(`Configuration saved to: ${getConfigPath()}\n`));
@@ -107,16 +239,90 @@ program
       if (error instanceof Error) {
         console.error(chalk.red(`\nError: ${error.message}`));
       }
-      process.exit(1);
+      process.exit(getExitCode(error));
     }
   });
 
+/**
+ * Print the merged configuration with the source of each value
+ */
+function showConfig(): void {
+  const { provider, providerSource } = resolveProvider();
+  const keyLocation = provider ? locateApiKey(provider) : undefined;
+
+  const profile = resolveActiveProfile();
+
+  console.log(chalk.blue.bold('\n⚙️  Configuration\n'));
+  console.log(
+    `${chalk.cyan('profile')}: ${profile.name} ${chalk.gray(`[${profile.source}]`)}`,
+  );
+  console.log(
+    `${chalk.cyan('aiProvider')}: ${provider ?? chalk.gray('(not set)')} ${chalk.gray(`[${providerSource ?? 'default'}]`)}`,
+  );
+  console.log(
+    `${chalk.cyan('apiKey')}: ${keyLocation ? '********' : chalk.gray('(not set)')} ${chalk.gray(`[${keyLocation?.source ?? 'default'}]`)}`,
+  );
+
+  const settings = resolveSettings();
+  for (const [key, { value, source }] of Object.entries(settings)) {
+    const display = Array.isArray(value)
+      ? value.join(', ') ||
+        chalk.gray(
+          key === 'allowedScopes' || key === 'jiraProjects'
+            ? '(any)'
+            : '(none)',
+        )
+      : typeof value === 'object'
+        ? Object.keys(value).length > 0
+          ? JSON.stringify(value)
+          : chalk.gray('(none)')
+        : String(value);
+    console.log(`${chalk.cyan(key)}: ${display} ${chalk.gray(`[${source}]`)}`);
+  }
+  console.log(
+    chalk.gray(
+      '\nOrder (later wins): default < global config < project config < environment\n',
+    ),
+  );
+}
+
 // Config command - change AI provider/key
 program
   .command('config')
-  .description('Change AI provider or API key')
-  .action(async () => {
+  .description('Change AI provider, API key or model')
+  .option('--model', 'Only change the model and generation parameters')
+  .option('--show', 'Show the merged configuration and where values come from')
+  .option(
+    '--storage <backend>',
+    'Where to keep API keys: keychain, encrypted or plaintext',
+  )
+  .action(async (options) => {
     try {
+      if (options.show) {
+        showConfig();
+        return;
+      }
+
+      if (options.storage) {
+        if (!SECRET_BACKENDS.includes(options.storage)) {
+          throw new Error(
+            `Unknown storage "${options.storage}". Use: ${SECRET_BACKENDS.join(', ')}`,
+          );
+        }
+        if (options.storage === 'plaintext') {
+          console.log(
+            chalk.yellow(
+              '⚠️  API keys will be stored unencrypted in the config file.',
+            ),
+          );
+        }
+        await changeSecretStorage(options.storage);
+        console.log(
+          chalk.green(`\n✓ API keys are now stored in: ${options.storage}\n`),
+        );
+        return;
+      }
+
       const currentProvider = getAiProvider();
       if (currentProvider) {
         console.log(
@@ -124,6 +330,20 @@ program
         );
       }
 
+      // Only update model settings for the current provider
+      if (options.model) {
+        if (!currentProvider) {
+          console.log(chalk.yellow('AI provider not configured.'));
+          console.log(chalk.cyan('Please run: git-ai config\n'));
+          process.exit(1);
+        }
+        const settings = await inputGenerationSettings(currentProvider);
+        setGenerationSettings(currentProvider, settings);
+        console.log(chalk.green(`\n✓ Model: ${settings.model}\n`));
+        console.log(chalk.gray(`Saved to: ${getConfigPath()}\n`));
+        return;
+      }
+
       // Select new provider
       const provider = await selectAiProvider();
       console.log(chalk.green(`\n✓ Selected: ${provider}\n`));
@@ -131,8 +351,17 @@ program
       // Enter new API key
       const apiKey = await inputApiKey(provider);
 
+      // Pick a model (endpoint providers set it with the endpoint)
+      if (!findProvider(provider)?.usesEndpoint) {
+        const model = await selectModel(provider);
+        setGenerationSettings(provider, {
+          ...getGenerationSettings(provider),
+          model,
+        });
+      }
+
       // Save configuration
-      setApiKey(provider, apiKey);
+      await setApiKey(provider, apiKey);
 
       console.log(chalk.green.bold('\n✅ Configuration updated!\n'));
       console.log(chalk.gray(`Saved to: ${getConfigPath()}\n`));
@@ -140,198 +369,1309 @@ program
       if (error instanceof Error) {
         console.error(chalk.red(`\nError: ${error.message}`));
       }
-      process.exit(1);
+      process.exit(getExitCode(error));
     }
   });
 
-// Push command
-program
-  .command('push')
-  .description(
-    'Stage all changes, generate AI commit message, and push to GitHub',
-  )
-  .option(
-    '-m, --message <message>',
-    'Use a custom commit message instead of AI',
-  )
-  .action(async (options) => {
+// Profile command - manage named provider/key profiles
+const profileCommand = program
+  .command('profile')
+  .description('Manage named AI provider profiles');
+
+profileCommand
+  .command('add <name>')
+  .description('Create a profile and configure its AI provider')
+  .action(async (name: string) => {
+    // Set once the profile exists, so a failed or cancelled setup removes it
+    let created = false;
     try {
-      // Check if setup is complete
-      if (!isSetupComplete() && !options.message) {
-        console.log(chalk.yellow('\n⚠️  Setup not complete.'));
-        console.log(chalk.cyan('Please run: my-cli setup\n'));
-        process.exit(1);
-      }
+      createProfile(name);
+      created = true;
+      setProfileOverride(name);
+      console.log(chalk.blue(`\nConfiguring profile ${chalk.cyan(name)}\n`));
 
-      console.log(chalk.blue.bold('\n🚀 Starting push...\n'));
+      const provider = await selectAiProvider();
+      const apiKey = await inputApiKey(provider);
+      if (!findProvider(provider)?.usesEndpoint) {
+        const model = await selectModel(provider);
+        setGenerationSettings(provider, { model });
+      }
+      await setApiKey(provider, apiKey);
+      created = false;
 
-      // Step 1: Check GitHub CLI
-      console.log(chalk.blue('Checking GitHub CLI...'));
-      if (!(await isGhInstalled())) {
-        console.log(chalk.red('\n❌ GitHub CLI (gh) is not installed.'));
-        console.log(
-          chalk.cyan('You can install it using: winget install GitHub.cli\n'),
-        );
+      console.log(chalk.green.bold(`\n✅ Profile "${name}" created!\n`));
+      console.log(
+        chalk.gray(
+          `Use it with: git-ai profile use ${name}  (or --dir to bind this directory)\n`,
+        ),
+      );
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error(chalk.red(`\nError: ${error.message}`));
+      }
+      if (created) {
+        await removeProfile(name).catch(() => {});
+        console.log(chalk.gray(`Profile "${name}" was not created.\n`));
+      }
+      process.exit(getExitCode(error));
+    }
+  });
 
-        const { confirm } = await import('./lib/prompt.js');
-        const shouldInstall = await confirm(
-          'Would you like to install GitHub CLI now?',
+profileCommand
+  .command('list')
+  .description('List profiles')
+  .action(() => {
+    try {
+      console.log(chalk.blue.bold('\n👤 Profiles\n'));
+      for (const profile of listProfiles()) {
+        const marker = profile.active ? chalk.green('*') : ' ';
+        const provider = profile.provider ?? chalk.gray('(not configured)');
+        console.log(`${marker} ${chalk.cyan(profile.name)} - ${provider}`);
+        profile.directories.forEach((dir) =>
+          console.log(chalk.gray(`    bound to ${dir}`)),
         );
+      }
+      const { source } = resolveActiveProfile();
+      console.log(chalk.gray(`\nActive profile from: ${source}\n`));
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error(chalk.red(`\nError: ${error.message}`));
+      }
+      process.exit(getExitCode(error));
+    }
+  });
 
-        if (shouldInstall) {
-          await installGhCli();
-          process.exit(0); // Need to restart terminal after install
+profileCommand
+  .command('use <name>')
+  .description('Switch the active profile, or bind it to a directory tree')
+  .option(
+    '--dir [path]',
+    'Bind the profile to a directory (default: current directory)',
+  )
+  .action((name: string, options) => {
+    try {
+      if (options.dir) {
+        const dir = options.dir === true ? process.cwd() : options.dir;
+        if (name === DEFAULT_PROFILE) {
+          unbindDirectory(dir);
+          console.log(chalk.green(`\n✓ Removed profile binding for ${dir}\n`));
         } else {
+          const bound = bindProfile(name, dir);
           console.log(
-            chalk.gray('\nPlease install GitHub CLI and try again.\n'),
+            chalk.green(`\n✓ Profile "${name}" is used in ${bound}\n`),
           );
-          process.exit(1);
         }
+        return;
       }
-      console.log(chalk.green('✓ GitHub CLI installed.\n'));
 
-      // Step 2: Check GitHub authentication
-      console.log(chalk.blue('Checking GitHub authentication...'));
-      let needsApiReconfigure = false;
-      if (!(await isGhAuthenticated())) {
-        console.log(chalk.yellow('Not authenticated with GitHub.'));
-        await loginGh();
-        needsApiReconfigure = true; // Force API reconfiguration after fresh GitHub auth
+      useProfile(name);
+      console.log(chalk.green(`\n✓ Active profile: ${name}\n`));
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error(chalk.red(`\nError: ${error.message}`));
       }
-      console.log(chalk.green('✓ Authenticated with GitHub.\n'));
+      process.exit(getExitCode(error));
+    }
+  });
 
-      // Step 3: Check AI provider configuration (only if not using -m flag)
-      if (!options.message) {
-        console.log(chalk.blue('Checking AI configuration...'));
-        if (!isSetupComplete() || needsApiReconfigure) {
-          if (needsApiReconfigure && isSetupComplete()) {
-            console.log(
-              chalk.yellow(
-                "Fresh GitHub login detected. Let's verify your AI configuration.",
-              ),
-            );
-          } else {
-            console.log(chalk.yellow('AI provider not configured.'));
-          }
-          console.log(chalk.cyan('Select your AI provider:\n'));
+profileCommand
+  .command('remove <name>')
+  .description('Remove a profile and its stored API key')
+  .option('--force', 'Remove without asking for confirmation')
+  .action(async (name: string, options) => {
+    try {
+      const { confirmDestructive } = await import('./lib/prompt.js');
+      const confirmed =
+        options.force ||
+        (await confirmDestructive(`Remove profile "${name}"?`, '--force'));
+      if (!confirmed) {
+        console.log(chalk.gray('\nCancelled.\n'));
+        return;
+      }
+      await removeProfile(name);
+      console.log(chalk.green(`\n✓ Profile "${name}" removed.\n`));
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error(chalk.red(`\nError: ${error.message}`));
+      }
+      process.exit(getExitCode(error));
+    }
+  });
 
-          const provider = await selectAiProvider();
-          const apiKey = await inputApiKey(provider);
-          setApiKey(provider, apiKey);
-          console.log(chalk.green('\n✓ AI configuration saved.\n'));
-        } else {
-          console.log(chalk.green('✓ AI provider configured.\n'));
-        }
+// Cache command - AI answers reused for the same diff
+const cacheCommand = program
+  .command('cache')
+  .description('Manage cached AI commit messages');
+
+cacheCommand
+  .command('stats')
+  .description('Show the size and hit rate of the cache')
+  .action(() => {
+    try {
+      const settings = getSettings();
+      const stats = responseCache.stats();
+      const lookups = stats.hits + stats.misses;
+      console.log(chalk.blue.bold('\n📦 Response cache\n'));
+      console.log(`  Entries: ${chalk.cyan(stats.entries)}`);
+      console.log(
+        `  Size:    ${chalk.cyan(formatSize(stats.size))} ${chalk.gray(`(max ${settings.cacheMaxSize}, entries kept ${settings.cacheTtl})`)}`,
+      );
+      console.log(
+        `  Hits:    ${chalk.cyan(stats.hits)} of ${lookups}${lookups > 0 ? chalk.gray(` (${Math.round((stats.hits / lookups) * 100)}%)`) : ''}`,
+      );
+      if (stats.oldest !== undefined && stats.newest !== undefined) {
+        console.log(
+          `  Stored:  ${new Date(stats.oldest).toLocaleString()} - ${new Date(stats.newest).toLocaleString()}`,
+        );
       }
+      console.log(chalk.gray(`\nFile: ${stats.path}`));
+      if (!settings.cache) {
+        console.log(chalk.yellow('Caching is turned off (cache: false).'));
+      }
+      console.log();
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error(chalk.red(`\nError: ${error.message}`));
+      }
+      process.exit(getExitCode(error));
+    }
+  });
 
-      // Step 4: Check git repository
-      console.log(chalk.blue('Checking git repository...'));
-      if (!(await isGitRepo())) {
-        console.log(chalk.yellow('Not a git repository. Initializing...'));
-        await initGitRepo();
+cacheCommand
+  .command('clear')
+  .description('Remove every cached answer')
+  .action(() => {
+    try {
+      const removed = responseCache.clear();
+      console.log(
+        chalk.green(
+          `\n✓ Removed ${removed} cached answer${removed === 1 ? '' : 's'}.\n`,
+        ),
+      );
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error(chalk.red(`\nError: ${error.message}`));
       }
-      console.log(chalk.green('✓ Git repository exists.\n'));
+      process.exit(getExitCode(error));
+    }
+  });
 
-      // Step 2: Check remote
-      console.log(chalk.blue('Checking GitHub remote...'));
-      if (!(await hasRemote())) {
+// Usage command - tokens, latency and estimated cost of provider calls
+const USAGE_GROUPINGS: { by: UsageGrouping; heading: string }[] = [
+  { by: 'day', heading: 'Day' },
+  { by: 'provider', heading: 'Provider/model' },
+  { by: 'repo', heading: 'Repository' },
+];
+
+program
+  .command('usage')
+  .description('Show AI calls, tokens and estimated cost')
+  .option('--days <number>', 'Number of days to include', '30')
+  .option('--by <grouping>', 'Only one summary: day, provider or repo')
+  .action((options) => {
+    try {
+      const groupings = options.by
+        ? USAGE_GROUPINGS.filter(({ by }) => by === options.by)
+        : USAGE_GROUPINGS;
+      if (groupings.length === 0) {
+        throw new Error(
+          `Unknown grouping "${options.by}". Use day, provider or repo.`,
+        );
+      }
+      const days = parseInt(options.days) || 30;
+      const settings = getSettings();
+      const all = usageLog.read();
+      const since = new Date();
+      since.setHours(0, 0, 0, 0);
+      since.setDate(since.getDate() - days + 1);
+      const records = all.filter((record) => record.time >= since.getTime());
+
+      console.log(chalk.blue.bold(`\n📊 AI usage, last ${days} days\n`));
+      const budget = checkBudget(settings, all);
+      if (budget) {
+        const line = `This month: ${formatCost(budget.spent)} of the ${formatCost(budget.budget)} budget (${Math.round((budget.spent / budget.budget) * 100)}%)`;
+        console.log(budget.exceeded ? chalk.red(line) : chalk.green(line));
+      }
+      if (records.length === 0) {
+        console.log(chalk.gray('No AI calls recorded.'));
+      }
+      for (const { by, heading } of records.length > 0 ? groupings : []) {
         console.log(
-          chalk.yellow('No remote found. Creating GitHub repository...'),
+          `\n${formatUsageTable(summarizeUsage(records, by, settings.prices), heading)}`,
         );
-        await createGitHubRepo();
       }
-      console.log(chalk.green('✓ GitHub remote exists.\n'));
+      console.log(
+        chalk.gray(
+          `\n~ estimated token counts, + calls without a price (see prices)\nLog: ${usageLog.path}`,
+        ),
+      );
+      if (!settings.usageLog) {
+        console.log(chalk.yellow('Recording is turned off (usageLog: false).'));
+      }
+      console.log();
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error(chalk.red(`\nError: ${error.message}`));
+      }
+      process.exit(getExitCode(error));
+    }
+  });
 
-      // Step 3: Check for changes
-      console.log(chalk.blue('Checking for changes...'));
-      if (!(await hasChanges())) {
-        console.log(chalk.yellow('\nNo changes to commit.\n'));
-        process.exit(0);
+/**
+ * Options of commands that create a commit message
+ */
+interface MessageOptions {
+  message?: string;
+  model?: string;
+  mapReduce?: boolean;
+  ticket?: string;
+  closes: string[];
+  coAuthor: string[];
+  signoff?: boolean;
+  review: boolean;
+  candidates: string;
+  profile?: string;
+  /** Extra background for the model, e.g. the planned commit */
+  context?: string;
+  allowSecrets?: boolean;
+  /** Print the AI request instead of sending it */
+  showPayload?: boolean;
+  /** Ask the AI again instead of reusing a cached answer */
+  fresh?: boolean;
+}
+
+/**
+ * Add the commit message options shared by push, commit and split
+ */
+function addMessageOptions(command: Command, customMessage = true): Command {
+  if (customMessage) {
+    command.option(
+      '-m, --message <message>',
+      'Use a custom commit message instead of AI',
+    );
+  }
+  return command
+    .option('--model <model>', 'Override the configured AI model for this run')
+    .option(
+      '--map-reduce',
+      'Summarize groups of files separately, then combine (for huge diffs)',
+    )
+    .option(
+      '--ticket <id>',
+      'Ticket id, e.g. PROJ-123 (default: found in the branch name)',
+    )
+    .option('--closes <issue>', 'Add a "Closes #n" trailer', collect, [])
+    .option(
+      '--co-author <identity>',
+      'Add a Co-authored-by trailer ("Name <email>")',
+      collect,
+      [],
+    )
+    .option('-s, --signoff', 'Add a Signed-off-by trailer')
+    .option('--no-review', 'Commit the AI message without reviewing it')
+    .option(
+      '--candidates <number>',
+      'Number of messages to choose from during review',
+      '3',
+    )
+    .option('--profile <name>', 'Use a named profile for this run')
+    .option(
+      '--fresh',
+      'Ask the AI again instead of reusing a cached commit message',
+    )
+    .option(
+      '--allow-secrets',
+      'Commit even if the secret scan finds something',
+    );
+}
+
+/**
+ * The configured AI provider and key, running setup when missing
+ */
+async function ensureAiProvider(): Promise<{
+  provider: AiProvider;
+  apiKey: string;
+}> {
+  let provider = getAiProvider();
+  let apiKey = await getApiKey();
+
+  if (!provider || apiKey === undefined) {
+    console.log(chalk.yellow('\n⚠️  AI provider not configured.'));
+    console.log(chalk.cyan("Let's set it up now:\n"));
+
+    provider = await selectAiProvider();
+    apiKey = await inputApiKey(provider);
+    await setApiKey(provider, apiKey);
+    console.log(chalk.green('\n✓ Configuration saved.\n'));
+  }
+  return { provider, apiKey };
+}
+
+/**
+ * Findings of the secret scan that are not allowlisted
+ */
+function findSecrets(
+  diff: string,
+  sizes: { path: string; size: number }[],
+): Finding[] {
+  const settings = getSettings();
+  return filterAllowed(
+    [
+      ...scanDiff(diff),
+      ...checkFileSizes(sizes, parseSize(settings.maxFileSize)),
+    ],
+    settings.secretAllowlist,
+  );
+}
+
+/**
+ * Stop before anything is committed or sent to the AI when the changes
+ * contain secrets or oversized files, unless --allow-secrets is given
+ */
+function checkForSecrets(
+  diff: string,
+  sizes: { path: string; size: number }[],
+  allowSecrets?: boolean,
+): void {
+  const findings = findSecrets(diff, sizes);
+  if (findings.length === 0) {
+    return;
+  }
+
+  console.log(chalk.red.bold('\n🔒 Possible secrets or unwanted files:\n'));
+  findings.forEach((finding) =>
+    console.log(chalk.red(`  ${formatFinding(finding)}`)),
+  );
+  if (allowSecrets) {
+    console.log(chalk.yellow('\nContinuing because of --allow-secrets.\n'));
+    return;
+  }
+  console.log(
+    chalk.gray(
+      `\nUnstage them (git restore --staged <file>), mark the line with "${ALLOW_MARKER}", add the path, rule:<id> or [id] to secretAllowlist, or pass --allow-secrets.\n`,
+    ),
+  );
+  throw new Error('Stopped by the secret scan. Nothing was committed.');
+}
+
+/**
+ * Suggest a branch name with AI and let the user adjust it
+ */
+async function nameBranch(
+  source: { description: string } | { diff: string },
+  model?: string,
+): Promise<string> {
+  const { provider, apiKey } = await ensureAiProvider();
+  const suggested = await uniqueBranchName(
+    await generateBranchName(
+      source,
+      getSettings().allowedTypes,
+      provider,
+      apiKey,
+      { model },
+    ),
+    branchExists,
+  );
+  return isInteractive() ? inputBranchName(suggested) : suggested;
+}
+
+/**
+ * Offer to move the staged changes to a new feature branch instead of
+ * committing to a protected one
+ */
+async function leaveProtectedBranch(
+  branch: string,
+  options: MessageOptions,
+): Promise<void> {
+  console.log(chalk.yellow(`\n⚠️  ${branch} is a protected branch.`));
+  const { confirm } = await import('./lib/prompt.js');
+  if (!(await confirm('Create a feature branch for this commit?'))) {
+    throw new Error(
+      `Not committing to protected branch ${branch}. Create a branch with: git-ai branch <description>`,
+    );
+  }
+
+  // A custom message names the branch without asking the AI
+  const name = options.message
+    ? await uniqueBranchName(
+        slugifyBranchName(options.message.split('\n')[0]),
+        branchExists,
+      )
+    : await nameBranch(
+        { diff: await getStagedDiff(getSettings().ignore) },
+        options.model,
+      );
+  await createBranch(name);
+}
+
+/**
+ * Options of commands that push
+ */
+interface PushOptions {
+  rebase?: boolean;
+  merge?: boolean;
+  forceWithLease?: boolean;
+}
+
+/**
+ * Fetch the branch, bring in new remote commits by rebase or merge,
+ * then push. --force-with-lease replaces them instead, but only the
+ * commits known before this fetch.
+ */
+async function syncAndPush(options: PushOptions): Promise<void> {
+  if (options.rebase && options.merge) {
+    throw new Error('Use either --rebase or --merge, not both.');
+  }
+  const branch = await requireCurrentBranch();
+
+  // What the lease may replace: origin as last seen, before the fetch
+  const expect = await getTrackingSha(branch);
+  console.log(chalk.blue('Checking origin for new commits...'));
+  if (await fetchBranch(branch)) {
+    const remote = `origin/${branch}`;
+    const { ahead, behind } = await getAheadBehind(remote);
+    if (behind > 0 && options.forceWithLease) {
+      console.log(
+        chalk.yellow(
+          `Replacing ${behind} commit(s) on ${remote} (--force-with-lease).`,
+        ),
+      );
+    } else if (behind > 0) {
+      console.log(
+        chalk.yellow(
+          `Your branch is ${ahead} ahead and ${behind} behind ${remote}.`,
+        ),
+      );
+      const strategy: SyncStrategy | undefined = options.rebase
+        ? 'rebase'
+        : options.merge
+          ? 'merge'
+          : await selectSyncStrategy(remote, behind);
+      if (!strategy) {
+        throw new Error('Push cancelled. Your commits are still local.');
+      }
+      await syncWith(remote, strategy);
+    }
+  }
+  await push({ forceWithLease: options.forceWithLease, expect });
+}
+
+/**
+ * Put the index back as it was before staging, when the command stops
+ * before committing
+ */
+async function restoreSavedIndex(index: string | undefined): Promise<void> {
+  if (index) {
+    await restoreIndex(index);
+    console.log(chalk.gray('The index was put back as it was.\n'));
+  }
+}
+
+/**
+ * Get the commit message from -m or the AI (with review), adding
+ * ticket ids and trailers. Returns undefined when there is nothing to
+ * commit, only the payload was asked for or the user cancels.
+ */
+async function getCommitMessage(
+  options: MessageOptions,
+  getDiff: () => Promise<string>,
+  getChanges?: () => Promise<ChangedFile[]>,
+): Promise<string | undefined> {
+  // Ticket ids from --ticket or the branch name, and trailers
+  const settings = getSettings();
+  const tickets: string[] = options.ticket
+    ? [options.ticket]
+    : findTickets((await getCurrentBranch()) ?? '', settings.ticketPatterns);
+  const trailers = [
+    ...options.closes.map(
+      (issue: string) => `Closes #${issue.replace(/^#/, '')}`,
+    ),
+    ...options.coAuthor.map((author: string) => `Co-authored-by: ${author}`),
+    ...(options.signoff
+      ? [`Signed-off-by: ${await getCommitterIdentity()}`]
+      : []),
+  ];
+  const finish = (message: string) =>
+    finishCommitMessage(message, tickets, settings.ticketPlacement, trailers);
+
+  let commitMessage: string;
+
+  if (options.message) {
+    commitMessage = finish(options.message);
+    console.log(chalk.green('Using provided commit message.\n'));
+  } else {
+    let { provider, apiKey } = await ensureAiProvider();
+
+    // Get diff and generate message
+    const diff = await getDiff();
+    if (!diff) {
+      console.log(chalk.yellow('\nNo staged changes to commit.\n'));
+      return undefined;
+    }
+
+    const issue = tickets.map(issueNumber).find(Boolean);
+    const generationOptions: CommitMessageOptions = {
+      model: options.model,
+      mode: options.mapReduce ? 'map-reduce' : 'auto',
+      ticket: tickets[0],
+      changes: getChanges,
+      fresh: options.fresh,
+      context: [
+        options.context,
+        buildTicketContext(
+          tickets,
+          settings.fetchIssue && issue ? await getIssue(issue) : undefined,
+        ),
+      ]
+        .filter(Boolean)
+        .join('\n'),
+    };
+    if (options.showPayload) {
+      printPayload(getCommitPayload(diff, provider, generationOptions));
+      return undefined;
+    }
+    try {
+      commitMessage = finish(
+        await generateCommitMessage(diff, provider, apiKey, generationOptions),
+      );
+      console.log(
+        chalk.cyan(`\n📝 Commit message:\n${chalk.white(commitMessage)}\n`),
+      );
+    } catch (aiError) {
+      if (aiError instanceof CancelledError) {
+        throw aiError;
+      }
+      console.log(
+        chalk.red(
+          `\n❌ AI Error: ${aiError instanceof Error ? aiError.message : 'Unknown error'}`,
+        ),
+      );
+      // Without prompts there is nothing to reconfigure
+      if (!isInteractive()) {
+        throw aiError;
+      }
+      console.log(
+        chalk.yellow('\nWould you like to reconfigure your AI provider?\n'),
+      );
+
+      const { confirm } = await import('./lib/prompt.js');
+      const shouldReconfigure = await confirm('Reconfigure AI provider?');
+
+      if (shouldReconfigure) {
+        provider = await selectAiProvider();
+        apiKey = await inputApiKey(provider);
+        await setApiKey(provider, apiKey);
+        console.log(chalk.green('\n✓ Configuration saved. Retrying...\n'));
+
+        commitMessage = finish(
+          await generateCommitMessage(
+            diff,
+            provider,
+            apiKey,
+            generationOptions,
+          ),
+        );
+        console.log(
+          chalk.cyan(`\n📝 Commit message:\n${chalk.white(commitMessage)}\n`),
+        );
+      } else {
+        throw new Error('No commit message. Please run: git-ai config');
       }
+    }
+
+    // Review before committing (skipped with --no-review or without a TTY)
+    if (options.review && isInteractive()) {
+      const aiProvider = provider;
+      const aiKey = apiKey;
+      const reviewed = await reviewCommitMessage(
+        commitMessage,
+        {
+          regenerate: async (guidance) =>
+            finish(
+              await generateCommitMessage(diff, aiProvider, aiKey, {
+                ...generationOptions,
+                guidance,
+                fresh: true,
+              }),
+            ),
+          candidates: async (count, guidance) =>
+            (
+              await generateCommitMessages(diff, aiProvider, aiKey, count, {
+                ...generationOptions,
+                guidance,
+                fresh: true,
+              })
+            ).map(finish),
+        },
+        parseInt(options.candidates) || 3,
+      );
+      if (reviewed === undefined) {
+        console.log(chalk.gray('\nCommit cancelled.\n'));
+        return undefined;
+      }
+      commitMessage = reviewed;
+    }
+  }
+
+  return commitMessage;
+}
+
+// Push command
+addMessageOptions(
+  program
+    .command('push')
+    .description(
+      'Stage all changes, generate AI commit message, and push to GitHub',
+    )
+    .option('--rebase', 'Rebase onto new remote commits without asking')
+    .option('--merge', 'Merge new remote commits without asking')
+    .option(
+      '--force-with-lease',
+      'Replace the remote branch (e.g. after an amend) unless it has commits you had not fetched',
+    )
+    .option(
+      '--show-payload',
+      'Print exactly what would be sent to the AI, without sending, committing or pushing',
+    ),
+).action(async (options) => {
+  // The index before staging, put back if the push stops before committing
+  let index: string | undefined;
+  try {
+    setProfileOverride(options.profile);
+    // Check if setup is complete
+    if (!isSetupComplete() && !options.message) {
+      console.log(chalk.yellow('\n⚠️  Setup not complete.'));
+      console.log(chalk.cyan('Please run: my-cli setup\n'));
+      console.log(
+        chalk.gray(
+          'Or set GIT_AI_PROVIDER and GIT_AI_API_KEY for non-interactive runs.\n',
+        ),
+      );
+      process.exit(EXIT_INPUT_REQUIRED);
+    }
+
+    // Only stage what push would commit, print the request and put the
+    // index back: no GitHub checks, branch moves, commit or push
+    if (options.showPayload) {
+      if (options.message) {
+        throw new Error('Nothing is sent to the AI with -m.');
+      }
+      if (!(await isGitRepo())) {
+        throw new Error('Not a git repository.');
+      }
+      index = await saveIndex();
+      await stageAll();
+      checkForSecrets(
+        await getStagedDiff(),
+        await getStagedFileSizes(),
+        options.allowSecrets,
+      );
+      await getCommitMessage(options, () =>
+        getStagedDiff(getSettings().ignore),
+      );
+      await restoreSavedIndex(index);
+      return;
+    }
+
+    console.log(chalk.blue.bold('\n🚀 Starting push...\n'));
+
+    // Step 1: Check GitHub CLI
+    console.log(chalk.blue('Checking GitHub CLI...'));
+    if (!(await isGhInstalled())) {
+      console.log(chalk.red('\n❌ GitHub CLI (gh) is not installed.'));
+      console.log(
+        chalk.cyan('You can install it using: winget install GitHub.cli\n'),
+      );
+
+      const { confirm } = await import('./lib/prompt.js');
+      const shouldInstall = await confirm(
+        'Would you like to install GitHub CLI now?',
+      );
+
+      if (shouldInstall) {
+        await installGhCli();
+        process.exit(0); // Need to restart terminal after install
+      } else {
+        console.log(chalk.gray('\nPlease install GitHub CLI and try again.\n'));
+        process.exit(1);
+      }
+    }
+    console.log(chalk.green('✓ GitHub CLI installed.\n'));
+
+    // Step 2: Check GitHub authentication
+    console.log(chalk.blue('Checking GitHub authentication...'));
+    let needsApiReconfigure = false;
+    if (!(await isGhAuthenticated())) {
+      console.log(chalk.yellow('Not authenticated with GitHub.'));
+      await loginGh();
+      needsApiReconfigure = true; // Force API reconfiguration after fresh GitHub auth
+    }
+    console.log(chalk.green('✓ Authenticated with GitHub.\n'));
+
+    // Step 3: Check AI provider configuration (only if not using -m flag)
+    if (!options.message) {
+      console.log(chalk.blue('Checking AI configuration...'));
+      if (!isSetupComplete() || needsApiReconfigure) {
+        if (needsApiReconfigure && isSetupComplete()) {
+          console.log(
+            chalk.yellow(
+              "Fresh GitHub login detected. Let's verify your AI configuration.",
+            ),
+          );
+        } else {
+          console.log(chalk.yellow('AI provider not configured.'));
+        }
+        console.log(chalk.cyan('Select your AI provider:\n'));
+
+        const provider = await selectAiProvider();
+        const apiKey = await inputApiKey(provider);
+        await setApiKey(provider, apiKey);
+        console.log(chalk.green('\n✓ AI configuration saved.\n'));
+      } else {
+        console.log(chalk.green('✓ AI provider configured.\n'));
+      }
+    }
+
+    // Step 4: Check git repository
+    console.log(chalk.blue('Checking git repository...'));
+    if (!(await isGitRepo())) {
+      console.log(chalk.yellow('Not a git repository. Initializing...'));
+      await initGitRepo();
+    }
+    console.log(chalk.green('✓ Git repository exists.\n'));
+    const branch = await requireCurrentBranch();
+
+    // Step 2: Check remote
+    console.log(chalk.blue('Checking GitHub remote...'));
+    if (!(await hasRemote())) {
+      console.log(
+        chalk.yellow('No remote found. Creating GitHub repository...'),
+      );
+      await createGitHubRepo();
+    }
+    console.log(chalk.green('✓ GitHub remote exists.\n'));
+
+    // Step 3: Check for changes
+    console.log(chalk.blue('Checking for changes...'));
+    if (await hasChanges()) {
       console.log(chalk.green('✓ Changes detected.\n'));
 
       // Step 4: Stage all changes
       console.log(chalk.blue('Staging changes...'));
+      index = await saveIndex();
       await stageAll();
+      checkForSecrets(
+        await getStagedDiff(),
+        await getStagedFileSizes(),
+        options.allowSecrets,
+      );
+
+      // Keep the commit off protected branches like main
+      if (isProtectedBranch(branch, getSettings().protectedBranches)) {
+        await leaveProtectedBranch(branch, options);
+      }
 
       // Step 5: Get commit message
-      let commitMessage: string;
+      const commitMessage = await getCommitMessage(options, () =>
+        getStagedDiff(getSettings().ignore),
+      );
+      if (commitMessage === undefined) {
+        await restoreSavedIndex(index);
+        return;
+      }
 
-      if (options.message) {
-        commitMessage = options.message;
-        console.log(chalk.green('Using provided commit message.\n'));
-      } else {
-        let provider = getAiProvider();
-        let apiKey = getApiKey();
+      // Step 6: Commit
+      console.log(chalk.blue('Committing...'));
+      await commit(commitMessage);
+      index = undefined;
+    } else if (options.forceWithLease || !(await isBranchPushed())) {
+      // Nothing new, but e.g. an amended commit still needs pushing
+      console.log(
+        chalk.yellow('No changes to commit. Pushing existing commits.\n'),
+      );
+    } else {
+      console.log(chalk.yellow('\nNo changes to commit.\n'));
+      process.exit(0);
+    }
 
-        if (!provider || !apiKey) {
-          console.log(chalk.yellow('\n⚠️  AI provider not configured.'));
-          console.log(chalk.cyan("Let's set it up now:\n"));
+    // Step 7: Sync with the remote and push
+    await syncAndPush(options);
 
-          provider = await selectAiProvider();
-          apiKey = await inputApiKey(provider);
-          setApiKey(provider, apiKey);
-          console.log(chalk.green('\n✓ Configuration saved.\n'));
-        }
+    console.log(chalk.green.bold('\n✅ Push complete!\n'));
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(chalk.red(`\nError: ${error.message}`));
+    }
+    await restoreSavedIndex(index);
+    process.exit(getExitCode(error));
+  }
+});
+
+// Commit command - AI message for what is already staged
+addMessageOptions(
+  program
+    .command('commit')
+    .description(
+      'Commit staged changes with an AI message (no staging or push)',
+    )
+    .option('-a, --all', 'Stage changes to tracked files first')
+    .option('--amend', 'Regenerate the message of the last commit')
+    .option('--dry-run', 'Print the message without committing')
+    .option(
+      '--show-payload',
+      'Print exactly what would be sent to the AI, without sending it',
+    ),
+).action(async (options) => {
+  // The index before --all, put back if the command stops before committing
+  let index: string | undefined;
+  try {
+    setProfileOverride(options.profile);
+    if (!(await isGitRepo())) {
+      throw new Error('Not a git repository.');
+    }
+    if (options.showPayload && options.message) {
+      throw new Error('Nothing is sent to the AI with -m.');
+    }
 
-        // Get diff and generate message
-        const diff = await getStagedDiff();
-        if (!diff) {
-          console.log(chalk.yellow('\nNo staged changes to commit.\n'));
-          process.exit(0);
-        }
+    if (options.all) {
+      index = await saveIndex();
+      await stageTracked();
+    }
+    if (!options.amend && !(await hasStagedChanges())) {
+      console.log(
+        chalk.yellow(
+          '\nNo staged changes to commit. Stage files with git add, or use --all.\n',
+        ),
+      );
+      process.exit(0);
+    }
+    checkForSecrets(
+      await getStagedDiff(),
+      await getStagedFileSizes(),
+      options.allowSecrets,
+    );
+
+    const { ignore } = getSettings();
+    const commitMessage = await getCommitMessage(
+      { ...options, review: options.review && !options.dryRun },
+      () => (options.amend ? getAmendDiff(ignore) : getStagedDiff(ignore)),
+      options.amend ? () => getAmendChanges(ignore) : undefined,
+    );
+
+    if (commitMessage === undefined) {
+      await restoreSavedIndex(index);
+      return;
+    }
+    if (options.dryRun) {
+      console.log(commitMessage);
+      return;
+    }
+    await commit(commitMessage, { amend: options.amend });
+    index = undefined;
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(chalk.red(`\nError: ${error.message}`));
+    }
+    await restoreSavedIndex(index);
+    process.exit(getExitCode(error));
+  }
+});
 
-        try {
-          commitMessage = await generateCommitMessage(diff, provider, apiKey);
-          console.log(
-            chalk.cyan(`\n📝 Commit message:\n${chalk.white(commitMessage)}\n`),
-          );
-        } catch (aiError) {
+// Branch command - create a feature branch named by AI
+program
+  .command('branch [description...]')
+  .description(
+    'Create a branch named by AI from a description (default: from your uncommitted changes)',
+  )
+  .option('--model <model>', 'Override the configured AI model for this run')
+  .option('--dry-run', 'Print the name without creating the branch')
+  .option('--profile <name>', 'Use a named profile for this run')
+  .action(async (words: string[], options) => {
+    try {
+      setProfileOverride(options.profile);
+      if (!(await isGitRepo())) {
+        throw new Error('Not a git repository.');
+      }
+
+      const description = words.join(' ').trim();
+      const diff = description ? '' : await getWorkingTreeDiff();
+      if (!description && !diff) {
+        throw new Error(
+          'No changes to name the branch after. Describe it instead: git-ai branch add login form',
+        );
+      }
+      const source = description ? { description } : { diff };
+
+      if (options.dryRun) {
+        const { provider, apiKey } = await ensureAiProvider();
+        console.log(
+          await generateBranchName(
+            source,
+            getSettings().allowedTypes,
+            provider,
+            apiKey,
+            { model: options.model },
+          ),
+        );
+        return;
+      }
+      await createBranch(await nameBranch(source, options.model));
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error(chalk.red(`\nError: ${error.message}`));
+      }
+      process.exit(getExitCode(error));
+    }
+  });
+
+// Split command - several AI-planned commits from one working tree
+addMessageOptions(
+  program
+    .command('split')
+    .description(
+      'Split all uncommitted changes into several logical commits with AI',
+    )
+    .option('--dry-run', 'Show the plan without committing'),
+  false,
+).action(async (options) => {
+  let committed = 0;
+  // The index before the split, put back if it stops before any commit
+  let index: string | undefined;
+  try {
+    setProfileOverride(options.profile);
+    if (!(await isGitRepo())) {
+      throw new Error('Not a git repository.');
+    }
+
+    const diff = await getWorkingTreeDiff();
+    const units = splitUnits(diff);
+    if (units.length === 0) {
+      console.log(chalk.yellow('\nNo changes to split.\n'));
+      return;
+    }
+    checkForSecrets(
+      diff,
+      await getWorkingTreeFileSizes(
+        units
+          .filter((unit) => unit.file.change !== 'deleted')
+          .map((unit) => unit.file.path),
+      ),
+      options.allowSecrets,
+    );
+
+    const { provider, apiKey } = await ensureAiProvider();
+    let plan = await planCommits(units, provider, apiKey, {
+      model: options.model,
+    });
+    printPlan(plan, units);
+    if (options.dryRun) {
+      return;
+    }
+    if (options.review && isInteractive()) {
+      const reviewed = await reviewPlan(plan, units);
+      if (!reviewed) {
+        console.log(chalk.gray('\nSplit cancelled. Nothing was changed.\n'));
+        return;
+      }
+      plan = reviewed;
+    }
+
+    // Commit each group from a clean index; the working tree is untouched
+    const { ignore } = getSettings();
+    index = await saveIndex();
+    await unstageAll();
+    for (const [i, group] of plan.entries()) {
+      console.log(chalk.blue(`\n[${i + 1}/${plan.length}] ${group.title}`));
+      await applyToIndex(buildPatch(group.units));
+      const commitMessage = await getCommitMessage(
+        { ...options, context: `Planned commit: ${group.title}` },
+        // Fall back to the full diff when only ignored files are staged
+        async () => (await getStagedDiff(ignore)) || getStagedDiff(),
+      );
+      if (commitMessage === undefined) {
+        if (committed === 0) {
+          await restoreSavedIndex(index);
+        } else {
           console.log(
-            chalk.red(
-              `\n❌ AI Error: ${aiError instanceof Error ? aiError.message : 'Unknown error'}`,
+            chalk.yellow(
+              `Stopped after ${committed} commits. The remaining changes are still in your working tree.`,
             ),
           );
-          console.log(
-            chalk.yellow('\nWould you like to reconfigure your AI provider?\n'),
+        }
+        return;
+      }
+      await commit(commitMessage);
+      committed++;
+    }
+    console.log(chalk.green.bold(`\n✅ Created ${committed} commits.\n`));
+  } catch (error) {
+    if (committed > 0) {
+      console.error(
+        chalk.yellow(
+          `\nStopped after ${committed} commits. The remaining changes are still in your working tree.`,
+        ),
+      );
+    }
+    if (error instanceof Error) {
+      console.error(chalk.red(`\nError: ${error.message}`));
+    }
+    // Once commits exist the old index no longer matches HEAD
+    if (committed === 0) {
+      await restoreSavedIndex(index);
+    }
+    process.exit(getExitCode(error));
+  }
+});
+
+// PR command - open a pull request with an AI title and description
+program
+  .command('pr')
+  .description('Open a pull request with an AI-generated title and description')
+  .option(
+    '--base <branch>',
+    'Branch to merge into (default: the defaultBranch setting)',
+  )
+  .option('--draft', 'Open the pull request as a draft')
+  .option('--reviewer <user>', 'Request a review (repeatable)', collect, [])
+  .option('--label <name>', 'Add a label (repeatable)', collect, [])
+  .option('--model <model>', 'Override the configured AI model for this run')
+  .option('--no-review', 'Create the pull request without reviewing it')
+  .option('--dry-run', 'Print the title and description only')
+  .option('--profile <name>', 'Use a named profile for this run')
+  .action(async (options) => {
+    try {
+      setProfileOverride(options.profile);
+      if (!(await isGitRepo())) {
+        throw new Error('Not a git repository.');
+      }
+      if (!options.dryRun) {
+        if (!(await isGhInstalled())) {
+          throw new Error(
+            'GitHub CLI (gh) is not installed. Get it from https://cli.github.com',
           );
+        }
+        if (!(await isGhAuthenticated())) {
+          await loginGh();
+        }
+      }
 
-          const { confirm } = await import('./lib/prompt.js');
-          const shouldReconfigure = await confirm('Reconfigure AI provider?');
+      const settings = getSettings();
+      const base: string = options.base ?? settings.defaultBranch;
+      const branch = await requireCurrentBranch();
+      if (branch === base) {
+        throw new Error(
+          `You are on ${base}. Create a branch for the pull request first.`,
+        );
+      }
 
-          if (shouldReconfigure) {
-            provider = await selectAiProvider();
-            apiKey = await inputApiKey(provider);
-            setApiKey(provider, apiKey);
-            console.log(chalk.green('\n✓ Configuration saved. Retrying...\n'));
+      const baseRef = await resolveBaseRef(base);
+      const commits = await getBranchCommits(baseRef);
+      if (commits.length === 0) {
+        console.log(
+          chalk.yellow(`\nNo commits on ${branch} that are not in ${base}.\n`),
+        );
+        return;
+      }
+      const diff = await getBranchDiff(baseRef, settings.ignore);
 
-            commitMessage = await generateCommitMessage(diff, provider, apiKey);
-            console.log(
-              chalk.cyan(
-                `\n📝 Commit message:\n${chalk.white(commitMessage)}\n`,
-              ),
-            );
-          } else {
-            console.log(chalk.gray('\nPlease run: git-ai config\n'));
-            process.exit(1);
-          }
+      const { provider, apiKey } = await ensureAiProvider();
+      const template = findPrTemplate(await getRepoRoot());
+      if (template) {
+        console.log(chalk.gray('Using the pull request template.'));
+      }
+      const generationOptions = { model: options.model, template };
+      let draft = await generatePullRequest(
+        diff,
+        commits,
+        provider,
+        apiKey,
+        generationOptions,
+      );
+
+      if (options.dryRun) {
+        console.log(`\n${draft.title}\n\n${draft.body}`);
+        return;
+      }
+      if (options.review && isInteractive()) {
+        const reviewed = await reviewPullRequest(draft, (guidance) =>
+          generatePullRequest(diff, commits, provider, apiKey, {
+            ...generationOptions,
+            guidance,
+          }),
+        );
+        if (!reviewed) {
+          console.log(chalk.gray('\nPull request cancelled.\n'));
+          return;
         }
+        draft = reviewed;
+      } else {
+        console.log(
+          chalk.cyan(`\n📬 ${chalk.white.bold(draft.title)}\n\n`) +
+            `${draft.body}\n`,
+        );
       }
 
-      // Step 6: Commit
-      console.log(chalk.blue('Committing...'));
-      await commit(commitMessage);
+      if (!(await isBranchPushed())) {
+        await syncAndPush({});
+      }
+      console.log(chalk.blue('Creating pull request...'));
+      const url = await createPullRequest({
+        ...draft,
+        base,
+        draft: options.draft,
+        reviewers: options.reviewer,
+        labels: options.label,
+      });
+      console.log(chalk.green.bold(`\n✅ Pull request created: ${url}\n`));
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error(chalk.red(`\nError: ${error.message}`));
+      }
+      process.exit(getExitCode(error));
+    }
+  });
+
+// Hook command - generate messages from plain git commit
+const hookCommand = program
+  .command('hook')
+  .description(`Manage the ${HOOK_NAME} git hook`);
 
-      // Step 7: Push
-      console.log(chalk.blue('Pushing...'));
-      await push();
+hookCommand
+  .command('install')
+  .description(`Install a ${HOOK_NAME} hook that writes AI commit messages`)
+  .action(async () => {
+    try {
+      if (!(await isGitRepo())) {
+        throw new Error('Not a git repository.');
+      }
+      const status = await installHook();
+      console.log(chalk.green(`\n✓ Hook installed in ${status.hooksDir}`));
+      if (status.chainedHook) {
+        console.log(
+          chalk.gray(`  Your existing ${HOOK_NAME} hook still runs first.`),
+        );
+      }
+      console.log(
+        chalk.gray('  Run git commit without -m to get an AI message.\n'),
+      );
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error(chalk.red(`\nError: ${error.message}`));
+      }
+      process.exit(getExitCode(error));
+    }
+  });
+
+hookCommand
+  .command('uninstall')
+  .description(`Remove the ${HOOK_NAME} hook`)
+  .action(async () => {
+    try {
+      if (!(await isGitRepo())) {
+        throw new Error('Not a git repository.');
+      }
+      if (await uninstallHook()) {
+        console.log(chalk.green('\n✓ Hook removed.\n'));
+      } else {
+        console.log(chalk.yellow('\nThe git-ai hook is not installed.\n'));
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error(chalk.red(`\nError: ${error.message}`));
+      }
+      process.exit(getExitCode(error));
+    }
+  });
 
-      console.log(chalk.green.bold('\n✅ Push complete!\n'));
+hookCommand
+  .command('status')
+  .description('Show whether the hook is installed')
+  .action(async () => {
+    try {
+      if (!(await isGitRepo())) {
+        throw new Error('Not a git repository.');
+      }
+      const status = await getHookStatus();
+      console.log(chalk.blue.bold('\n🪝 Hook\n'));
+      console.log(
+        `Installed:   ${status.installed ? chalk.green('yes') : chalk.yellow('no')}`,
+      );
+      console.log(
+        `Hooks dir:   ${chalk.cyan(status.hooksDir)}${status.customHooksPath ? chalk.gray(' (core.hooksPath)') : ''}`,
+      );
+      if (status.foreignHook) {
+        console.log(
+          chalk.yellow(
+            `Another ${HOOK_NAME} hook is installed; it will run first once you install git-ai's.`,
+          ),
+        );
+      }
+      if (status.chainedHook) {
+        console.log(`Chained:     ${chalk.cyan(CHAINED_HOOK_NAME)}`);
+      }
+      console.log();
     } catch (error) {
       if (error instanceof Error) {
         console.error(chalk.red(`\nError: ${error.message}`));
       }
-      process.exit(1);
+      process.exit(getExitCode(error));
+    }
+  });
+
+// Called by the installed hook: never fails the commit
+hookCommand
+  .command('run <file> [source] [sha]', { hidden: true })
+  .action(async (file: string, source?: string) => {
+    try {
+      configureInteractivity({ nonInteractive: true });
+      if (!shouldGenerateMessage(source)) {
+        return;
+      }
+      const provider = getAiProvider();
+      const apiKey = await getApiKey();
+      if (!provider || apiKey === undefined) {
+        return;
+      }
+      const settings = getSettings();
+      const diff = await getStagedDiff(settings.ignore);
+      if (!diff) {
+        return;
+      }
+      // Secrets must not reach the AI; the commit itself is up to the user
+      if (
+        findSecrets(await getStagedDiff(), await getStagedFileSizes()).length >
+        0
+      ) {
+        console.error(
+          chalk.yellow(
+            'git-ai: possible secrets staged, not sending the diff to the AI. Run git-ai commit to see them.',
+          ),
+        );
+        return;
+      }
+
+      const tickets = findTickets(
+        (await getCurrentBranch()) ?? '',
+        settings.ticketPatterns,
+      );
+      const message = await generateCommitMessage(diff, provider, apiKey, {
+        timeout: HOOK_TIMEOUT,
+        deadline: HOOK_TIMEOUT,
+        single: true,
+        ticket: tickets[0],
+        context: buildTicketContext(tickets),
+      });
+      prependMessage(
+        file,
+        finishCommitMessage(message, tickets, settings.ticketPlacement),
+      );
+    } catch (error) {
+      // Offline or misconfigured: leave the message to the user
+      console.error(
+        chalk.gray(
+          `git-ai: no message generated (${error instanceof Error ? error.message : error})`,
+        ),
+      );
     }
   });
 
@@ -341,6 +1681,7 @@ program
   .description('List your GitHub repositories')
   .option('-n, --limit <number>', 'Number of repos to show', '10')
   .option('-d, --delete <name>', 'Delete a repository by name')
+  .option('--force', 'Delete without asking for confirmation')
   .action(async (options) => {
     try {
       const { execa } = await import('execa');
@@ -375,12 +1716,15 @@ program
         console.log(chalk.blue.bold('\n🗑️  Delete Repository\n'));
         console.log(chalk.yellow(`Repository: ${chalk.cyan(repoName)}\n`));
 
-        const { confirm } = await import('./lib/prompt.js');
-        const confirmed = await confirm(
-          chalk.red(
-            `⚠️  Are you sure you want to DELETE ${repoName}? This cannot be undone!`,
-          ),
-        );
+        const { confirmDestructive } = await import('./lib/prompt.js');
+        const confirmed =
+          options.force ||
+          (await confirmDestructive(
+            chalk.red(
+              `⚠️  Are you sure you want to DELETE ${repoName}? This cannot be undone!`,
+            ),
+            '--force',
+          ));
 
         if (!confirmed) {
           console.log(chalk.gray('\nDeletion cancelled.\n'));
@@ -471,7 +1815,7 @@ program
       if (error instanceof Error) {
         console.error(chalk.red(`\nError: ${error.message}`));
       }
-      process.exit(1);
+      process.exit(getExitCode(error));
     }
   });
 
@@ -479,7 +1823,7 @@ program
 program
   .command('delete')
   .description('Delete the GitHub repository for this project')
-  .option('-y, --yes', 'Skip confirmation prompt')
+  .option('--force', 'Delete without asking for confirmation')
   .action(async (options) => {
     try {
       console.log(chalk.blue.bold('\n🗑️  Delete Repository\n'));
@@ -523,18 +1867,20 @@ program
       const repoName = repoMatch[1].replace('.git', '');
       console.log(chalk.yellow(`Repository: ${chalk.cyan(repoName)}\n`));
 
-      if (!options.yes) {
-        const { confirm } = await import('./lib/prompt.js');
-        const confirmed = await confirm(
+      // Only --force skips this; the global --yes does not
+      const { confirmDestructive } = await import('./lib/prompt.js');
+      const confirmed =
+        options.force ||
+        (await confirmDestructive(
           chalk.red(
             `⚠️  Are you sure you want to DELETE ${repoName}? This cannot be undone!`,
           ),
-        );
+          '--force',
+        ));
 
-        if (!confirmed) {
-          console.log(chalk.gray('\nDeletion cancelled.\n'));
-          process.exit(0);
-        }
+      if (!confirmed) {
+        console.log(chalk.gray('\nDeletion cancelled.\n'));
+        process.exit(0);
       }
 
       console.log(chalk.yellow('\nDeleting repository...'));
@@ -584,33 +1930,37 @@ program
       if (error instanceof Error) {
         console.error(chalk.red(`\nError: ${error.message}`));
       }
-      process.exit(1);
+      process.exit(getExitCode(error));
     }
   });
 
 // Logout command - clear config and optionally logout from GitHub
 program
   .command('logout')
-  .description('Clear stored API key and optionally logout from GitHub')
+  .description('Clear stored API keys and optionally logout from GitHub')
   .option('-a, --all', 'Also logout from GitHub CLI')
+  .option('--force', 'Logout from GitHub CLI without asking (with --all)')
   .action(async (options) => {
     try {
       console.log(chalk.blue.bold('\n👋 Logout\n'));
 
       // Clear local config (API key)
-      const configCleared = clearConfig();
+      const configCleared = await clearConfig();
       if (configCleared) {
-        console.log(chalk.green('✓ API key and configuration cleared.'));
+        console.log(chalk.green('✓ API keys and configuration cleared.'));
       } else {
         console.log(chalk.yellow('No configuration found to clear.'));
       }
 
       // Optionally logout from GitHub CLI
       if (options.all) {
-        const { confirm } = await import('./lib/prompt.js');
-        const shouldLogoutGh = await confirm(
-          'Do you also want to logout from GitHub CLI?',
-        );
+        const { confirmDestructive } = await import('./lib/prompt.js');
+        const shouldLogoutGh =
+          options.force ||
+          (await confirmDestructive(
+            'Do you also want to logout from GitHub CLI?',
+            '--force',
+          ));
 
         if (shouldLogoutGh) {
           try {
@@ -631,7 +1981,7 @@ program
       if (error instanceof Error) {
         console.error(chalk.red(`\nError: ${error.message}`));
       }
-      process.exit(1);
+      process.exit(getExitCode(error));
     }
   });
 
@@ -643,4 +1993,20 @@ program
     console.log(chalk.green('Hello from my-cli!'));
   });
 
-program.parse(process.argv);
+/**
+ * Register provider plugins, then run the requested command
+ */
+async function main(): Promise<void> {
+  try {
+    await loadProviderPlugins(getProviderPlugins());
+  } catch (error) {
+    console.error(
+      chalk.yellow(
+        `Warning: could not load provider plugins: ${error instanceof Error ? error.message : error}`,
+      ),
+    );
+  }
+  await program.parseAsync(process.argv);
+}
+
+main();
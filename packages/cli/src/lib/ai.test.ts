@@ -1,4 +1,36 @@
-import { describe, expect, it } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  buildCommitPrompt,
+  generateCommitMessage,
+  mapWithConcurrency,
+  needsMapReduce,
+  ProvidersFailedError,
+  requestCompletion,
+} from './ai.js';
+import { responseCache } from './cache.js';
+import {
+  getProvider,
+  registerProvider,
+  unregisterProvider,
+} from './providers/registry.js';
+import type { AiProviderDefinition } from './providers/types.js';
+import { DEFAULT_SETTINGS } from './settings.js';
+
+function fakeProvider(
+  id: string,
+  generate: AiProviderDefinition['generate'],
+): AiProviderDefinition {
+  return {
+    id,
+    displayName: id,
+    description: 'Test provider',
+    keyUrl: '',
+    defaultModel: 'test-model',
+    envKeys: [`${id.toUpperCase()}_KEY`],
+    generate: vi.fn(generate),
+    validate: async () => ({ valid: true }),
+  };
+}
 
 // Unit tests for AI module functionality
 
@@ -44,6 +76,36 @@ describe('AI Module', () => {
     });
   });
 
+  describe('buildCommitPrompt', () => {
+    it('should add Conventional Commits rules and the diff', () => {
+      const prompt = buildCommitPrompt('diff --git a/x b/x', {
+        ...DEFAULT_SETTINGS,
+        allowedScopes: ['api', 'cli'],
+      });
+      expect(prompt).toContain('Conventional Commits');
+      expect(prompt).toContain('Allowed types: feat, fix');
+      expect(prompt).toContain('Allowed scopes (optional): api, cli');
+      expect(prompt.endsWith('diff --git a/x b/x')).toBe(true);
+    });
+
+    it('should skip rules for free-form style', () => {
+      const prompt = buildCommitPrompt('diff', {
+        ...DEFAULT_SETTINGS,
+        commitStyle: 'freeform',
+      });
+      expect(prompt).not.toContain('Allowed types');
+    });
+
+    it('should insert the diff at the {diff} placeholder', () => {
+      const prompt = buildCommitPrompt('the-diff', {
+        ...DEFAULT_SETTINGS,
+        commitStyle: 'freeform',
+        promptTemplate: 'Summarize:\n{diff}\nBe brief.',
+      });
+      expect(prompt).toBe('Summarize:\nthe-diff\nBe brief.');
+    });
+  });
+
   describe('Error Handling', () => {
     it('should identify 401 as auth error', () => {
       const status = 401;
@@ -56,7 +118,9 @@ describe('AI Module', () => {
     });
 
     it('should handle empty response', () => {
-      const response = { candidates: [] };
+      const response: {
+        candidates: { content?: { parts?: { text?: string }[] } }[];
+      } = { candidates: [] };
       const text = response?.candidates?.[0]?.content?.parts?.[0]?.text;
       expect(text).toBeUndefined();
     });
@@ -102,4 +166,142 @@ describe('AI Module', () => {
       expect(message.trim()).toBe('feat: add new feature');
     });
   });
+
+  describe('Map-Reduce', () => {
+    it('should keep results in order with bounded concurrency', async () => {
+      let running = 0;
+      let peak = 0;
+      const results = await mapWithConcurrency(
+        [30, 10, 20, 5, 15],
+        2,
+        async (delay) => {
+          running++;
+          peak = Math.max(peak, running);
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          running--;
+          return delay * 2;
+        },
+      );
+      expect(results).toEqual([60, 20, 40, 10, 30]);
+      expect(peak).toBe(2);
+    });
+
+    it('should only switch to map-reduce far over the budget', () => {
+      expect(needsMapReduce('x'.repeat(4000), 1000)).toBe(false);
+      expect(needsMapReduce('x'.repeat(40000), 1000)).toBe(true);
+    });
+  });
+
+  describe('Provider Fallback', () => {
+    const DIFF = `diff --git a/src/app.ts b/src/app.ts
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -1 +1 @@
+-a
++b`;
+
+    beforeEach(() => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.stubEnv('GIT_AI_FALLBACK_PROVIDERS', 'second,missing,third');
+      vi.stubEnv('GIT_AI_CACHE', 'false');
+      vi.stubEnv('GIT_AI_USAGE_LOG', 'false');
+      vi.stubEnv('SECOND_KEY', 'key-2');
+      vi.stubEnv('THIRD_KEY', 'key-3');
+      registerProvider(
+        fakeProvider('first', async () => {
+          throw new Error('Invalid first API key.');
+        }),
+      );
+      registerProvider(
+        fakeProvider('second', async () => {
+          throw new Error('Empty response from second');
+        }),
+      );
+      registerProvider(
+        fakeProvider(
+          'third',
+          async (_, options) => `feat: from ${options.apiKey}`,
+        ),
+      );
+    });
+
+    afterEach(() => {
+      ['first', 'second', 'third'].forEach(unregisterProvider);
+      vi.unstubAllEnvs();
+      vi.restoreAllMocks();
+    });
+
+    it('should try the fallback providers in order with their own keys', async () => {
+      await expect(
+        requestCompletion(getProvider('first'), {}, 'key-1', 'prompt'),
+      ).resolves.toBe('feat: from key-3');
+      expect(getProvider('second').generate).toHaveBeenCalledTimes(1);
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('first failed: Invalid first API key.'),
+      );
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('Unknown fallback provider "missing"'),
+      );
+    });
+
+    it('should list every failure when no provider answers', async () => {
+      vi.stubEnv('THIRD_KEY', '');
+      const error = await requestCompletion(
+        getProvider('first'),
+        {},
+        'key-1',
+        'prompt',
+      ).catch((error) => error);
+      expect(error).toBeInstanceOf(ProvidersFailedError);
+      expect(error.failures).toEqual([
+        'first: Invalid first API key.',
+        'second: Empty response from second',
+        'third: no API key',
+      ]);
+    });
+
+    it('should fall back to a message from the file list', async () => {
+      vi.stubEnv('GIT_AI_FALLBACK_PROVIDERS', '');
+      const changes = async () => [
+        {
+          path: 'src/app.ts',
+          change: 'modified' as const,
+          additions: 1,
+          deletions: 1,
+          binary: false,
+        },
+      ];
+      await expect(
+        generateCommitMessage(DIFF, 'first', 'key-1', { changes }),
+      ).resolves.toBe('chore: update app.ts');
+    });
+
+    it('should not cache answers from a fallback provider', async () => {
+      vi.stubEnv('GIT_AI_CACHE', 'true');
+      vi.spyOn(responseCache, 'get').mockReturnValue(undefined);
+      const set = vi.spyOn(responseCache, 'set').mockImplementation(() => {});
+
+      await expect(generateCommitMessage(DIFF, 'first', 'key-1')).resolves.toBe(
+        'feat: from key-3',
+      );
+      expect(set).not.toHaveBeenCalled();
+
+      await generateCommitMessage(DIFF, 'third', 'key-3');
+      expect(set).toHaveBeenCalledWith(
+        expect.objectContaining({ provider: 'third' }),
+        expect.anything(),
+      );
+    });
+
+    it('should try only the given provider once with single', async () => {
+      await expect(
+        generateCommitMessage(DIFF, 'first', 'key-1', { single: true }),
+      ).rejects.toThrow('first: Invalid first API key.');
+      expect(getProvider('first').generate).toHaveBeenCalledTimes(1);
+      expect(getProvider('second').generate).not.toHaveBeenCalled();
+      expect(console.log).not.toHaveBeenCalledWith(
+        expect.stringContaining('failed'),
+      );
+    });
+  });
 });
@@ -1,337 +1,715 @@
-import axios from 'axios';
 import chalk from 'chalk';
-import type { AiProvider } from './config.js';
+import { cacheKey, parseDuration, responseCache } from './cache.js';
+import {
+  getEndpoint,
+  getFallbackApiKey,
+  getGenerationSettings,
+  MODEL_ENV_VAR,
+  type AiProvider,
+} from './config.js';
+import {
+  condenseDiff,
+  DEFAULT_DIFF_TOKENS,
+  estimateTokens,
+  formatStat,
+  groupDiff,
+  parseDiff,
+  type DiffChunk,
+} from './diff.js';
+import { checkCommitMessage, getCommitStyle } from './commit-style.js';
+import { getStagedChanges } from './git.js';
+import { CancelledError } from './interactive.js';
+import { buildOfflineMessage, type ChangedFile } from './offline.js';
+import { withProgress, type RequestProgress } from './progress.js';
+import type { ProjectSettings } from './project-config.js';
+import { RETRIES, withRetry } from './providers/http.js';
+import { OFFLINE_PROVIDER } from './providers/offline.js';
+import { findProvider, getProvider } from './providers/registry.js';
+import { redactForAi, redactPrompt } from './redact.js';
+import { parseSize } from './scan.js';
+import type {
+  AiProviderDefinition,
+  ApiKeyValidation,
+  EndpointSettings,
+  GenerationSettings,
+  TokenUsage,
+} from './providers/types.js';
+import { getSettings } from './settings.js';
+import {
+  BudgetExceededError,
+  checkBudget,
+  formatCost,
+  trackUsage,
+} from './usage.js';
 
-const COMMIT_PROMPT = `You are an expert developer. Based on the following git diff, write a concise, professional commit message following conventional commit standards. Output only the message text, nothing else:`;
+// Use map-reduce when the diff is this many times over the budget
+const MAP_REDUCE_THRESHOLD = 3;
 
-// Max characters to send to AI (to avoid 413 errors)
-const MAX_DIFF_LENGTH = 8000;
+// Summary requests in flight at once during map-reduce
+const MAP_CONCURRENCY = 4;
+
+// Regenerations when the output breaks the commit style
+const STYLE_RETRIES = 2;
 
 /**
- * Truncate diff to avoid API size limits
+ * How generateCommitMessage handles large diffs: auto switches to
+ * map-reduce when condensing would drop too much
  */
-function truncateDiff(diff: string): string {
-  if (diff.length <= MAX_DIFF_LENGTH) {
-    return diff;
-  }
-  console.log(
-    chalk.yellow(
-      `Diff is large (${diff.length} chars). Truncating to ${MAX_DIFF_LENGTH} chars...`,
-    ),
+export type GenerationMode = 'auto' | 'single' | 'map-reduce';
+
+export interface CommitMessageOptions extends GenerationSettings {
+  mode?: GenerationMode;
+  /** Ticket id for the jira style, e.g. PROJ-123 */
+  ticket?: string;
+  /** Background for the model, e.g. the related ticket */
+  context?: string;
+  /** Extra instructions typed by the user when regenerating */
+  guidance?: string;
+  /** Files behind the diff, for offline messages (default: staged) */
+  changes?: () => Promise<ChangedFile[]>;
+  /** Skip cached answers (new answers are still stored) */
+  fresh?: boolean;
+  /** One try at this provider: no retries, fallback providers or offline message */
+  single?: boolean;
+  /** Milliseconds for the whole generation, every request included */
+  deadline?: number;
+}
+
+/**
+ * Token budget for the diff: config, then the provider's model default
+ */
+export function getDiffTokenBudget(
+  definition: AiProviderDefinition,
+  settings: GenerationSettings,
+): number {
+  return (
+    settings.diffTokens ??
+    definition.diffTokenBudget?.(settings.model || definition.defaultModel) ??
+    DEFAULT_DIFF_TOKENS
   );
+}
+
+/**
+ * Model a request goes to: the configured one, then the endpoint's
+ * model or the provider default
+ */
+export function resolveModel(
+  definition: AiProviderDefinition,
+  generation: GenerationSettings,
+): string {
   return (
-    diff.substring(0, MAX_DIFF_LENGTH) +
-    '\n\n[... diff truncated due to size ...]'
+    generation.model ||
+    (definition.usesEndpoint ? getEndpoint()?.model : undefined) ||
+    definition.defaultModel
   );
 }
 
 /**
- * Generate a commit message using the configured AI provider
+ * Condense the diff to the token budget, noting when it was reduced
  */
-export async function generateCommitMessage(
+function prepareDiff(diff: string, budget: number): string {
+  const condensed = condenseDiff(diff, budget);
+  const tokens = estimateTokens(diff);
+  if (tokens > budget) {
+    console.log(
+      chalk.yellow(
+        `Diff is large (~${tokens} tokens). Condensing to fit ${budget} tokens...`,
+      ),
+    );
+  }
+  return condensed;
+}
+
+/**
+ * Build the commit prompt from the template, style rules and diff.
+ * A template containing {diff} gets the diff inserted in place.
+ */
+export function buildCommitPrompt(
   diff: string,
-  provider: AiProvider,
-  apiKey: string,
-): Promise<string> {
-  console.log(chalk.yellow('Generating commit message with AI...'));
-
-  // Truncate large diffs to avoid 413 errors
-  const truncatedDiff = truncateDiff(diff);
-
-  switch (provider) {
-    case 'gemini':
-      return generateWithGemini(truncatedDiff, apiKey);
-    case 'openai':
-      return generateWithOpenAI(truncatedDiff, apiKey);
-    case 'anthropic':
-      return generateWithAnthropic(truncatedDiff, apiKey);
-    case 'github':
-      return generateWithGitHub(truncatedDiff, apiKey);
-    default:
-      throw new Error(`Unknown AI provider: ${provider}`);
+  settings: Required<ProjectSettings>,
+  ticket?: string,
+): string {
+  const rules = getCommitStyle(settings.commitStyle).rules({
+    settings,
+    ticket,
+  });
+
+  const template = settings.promptTemplate;
+  if (template.includes('{diff}')) {
+    return [template.replace('{diff}', diff), ...rules].join('\n');
   }
+  return `${[template, ...rules].join('\n')}\n\n${diff}`;
 }
 
 /**
- * Test if an API key is valid by making a minimal API call
+ * Ask the model to fix a message that broke the style rules
  */
-export async function testApiKey(
+export function buildRetryPrompt(
+  prompt: string,
+  message: string,
+  problems: string[],
+): string {
+  return `${prompt}\n\nYour previous answer was:\n${message}\n\nIt breaks these rules:\n${problems.map((problem) => `- ${problem}`).join('\n')}\nWrite a corrected commit message. Output only the message text.`;
+}
+
+/**
+ * Merge the configured generation settings with per-run overrides
+ */
+export function resolveGenerationSettings(
   provider: AiProvider,
-  apiKey: string,
-): Promise<{ valid: boolean; error?: string }> {
-  try {
-    switch (provider) {
-      case 'gemini': {
-        const url = `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`;
-        await axios.post(
-          url,
-          {
-            contents: [{ parts: [{ text: 'Say "OK"' }] }],
-          },
-          { timeout: 15000 },
-        );
-        return { valid: true };
-      }
-      case 'openai': {
-        await axios.post(
-          'https://api.openai.com/v1/chat/completions',
-          {
-            model: 'gpt-4o-mini',
-            messages: [{ role: 'user', content: 'Say "OK"' }],
-            max_tokens: 5,
-          },
-          {
-            headers: {
-              Authorization: `Bearer ${apiKey}`,
-              'Content-Type': 'application/json',
-            },
-            timeout: 15000,
-          },
-        );
-        return { valid: true };
-      }
-      case 'anthropic': {
-        await axios.post(
-          'https://api.anthropic.com/v1/messages',
-          {
-            model: 'claude-3-haiku-20240307',
-            max_tokens: 5,
-            messages: [{ role: 'user', content: 'Say "OK"' }],
-          },
-          {
-            headers: {
-              'x-api-key': apiKey,
-              'anthropic-version': '2023-06-01',
-              'Content-Type': 'application/json',
-            },
-            timeout: 15000,
-          },
-        );
-        return { valid: true };
-      }
-      case 'github': {
-        await axios.post(
-          'https://models.inference.ai.azure.com/chat/completions',
-          {
-            model: 'gpt-4o-mini',
-            messages: [{ role: 'user', content: 'Say "OK"' }],
-            max_tokens: 5,
-          },
-          {
-            headers: {
-              Authorization: `Bearer ${apiKey}`,
-              'Content-Type': 'application/json',
-            },
-            timeout: 15000,
-          },
-        );
-        return { valid: true };
-      }
-      default:
-        return { valid: false, error: `Unknown provider: ${provider}` };
-    }
-  } catch (error) {
-    if (axios.isAxiosError(error)) {
-      if (error.response?.status === 401 || error.response?.status === 403) {
-        return { valid: false, error: 'Invalid API key' };
-      }
-      if (error.response?.status === 429) {
-        // Rate limited but key is valid
-        return { valid: true };
-      }
-      return { valid: false, error: error.message };
-    }
-    return { valid: false, error: 'Connection error' };
+  overrides: GenerationSettings = {},
+): GenerationSettings {
+  const settings = getGenerationSettings(provider);
+  return {
+    model: overrides.model ?? (process.env[MODEL_ENV_VAR] || settings.model),
+    temperature: overrides.temperature ?? settings.temperature,
+    maxTokens: overrides.maxTokens ?? settings.maxTokens,
+    timeout: overrides.timeout ?? settings.timeout,
+    diffTokens: overrides.diffTokens ?? settings.diffTokens,
+  };
+}
+
+/**
+ * Every provider in the chain failed. failures has one line per provider.
+ */
+export class ProvidersFailedError extends Error {
+  constructor(public readonly failures: string[]) {
+    super(
+      `No AI provider could answer:\n${failures.map((failure) => `  ${failure}`).join('\n')}`,
+    );
+    this.name = 'ProvidersFailedError';
   }
 }
 
 /**
- * Generate commit message using Google Gemini
+ * A provider to try, with its settings and a way to read its key
  */
-async function generateWithGemini(
-  diff: string,
-  apiKey: string,
-): Promise<string> {
-  const url = `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`;
+interface ProviderTarget {
+  definition: AiProviderDefinition;
+  generation: GenerationSettings;
+  apiKey: () => Promise<string | undefined>;
+}
 
-  try {
-    const response = await axios.post(
-      url,
+/**
+ * The fallbackProviders after the given one, skipping unknown ids.
+ * They use their own model settings but the caller's response length.
+ */
+function fallbackTargets(
+  primary: string,
+  generation: GenerationSettings,
+): ProviderTarget[] {
+  const ids = [...new Set(getSettings().fallbackProviders)].filter(
+    (id) => id !== primary,
+  );
+  return ids.flatMap((id) => {
+    const definition = findProvider(id);
+    if (!definition) {
+      console.log(chalk.yellow(`Unknown fallback provider "${id}", skipped.`));
+      return [];
+    }
+    const settings = getGenerationSettings(id);
+    return [
       {
-        contents: [
-          {
-            parts: [{ text: `${COMMIT_PROMPT}\n\n${diff}` }],
-          },
-        ],
+        definition,
+        generation: {
+          ...settings,
+          maxTokens: generation.maxTokens ?? settings.maxTokens,
+        },
+        apiKey: () => getFallbackApiKey(id),
       },
-      { timeout: 60000 },
+    ];
+  });
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * How requestCompletion may answer
+ */
+export interface CompletionOptions {
+  /** Try the given provider once: no retries or fallback providers */
+  single?: boolean;
+  /** Told which provider answered, e.g. one of the fallbacks */
+  onAnswer?: (provider: string) => void;
+}
+
+let budgetWarned = false;
+
+/**
+ * Warn once per run when the monthly budget is spent, or refuse to send
+ * requests when budgetAction is block
+ */
+function enforceBudget(settings: Required<ProjectSettings>): void {
+  const status = checkBudget(settings);
+  if (!status?.exceeded) {
+    return;
+  }
+  if (settings.budgetAction === 'block') {
+    throw new BudgetExceededError(status);
+  }
+  if (!budgetWarned) {
+    budgetWarned = true;
+    console.log(
+      chalk.yellow(
+        `Monthly AI budget of ${formatCost(status.budget)} exceeded (${formatCost(status.spent)} spent this month).`,
+      ),
     );
+  }
+}
 
-    const text = response.data?.candidates?.[0]?.content?.parts?.[0]?.text;
-    if (!text) {
-      throw new Error('Empty response from Gemini');
-    }
+/**
+ * Send a prompt to the provider, retrying errors that may go away, then
+ * to each of the fallbackProviders in turn. Secrets, emails and
+ * redactPatterns are masked here, whatever the caller. With progress
+ * the answer is streamed and Ctrl-C cancels. Every attempt goes to the
+ * usage log, and the monthly budget is checked first.
+ */
+export async function requestCompletion(
+  definition: AiProviderDefinition,
+  generation: GenerationSettings,
+  apiKey: string,
+  prompt: string,
+  progress?: RequestProgress,
+  { single = false, onAnswer }: CompletionOptions = {},
+): Promise<string> {
+  const settings = getSettings();
+  enforceBudget(settings);
+  const payload = redactPrompt(prompt, settings);
+  const signal = progress?.signal;
+  const targets: ProviderTarget[] = [
+    { definition, generation, apiKey: async () => apiKey },
+    ...(single ? [] : fallbackTargets(definition.id, generation)),
+  ];
 
-    return text.trim();
-  } catch (error) {
-    if (axios.isAxiosError(error)) {
-      if (error.response?.status === 401 || error.response?.status === 403) {
-        throw new Error('Invalid Gemini API key. Please run setup again.');
+  const failures: string[] = [];
+  for (const [i, target] of targets.entries()) {
+    const name = target.definition.displayName;
+    if (i > 0) {
+      console.log(chalk.yellow(`Trying ${name} instead...`));
+    }
+    const key = await target.apiKey();
+    if (key === undefined) {
+      console.log(chalk.yellow(`${name} skipped: no API key.`));
+      failures.push(`${name}: no API key`);
+      continue;
+    }
+    try {
+      const generate = (onUsage?: (usage: TokenUsage) => void) =>
+        target.definition.generate(payload, {
+          ...target.generation,
+          apiKey: key,
+          endpoint: getEndpoint(),
+          signal,
+          onToken: progress?.startStream?.(),
+          onUsage,
+        });
+      const call = {
+        provider: target.definition.id,
+        model: resolveModel(target.definition, target.generation),
+        prompt: payload,
+        signal,
+      };
+      const text = await withRetry(
+        () => (settings.usageLog ? trackUsage(call, generate) : generate()),
+        single ? 0 : RETRIES,
+        undefined,
+        (error, wait, attempt) =>
+          console.log(
+            chalk.yellow(
+              `${name}: ${errorMessage(error)} Retrying in ${(wait / 1000).toFixed(1)}s (${attempt} of ${RETRIES})...`,
+            ),
+          ),
+        signal,
+      );
+      onAnswer?.(target.definition.id);
+      return text;
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new CancelledError();
       }
-      if (error.response?.status === 429) {
-        throw new Error(
-          'Gemini API rate limit exceeded. Please wait a moment and try again.',
-        );
+      if (!single) {
+        console.log(chalk.yellow(`${name} failed: ${errorMessage(error)}`));
       }
-      throw new Error(
-        `Gemini API error: ${error.response?.status || error.message}`,
-      );
+      failures.push(`${name}: ${errorMessage(error)}`);
     }
-    throw error;
   }
+  throw new ProvidersFailedError(failures);
+}
+
+/**
+ * Run an async function over items with at most `limit` in flight,
+ * keeping results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker),
+  );
+  return results;
 }
 
 /**
- * Generate commit message using OpenAI
+ * Whether a diff is too large to condense into a single request
  */
-async function generateWithOpenAI(
+export function needsMapReduce(diff: string, budget: number): boolean {
+  return estimateTokens(diff) > budget * MAP_REDUCE_THRESHOLD;
+}
+
+/**
+ * Prompt asking for a short summary of one group of files
+ */
+export function buildSummaryPrompt(chunk: DiffChunk): string {
+  return `Summarize the following changes in ${chunk.label} in one or two short sentences. Describe the intent, not line-by-line edits. Output only the summary:\n\n${chunk.diff}`;
+}
+
+/**
+ * Input for the final commit prompt: the file stat (when it fits)
+ * and the summary of each group
+ */
+function combineSummaries(
   diff: string,
-  apiKey: string,
-): Promise<string> {
-  const url = 'https://api.openai.com/v1/chat/completions';
+  chunks: DiffChunk[],
+  summaries: string[],
+  budget: number,
+): string {
+  const files = parseDiff(diff);
+  const stat = formatStat(files);
+  const overview =
+    estimateTokens(stat) <= budget / 2
+      ? `Changed files:\n${stat}`
+      : `${files.length} files changed.`;
+  const areas = chunks.map((chunk, i) =>
+    chunk.files.length === 1
+      ? `- ${chunk.label}: ${summaries[i]}`
+      : `- ${chunk.label} (${chunk.files.length} files): ${summaries[i]}`,
+  );
+  return [overview, 'Summary of the changes by area:', ...areas].join('\n');
+}
 
-  try {
-    const response = await axios.post(
-      url,
-      {
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'user',
-            content: `${COMMIT_PROMPT}\n\n${diff}`,
-          },
-        ],
-        max_tokens: 200,
-      },
-      {
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        timeout: 60000,
-      },
-    );
+/**
+ * Add the context and the user's guidance to a prompt
+ */
+function withContext(
+  prompt: string,
+  context?: string,
+  guidance?: string,
+): string {
+  return [
+    prompt,
+    context && `Context:\n${context}`,
+    guidance && `Additional instructions: ${guidance}`,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+}
 
-    const text = response.data?.choices?.[0]?.message?.content;
-    if (!text) {
-      throw new Error('Empty response from OpenAI');
-    }
+/**
+ * Redact the diff and decide between one request and map-reduce
+ */
+function planRequests(
+  diff: string,
+  provider: AiProvider,
+  options: CommitMessageOptions,
+) {
+  const {
+    mode = 'auto',
+    ticket,
+    context,
+    guidance,
+    changes,
+    fresh,
+    single,
+    deadline,
+    ...overrides
+  } = options;
+  const definition = getProvider(provider);
+  const generation = resolveGenerationSettings(provider, overrides);
+  const budget = getDiffTokenBudget(definition, generation);
+  const settings = getSettings();
+  const redacted = redactForAi(diff, settings);
+  const chunks =
+    mode === 'map-reduce' ||
+    (mode === 'auto' && needsMapReduce(redacted, budget))
+      ? groupDiff(redacted, budget)
+      : [];
+  return {
+    definition,
+    generation,
+    budget,
+    settings,
+    ticket,
+    diff: redacted,
+    // A single group is condensed like any other diff
+    chunks: chunks.length < 2 ? [] : chunks,
+    buildPrompt: (input: string) =>
+      withContext(
+        buildCommitPrompt(input, settings, ticket),
+        context,
+        guidance,
+      ),
+  };
+}
 
-    return text.trim();
-  } catch (error) {
-    if (axios.isAxiosError(error)) {
-      if (error.response?.status === 401) {
-        throw new Error('Invalid OpenAI API key. Please run setup again.');
-      }
-      throw new Error(`OpenAI API error: ${error.message}`);
-    }
-    throw error;
+/**
+ * Exactly what generating a commit message would send to the provider
+ */
+export interface CommitPayload {
+  provider: AiProvider;
+  model: string;
+  prompts: string[];
+  /** Requests that cannot be shown because they depend on answers */
+  note?: string;
+}
+
+/**
+ * Build the prompts for a commit message without sending them
+ */
+export function getCommitPayload(
+  diff: string,
+  provider: AiProvider,
+  options: CommitMessageOptions = {},
+): CommitPayload {
+  if (provider === OFFLINE_PROVIDER) {
+    return {
+      provider,
+      model: getProvider(provider).defaultModel,
+      prompts: [],
+      note: 'The offline provider builds the message from the file list without any request.',
+    };
   }
+  const { definition, generation, budget, settings, chunks, ...plan } =
+    planRequests(diff, provider, options);
+  const model = resolveModel(definition, generation);
+  if (chunks.length === 0) {
+    return {
+      provider,
+      model,
+      prompts: [
+        redactPrompt(
+          plan.buildPrompt(prepareDiff(plan.diff, budget)),
+          settings,
+        ),
+      ],
+    };
+  }
+  return {
+    provider,
+    model,
+    prompts: chunks.map((chunk) =>
+      redactPrompt(buildSummaryPrompt(chunk), settings),
+    ),
+    note: `A final request then asks for the commit message, based on the file list and the ${chunks.length} summaries.`,
+  };
 }
 
 /**
- * Generate commit message using Anthropic Claude
+ * Generate one or more candidate commit messages using the configured
+ * AI provider. Diffs too large to condense are summarized per group of
+ * files first (map) and the summaries combined into a message (reduce).
+ * Each result is checked against the commit style before returning.
  */
-async function generateWithAnthropic(
+export async function generateCommitMessages(
   diff: string,
+  provider: AiProvider,
   apiKey: string,
-): Promise<string> {
-  const url = 'https://api.anthropic.com/v1/messages';
+  count: number,
+  options: CommitMessageOptions = {},
+): Promise<string[]> {
+  const settings = getSettings();
+  const style = getCommitStyle(settings.commitStyle);
+  const styleContext = { settings, ticket: options.ticket };
+  if (style.id === 'jira' && !options.ticket) {
+    throw new Error(
+      'The jira commit style needs a ticket. Put it in the branch name or pass --ticket PROJ-123.',
+    );
+  }
+  const offlineMessage = async () =>
+    buildOfflineMessage(
+      await (options.changes ?? (() => getStagedChanges(settings.ignore)))(),
+      style,
+      styleContext,
+    );
+
+  if (provider === OFFLINE_PROVIDER) {
+    console.log(chalk.yellow('Building commit message from the file list...'));
+    return [await offlineMessage()];
+  }
+  const label =
+    count > 1
+      ? `Generating ${count} commit messages with AI...`
+      : 'Generating commit message with AI...';
 
+  const { definition, generation, budget, chunks, ...plan } = planRequests(
+    diff,
+    provider,
+    options,
+  );
+
+  // The same diff, model and prompt get the same answers
+  const limits = settings.cache
+    ? {
+        ttl: parseDuration(settings.cacheTtl),
+        maxSize: parseSize(settings.cacheMaxSize),
+      }
+    : undefined;
+  const model = resolveModel(definition, generation);
+  const key = cacheKey({
+    provider: definition.id,
+    model,
+    count,
+    diff: chunks.length === 0 ? condenseDiff(plan.diff, budget) : plan.diff,
+    prompt: plan.buildPrompt('{diff}'),
+  });
+  const cached =
+    limits && !options.fresh ? responseCache.get(key, limits) : undefined;
+  if (cached) {
+    console.log(
+      chalk.gray(
+        count > 1
+          ? 'Using cached commit messages (--fresh asks again).'
+          : 'Using the cached commit message (--fresh asks again).',
+      ),
+    );
+    return cached;
+  }
+
+  // Only answers from the provider in the key are stored
+  let fellBack = false;
   try {
-    const response = await axios.post(
-      url,
-      {
-        model: 'claude-3-haiku-20240307',
-        max_tokens: 200,
-        messages: [
-          {
-            role: 'user',
-            content: `${COMMIT_PROMPT}\n\n${diff}`,
-          },
-        ],
-      },
-      {
-        headers: {
-          'x-api-key': apiKey,
-          'anthropic-version': '2023-06-01',
-          'Content-Type': 'application/json',
-        },
-        timeout: 60000,
+    const messages = await withProgress(
+      label,
+      async (progress) => {
+        const request = (prompt: string) =>
+          requestCompletion(definition, generation, apiKey, prompt, progress, {
+            single: options.single,
+            onAnswer: (id) => {
+              fellBack ||= id !== definition.id;
+            },
+          });
+
+        // Repair the output, or regenerate with the problems spelled out
+        const generate = async (prompt: string) => {
+          let raw = await request(prompt);
+          for (let attempt = 1; ; attempt++) {
+            const checked = checkCommitMessage(raw, style, styleContext);
+            if (checked.problems.length === 0) {
+              return checked.message;
+            }
+            if (attempt > STYLE_RETRIES) {
+              throw new Error(
+                `AI output does not follow the ${style.id} style: ${checked.problems.join(' ')}`,
+              );
+            }
+            console.log(
+              chalk.yellow(
+                `Message breaks the ${style.id} style, regenerating...`,
+              ),
+            );
+            raw = await request(
+              buildRetryPrompt(prompt, checked.message, checked.problems),
+            );
+          }
+        };
+
+        // Candidates share one prompt (and one map step)
+        const candidates = async (prompt: string) => {
+          const messages = await mapWithConcurrency(
+            Array.from({ length: count }, () => prompt),
+            MAP_CONCURRENCY,
+            generate,
+          );
+          return [...new Set(messages)];
+        };
+
+        if (chunks.length === 0) {
+          return candidates(plan.buildPrompt(prepareDiff(plan.diff, budget)));
+        }
+
+        console.log(
+          chalk.yellow(
+            `Diff is very large (~${estimateTokens(plan.diff)} tokens). Summarizing ${chunks.length} groups of files...`,
+          ),
+        );
+        const summaries = await mapWithConcurrency(
+          chunks,
+          MAP_CONCURRENCY,
+          (chunk) => request(buildSummaryPrompt(chunk)),
+        );
+        const combined = combineSummaries(plan.diff, chunks, summaries, budget);
+        return candidates(plan.buildPrompt(combined));
       },
+      options.deadline,
     );
-
-    const text = response.data?.content?.[0]?.text;
-    if (!text) {
-      throw new Error('Empty response from Anthropic');
+    if (limits && !fellBack) {
+      responseCache.set(
+        { key, provider: definition.id, model, value: messages },
+        limits,
+      );
     }
-
-    return text.trim();
+    return messages;
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      if (error.response?.status === 401) {
-        throw new Error('Invalid Anthropic API key. Please run setup again.');
-      }
-      throw new Error(`Anthropic API error: ${error.message}`);
+    if (
+      options.single ||
+      (!(error instanceof ProvidersFailedError) &&
+        !(error instanceof BudgetExceededError))
+    ) {
+      throw error;
     }
-    throw error;
+    console.log(
+      chalk.yellow(
+        error instanceof BudgetExceededError
+          ? `${error.message} Using a message built from the file list instead.`
+          : 'No AI provider answered. Using a message built from the file list instead.',
+      ),
+    );
+    return [await offlineMessage()];
   }
 }
 
 /**
- * Generate commit message using GitHub (Models API)
+ * Generate a commit message using the configured AI provider
  */
-async function generateWithGitHub(
+export async function generateCommitMessage(
   diff: string,
-  token: string,
+  provider: AiProvider,
+  apiKey: string,
+  options: CommitMessageOptions = {},
 ): Promise<string> {
-  const url = 'https://models.inference.ai.azure.com/chat/completions';
-
-  try {
-    const response = await axios.post(
-      url,
-      {
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'user',
-            content: `${COMMIT_PROMPT}\n\n${diff}`,
-          },
-        ],
-        max_tokens: 200,
-      },
-      {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        timeout: 60000,
-      },
-    );
-
-    const text = response.data?.choices?.[0]?.message?.content;
-    if (!text) {
-      throw new Error('Empty response from GitHub Models');
-    }
+  const [message] = await generateCommitMessages(
+    diff,
+    provider,
+    apiKey,
+    1,
+    options,
+  );
+  return message;
+}
 
-    return text.trim();
-  } catch (error) {
-    if (axios.isAxiosError(error)) {
-      if (error.response?.status === 401) {
-        throw new Error('Invalid GitHub PAT. Please run setup again.');
-      }
-      throw new Error(`GitHub Models API error: ${error.message}`);
-    }
-    throw error;
+/**
+ * Test if an API key is valid by making a minimal API call
+ */
+export async function testApiKey(
+  provider: AiProvider,
+  apiKey: string,
+  endpoint: EndpointSettings | undefined = getEndpoint(),
+  settings: GenerationSettings = getGenerationSettings(provider),
+): Promise<ApiKeyValidation> {
+  const definition = findProvider(provider);
+  if (!definition) {
+    return { valid: false, error: `Unknown provider: ${provider}` };
   }
+  return definition.validate({ ...settings, apiKey, endpoint });
 }
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildBranchPrompt,
+  isProtectedBranch,
+  parseBranchName,
+  slugifyBranchName,
+  uniqueBranchName,
+} from './branch.js';
+
+describe('Branch', () => {
+  describe('isProtectedBranch', () => {
+    it('should match exact names', () => {
+      expect(isProtectedBranch('main', ['main', 'master'])).toBe(true);
+      expect(isProtectedBranch('maintenance', ['main'])).toBe(false);
+    });
+
+    it('should match globs within a path segment', () => {
+      expect(isProtectedBranch('release/1.2', ['release/*'])).toBe(true);
+      expect(isProtectedBranch('release/1.2/hotfix', ['release/*'])).toBe(
+        false,
+      );
+      expect(isProtectedBranch('feat/release', ['release/*'])).toBe(false);
+    });
+  });
+
+  describe('slugifyBranchName', () => {
+    it('should keep the type prefix and kebab-case the rest', () => {
+      expect(slugifyBranchName('Feat/Add Login Form!')).toBe(
+        'feat/add-login-form',
+      );
+      expect(slugifyBranchName('fix(auth): handle expired tokens')).toBe(
+        'fix-auth-handle-expired-tokens',
+      );
+    });
+
+    it('should drop characters git rejects and cap the length', () => {
+      expect(slugifyBranchName('feat/a..b~c^d:e')).toBe('feat/a.b-c-d-e');
+      const long = slugifyBranchName(`feat/${'word '.repeat(20)}`);
+      expect(long.length).toBeLessThanOrEqual(50);
+      expect(long.endsWith('-')).toBe(false);
+    });
+  });
+
+  describe('parseBranchName', () => {
+    it('should read the name from a decorated answer', () => {
+      expect(parseBranchName('Branch name: `feat/add-sso`')).toBe(
+        'feat/add-sso',
+      );
+      expect(parseBranchName('fix/null-check\n\nBecause...')).toBe(
+        'fix/null-check',
+      );
+    });
+
+    it('should reject an empty answer', () => {
+      expect(() => parseBranchName('``')).toThrow('no branch name');
+    });
+  });
+
+  describe('uniqueBranchName', () => {
+    it('should add a number when the name is taken', async () => {
+      const taken = new Set(['feat/x', 'feat/x-2']);
+      expect(
+        await uniqueBranchName('feat/x', async (name) => taken.has(name)),
+      ).toBe('feat/x-3');
+      expect(
+        await uniqueBranchName('feat/y', async (name) => taken.has(name)),
+      ).toBe('feat/y');
+    });
+  });
+
+  describe('buildBranchPrompt', () => {
+    it('should list the allowed types and the description', () => {
+      const prompt = buildBranchPrompt({ description: 'add SSO login' }, [
+        'feat',
+        'fix',
+      ]);
+      expect(prompt).toContain('feat, fix');
+      expect(prompt).toContain('add SSO login');
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import {
+  getDiffTokenBudget,
+  requestCompletion,
+  resolveGenerationSettings,
+} from './ai.js';
+import type { AiProvider } from './config.js';
+import { cleanMessage } from './commit-style.js';
+import { condenseDiff } from './diff.js';
+import { withProgress } from './progress.js';
+import { getProvider } from './providers/registry.js';
+import { redactForAi } from './redact.js';
+import type { GenerationSettings } from './providers/types.js';
+
+// Longest generated branch name
+const MAX_BRANCH_LENGTH = 50;
+
+// Branch names are about the change, so a fraction of the budget will do
+const BRANCH_DIFF_SHARE = 4;
+
+/**
+ * Check a branch against protected names; "*" matches within a path
+ * segment, e.g. release/*
+ */
+export function isProtectedBranch(branch: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => {
+    const regex = pattern
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('[^/]*');
+    return new RegExp(`^${regex}$`).test(branch);
+  });
+}
+
+/**
+ * Turn free text into a branch name, keeping a "type/" prefix
+ */
+export function slugifyBranchName(text: string): string {
+  const [first, ...rest] = text.trim().toLowerCase().split('/');
+  const slug = (part: string) =>
+    part
+      .replace(/[^a-z0-9._-]+/g, '-')
+      .replace(/\.{2,}/g, '.')
+      .replace(/-{2,}/g, '-')
+      .replace(/^[-.]+|[-.]+$/g, '');
+  const name =
+    rest.length > 0
+      ? `${slug(first)}/${slug(rest.join('-'))}`
+      : slug(first ?? '');
+  return name
+    .slice(0, MAX_BRANCH_LENGTH)
+    .replace(/[-./]+$/, '')
+    .replace(/^\/+/, '');
+}
+
+/**
+ * Prompt for a branch name from a description or a diff
+ */
+export function buildBranchPrompt(
+  source: { description: string } | { diff: string },
+  types: string[],
+): string {
+  const input =
+    'description' in source
+      ? `Description of the work:\n${source.description}`
+      : `Changes:\n${source.diff}`;
+  return `Suggest a short git branch name for the following work. Use the form <type>/<short-kebab-case-summary> with one of these types: ${types.join(', ')}. Use at most five words. Output only the branch name.\n\n${input}`;
+}
+
+/**
+ * Read a branch name from the model's answer
+ */
+export function parseBranchName(response: string): string {
+  const [line] = cleanMessage(response).split('\n');
+  const name = slugifyBranchName(
+    line.replace(/^branch( name)?\s*:\s*/i, '').replace(/`/g, ''),
+  );
+  if (!name) {
+    throw new Error('The AI response has no branch name.');
+  }
+  return name;
+}
+
+/**
+ * Add -2, -3, ... until the name is not taken
+ */
+export async function uniqueBranchName(
+  name: string,
+  exists: (name: string) => Promise<boolean>,
+): Promise<string> {
+  let candidate = name;
+  for (let n = 2; await exists(candidate); n++) {
+    candidate = `${name}-${n}`;
+  }
+  return candidate;
+}
+
+/**
+ * Generate a branch name with the configured AI provider
+ */
+export async function generateBranchName(
+  source: { description: string } | { diff: string },
+  types: string[],
+  provider: AiProvider,
+  apiKey: string,
+  overrides: GenerationSettings = {},
+): Promise<string> {
+  const definition = getProvider(provider);
+  const generation = resolveGenerationSettings(provider, overrides);
+  const budget = Math.floor(
+    getDiffTokenBudget(definition, generation) / BRANCH_DIFF_SHARE,
+  );
+
+  const prompt = buildBranchPrompt(
+    'diff' in source
+      ? { diff: condenseDiff(redactForAi(source.diff), budget) }
+      : source,
+    types,
+  );
+  return parseBranchName(
+    await withProgress('Generating branch name with AI...', (progress) =>
+      requestCompletion(definition, generation, apiKey, prompt, progress),
+    ),
+  );
+}
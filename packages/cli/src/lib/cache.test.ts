@@ -0,0 +1,141 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  cacheKey,
+  createResponseCache,
+  parseDuration,
+  pruneEntries,
+  type CacheEntry,
+} from './cache.js';
+
+const LIMITS = { ttl: 60 * 60 * 1000, maxSize: 1024 * 1024 };
+
+function entry(key: string, created: number): CacheEntry {
+  return {
+    key,
+    provider: 'openai',
+    model: 'm',
+    value: [`feat: ${key}`],
+    created,
+  };
+}
+
+describe('Cache Module', () => {
+  describe('parseDuration', () => {
+    it('should read seconds, minutes, hours and days', () => {
+      expect(parseDuration('90')).toBe(90 * 1000);
+      expect(parseDuration('30m')).toBe(30 * 60 * 1000);
+      expect(parseDuration('24h')).toBe(24 * 60 * 60 * 1000);
+      expect(parseDuration('1.5d')).toBe(36 * 60 * 60 * 1000);
+      expect(() => parseDuration('soon')).toThrow('Invalid duration');
+    });
+  });
+
+  describe('cacheKey', () => {
+    it('should change with any part', () => {
+      const parts = { provider: 'openai', model: 'm', diff: 'd', prompt: 'p' };
+      expect(cacheKey(parts)).toBe(cacheKey({ ...parts }));
+      expect(cacheKey(parts)).not.toBe(cacheKey({ ...parts, model: 'n' }));
+      expect(cacheKey(parts)).not.toBe(cacheKey({ ...parts, diff: 'e' }));
+    });
+  });
+
+  describe('pruneEntries', () => {
+    it('should drop expired entries', () => {
+      const now = 10 * LIMITS.ttl;
+      expect(
+        pruneEntries(
+          [entry('old', now - LIMITS.ttl - 1), entry('new', now - 1)],
+          LIMITS,
+          now,
+        ).map(({ key }) => key),
+      ).toEqual(['new']);
+    });
+
+    it('should drop the oldest entries until they fit', () => {
+      const entries = [entry('a', 1), entry('b', 3), entry('c', 2)];
+      const maxSize = Buffer.byteLength(
+        JSON.stringify([entry('b', 3), entry('c', 2)]),
+      );
+      expect(
+        pruneEntries(entries, { ttl: 0, maxSize }, 4).map(({ key }) => key),
+      ).toEqual(['b', 'c']);
+    });
+  });
+
+  describe('createResponseCache', () => {
+    let dir: string;
+    let file: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-ai-cache-'));
+      file = path.join(dir, 'cache.json');
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should return stored answers and count hits and misses', () => {
+      const cache = createResponseCache(file);
+      expect(cache.get('k', LIMITS)).toBeUndefined();
+      cache.set(
+        { key: 'k', provider: 'openai', model: 'm', value: ['feat: a'] },
+        LIMITS,
+      );
+      expect(cache.get('k', LIMITS)).toEqual(['feat: a']);
+      expect(cache.stats()).toMatchObject({
+        path: file,
+        entries: 1,
+        hits: 1,
+        misses: 1,
+      });
+    });
+
+    it('should not rewrite the entries on lookup', () => {
+      const cache = createResponseCache(file);
+      cache.set(
+        { key: 'k', provider: 'openai', model: 'm', value: ['feat: a'] },
+        LIMITS,
+      );
+      const stored = fs.readFileSync(file, 'utf-8');
+      cache.get('k', LIMITS);
+      cache.get('other', LIMITS);
+      expect(fs.readFileSync(file, 'utf-8')).toBe(stored);
+      expect(cache.stats()).toMatchObject({ hits: 1, misses: 1 });
+    });
+
+    it('should not return answers older than the TTL', () => {
+      vi.useFakeTimers();
+      const cache = createResponseCache(file);
+      cache.set(
+        { key: 'k', provider: 'openai', model: 'm', value: ['feat: a'] },
+        LIMITS,
+      );
+      vi.advanceTimersByTime(LIMITS.ttl);
+      expect(cache.get('k', LIMITS)).toBeUndefined();
+    });
+
+    it('should clear every entry', () => {
+      const cache = createResponseCache(file);
+      cache.set(
+        { key: 'k', provider: 'openai', model: 'm', value: ['feat: a'] },
+        LIMITS,
+      );
+      cache.get('k', LIMITS);
+      expect(cache.clear()).toBe(1);
+      expect(fs.existsSync(file)).toBe(false);
+      expect(cache.stats()).toMatchObject({ entries: 0, hits: 0 });
+    });
+
+    it('should start over when the file is unreadable', () => {
+      fs.writeFileSync(file, 'not json');
+      const cache = createResponseCache(file);
+      expect(cache.get('k', LIMITS)).toBeUndefined();
+      expect(cache.stats().misses).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { getConfigDir } from './config.js';
+import { writePrivateFile } from './secrets.js';
+
+const CACHE_FILE = path.join(getConfigDir(), 'cache.json');
+
+// Bump when cached values stop being valid, e.g. a new message format
+const CACHE_VERSION = 1;
+
+/**
+ * A stored AI answer
+ */
+export interface CacheEntry {
+  key: string;
+  provider: string;
+  model: string;
+  /** Commit message candidates, in order */
+  value: string[];
+  /** When it was stored (ms since epoch) */
+  created: number;
+}
+
+interface CacheFile {
+  version: number;
+  entries: CacheEntry[];
+}
+
+// Kept apart so lookups do not rewrite the entries
+interface CacheCounters {
+  hits: number;
+  misses: number;
+}
+
+/**
+ * How long entries live and how large the file may grow
+ */
+export interface CacheLimits {
+  /** Milliseconds; 0 disables expiry */
+  ttl: number;
+  /** Bytes */
+  maxSize: number;
+}
+
+export interface CacheStats {
+  path: string;
+  entries: number;
+  size: number;
+  hits: number;
+  misses: number;
+  oldest?: number;
+  newest?: number;
+}
+
+export interface ResponseCache {
+  get(key: string, limits: CacheLimits): string[] | undefined;
+  set(entry: Omit<CacheEntry, 'created'>, limits: CacheLimits): void;
+  /** Remove every entry and return how many there were */
+  clear(): number;
+  stats(): CacheStats;
+}
+
+/**
+ * Parse a duration like "30m", "24h" or "7d" into milliseconds
+ */
+export function parseDuration(duration: string): number {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(s|m|h|d)?\s*$/i.exec(duration);
+  if (!match) {
+    throw new Error(`Invalid duration "${duration}". Use e.g. 30m, 24h or 7d.`);
+  }
+  const units: Record<string, number> = {
+    s: 1000,
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+  };
+  return Math.round(Number(match[1]) * units[(match[2] ?? 's').toLowerCase()]);
+}
+
+/**
+ * Cache key: a hash of everything that shapes the answer
+ */
+export function cacheKey(parts: Record<string, unknown>): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify({ version: CACHE_VERSION, ...parts }))
+    .digest('hex');
+}
+
+/**
+ * Drop expired entries, then the oldest ones until the file fits
+ */
+export function pruneEntries(
+  entries: CacheEntry[],
+  limits: CacheLimits,
+  now: number = Date.now(),
+): CacheEntry[] {
+  const live = entries
+    .filter((entry) => !limits.ttl || now - entry.created < limits.ttl)
+    .sort((a, b) => b.created - a.created);
+  let size = Buffer.byteLength(JSON.stringify(live));
+  while (live.length > 0 && size > limits.maxSize) {
+    size -= Buffer.byteLength(JSON.stringify(live.pop())) + 1;
+  }
+  return live;
+}
+
+/**
+ * AI answers stored in a JSON file, newest first. Hit and miss counts
+ * live in a small file next to it.
+ */
+export function createResponseCache(filePath: string): ResponseCache {
+  const countersPath = filePath.replace(/(\.json)?$/, '.stats.json');
+
+  const read = (): CacheFile => {
+    try {
+      const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      if (data?.version === CACHE_VERSION && Array.isArray(data.entries)) {
+        return { version: data.version, entries: data.entries };
+      }
+    } catch {
+      // Missing or unreadable: start over
+    }
+    return { version: CACHE_VERSION, entries: [] };
+  };
+
+  const readCounters = (): CacheCounters => {
+    try {
+      const { hits, misses } = JSON.parse(
+        fs.readFileSync(countersPath, 'utf-8'),
+      );
+      return { hits: Number(hits) || 0, misses: Number(misses) || 0 };
+    } catch {
+      return { hits: 0, misses: 0 };
+    }
+  };
+
+  const write = (file: string, data: unknown) => {
+    fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+    writePrivateFile(file, JSON.stringify(data));
+  };
+
+  return {
+    get(key, limits) {
+      const entry = pruneEntries(read().entries, limits).find(
+        (candidate) => candidate.key === key,
+      );
+      const counters = readCounters();
+      counters[entry ? 'hits' : 'misses']++;
+      write(countersPath, counters);
+      return entry?.value;
+    },
+
+    set(entry, limits) {
+      const file = read();
+      file.entries = pruneEntries(
+        [
+          { ...entry, created: Date.now() },
+          ...file.entries.filter((existing) => existing.key !== entry.key),
+        ],
+        limits,
+      );
+      write(filePath, file);
+    },
+
+    clear() {
+      const { entries } = read();
+      for (const file of [filePath, countersPath]) {
+        if (fs.existsSync(file)) {
+          fs.unlinkSync(file);
+        }
+      }
+      return entries.length;
+    },
+
+    stats() {
+      const { entries } = read();
+      const { hits, misses } = readCounters();
+      const created = entries.map((entry) => entry.created);
+      return {
+        path: filePath,
+        entries: entries.length,
+        size: fs.existsSync(filePath) ? fs.statSync(filePath).size : 0,
+        hits,
+        misses,
+        oldest: created.length > 0 ? Math.min(...created) : undefined,
+        newest: created.length > 0 ? Math.max(...created) : undefined,
+      };
+    },
+  };
+}
+
+/**
+ * The cache in the config directory
+ */
+export const responseCache = createResponseCache(CACHE_FILE);
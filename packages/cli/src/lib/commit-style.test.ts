@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkCommitMessage,
+  cleanMessage,
+  getCommitStyle,
+  type CommitStyleContext,
+} from './commit-style.js';
+import { DEFAULT_SETTINGS } from './settings.js';
+
+function context(
+  overrides: Partial<CommitStyleContext['settings']> = {},
+  ticket?: string,
+): CommitStyleContext {
+  return { settings: { ...DEFAULT_SETTINGS, ...overrides }, ticket };
+}
+
+describe('Commit Styles', () => {
+  it('should strip code fences, labels and quotes', () => {
+    expect(cleanMessage('```\nfeat: add x\n```')).toBe('feat: add x');
+    expect(cleanMessage('Commit message: fix: y')).toBe('fix: y');
+    expect(cleanMessage('"docs: z"')).toBe('docs: z');
+  });
+
+  it('should reject unknown styles', () => {
+    expect(() => getCommitStyle('emoji')).toThrow('Unknown commit style');
+  });
+
+  describe('conventional', () => {
+    const style = getCommitStyle('conventional');
+
+    it('should accept a valid header and body', () => {
+      const result = checkCommitMessage(
+        'feat(cli): add profiles\n\nLonger explanation.',
+        style,
+        context(),
+      );
+      expect(result.problems).toEqual([]);
+    });
+
+    it('should repair type case and spacing', () => {
+      const result = checkCommitMessage('Feat (cli) : add x', style, context());
+      expect(result).toEqual({ message: 'feat(cli): add x', problems: [] });
+    });
+
+    it('should report disallowed types and scopes', () => {
+      const result = checkCommitMessage(
+        'update(web): add x',
+        style,
+        context({ allowedScopes: ['cli'] }),
+      );
+      expect(result.problems).toHaveLength(2);
+    });
+
+    it('should report a missing type', () => {
+      const result = checkCommitMessage('Add profiles', style, context());
+      expect(result.problems[0]).toContain('type(scope): description');
+    });
+  });
+
+  describe('gitmoji', () => {
+    const style = getCommitStyle('gitmoji');
+
+    it('should accept emoji and :code: prefixes', () => {
+      expect(style.validate('✨ add profiles', context())).toEqual([]);
+      expect(style.validate(':bug: fix crash', context())).toEqual([]);
+    });
+
+    it('should map a conventional header to its gitmoji', () => {
+      const result = checkCommitMessage('fix: handle 429', style, context());
+      expect(result).toEqual({ message: '🐛 handle 429', problems: [] });
+    });
+  });
+
+  describe('jira', () => {
+    const style = getCommitStyle('jira');
+
+    it('should normalize the ticket prefix', () => {
+      const result = checkCommitMessage(
+        '[PROJ-12] add login',
+        style,
+        context({}, 'PROJ-12'),
+      );
+      expect(result).toEqual({ message: 'PROJ-12: add login', problems: [] });
+    });
+
+    it('should add the ticket when the model leaves it out', () => {
+      const result = checkCommitMessage(
+        'add login',
+        style,
+        context({}, 'PROJ-12'),
+      );
+      expect(result.message).toBe('PROJ-12: add login');
+    });
+
+    it('should check the project key', () => {
+      const problems = style.validate(
+        'WEB-1: add login',
+        context({ jiraProjects: ['PROJ'] }),
+      );
+      expect(problems[0]).toContain('Project "WEB"');
+    });
+  });
+
+  it('should accept any non-empty free-form message', () => {
+    const style = getCommitStyle('freeform');
+    expect(style.validate('Tidy things up', context())).toEqual([]);
+    expect(style.validate('', context())).toHaveLength(1);
+  });
+});
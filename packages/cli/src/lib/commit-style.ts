@@ -0,0 +1,264 @@
+import type { CommitStyle, ProjectSettings } from './project-config.js';
+
+// commitlint's default header limit
+const MAX_HEADER_LENGTH = 100;
+
+const CONVENTIONAL_HEADER = /^(\w+)(?:\(([^()]+)\))?(!)?: (\S.*)$/;
+const JIRA_TICKET = /^([A-Z][A-Z0-9]+)-\d+$/;
+
+/**
+ * Gitmojis suggested to the model, keyed by the matching commit type
+ */
+export const GITMOJIS: Record<string, { emoji: string; code: string }> = {
+  feat: { emoji: '✨', code: ':sparkles:' },
+  fix: { emoji: '🐛', code: ':bug:' },
+  docs: { emoji: '📝', code: ':memo:' },
+  style: { emoji: '🎨', code: ':art:' },
+  refactor: { emoji: '♻️', code: ':recycle:' },
+  perf: { emoji: '⚡️', code: ':zap:' },
+  test: { emoji: '✅', code: ':white_check_mark:' },
+  build: { emoji: '📦️', code: ':package:' },
+  ci: { emoji: '👷', code: ':construction_worker:' },
+  chore: { emoji: '🔧', code: ':wrench:' },
+  revert: { emoji: '⏪️', code: ':rewind:' },
+  deps: { emoji: '⬆️', code: ':arrow_up:' },
+  remove: { emoji: '🔥', code: ':fire:' },
+  security: { emoji: '🔒️', code: ':lock:' },
+};
+
+/**
+ * What a style needs to know besides the message itself
+ */
+export interface CommitStyleContext {
+  settings: Required<ProjectSettings>;
+  /** Ticket id for styles that reference one, e.g. PROJ-123 */
+  ticket?: string;
+}
+
+/**
+ * A commit message convention: prompt rules, a validator and a
+ * best-effort repair for common near misses
+ */
+export interface CommitStyleDefinition {
+  id: CommitStyle;
+  description: string;
+  /** Instructions added to the prompt */
+  rules(context: CommitStyleContext): string[];
+  /** Problems with the message (empty when valid) */
+  validate(message: string, context: CommitStyleContext): string[];
+  /** Fix what can be fixed without asking the model again */
+  repair(message: string, context: CommitStyleContext): string;
+}
+
+function splitMessage(message: string): { header: string; body: string } {
+  const [header, ...rest] = message.split('\n');
+  return { header: header.trim(), body: rest.join('\n').trim() };
+}
+
+function joinMessage(header: string, body: string): string {
+  return body ? `${header}\n\n${body}` : header;
+}
+
+/**
+ * Strip wrappers models like to add: code fences, quotes and labels
+ */
+export function cleanMessage(message: string): string {
+  let text = message.trim();
+  const fenced = /^```[\w-]*\n([\s\S]*?)\n?```$/.exec(text);
+  if (fenced) {
+    text = fenced[1].trim();
+  }
+  text = text.replace(/^(commit message|message)\s*:\s*/i, '');
+  if (/^(["'`]).*\1$/s.test(text)) {
+    text = text.slice(1, -1).trim();
+  }
+  return text;
+}
+
+function headerProblems(header: string): string[] {
+  const problems: string[] = [];
+  if (!header) {
+    problems.push('The message is empty.');
+  } else if (header.length > MAX_HEADER_LENGTH) {
+    problems.push(
+      `The first line is ${header.length} characters (max ${MAX_HEADER_LENGTH}).`,
+    );
+  }
+  return problems;
+}
+
+const conventionalStyle: CommitStyleDefinition = {
+  id: 'conventional',
+  description: 'Conventional Commits: type(scope): description',
+  rules: ({ settings }) => {
+    const rules = [
+      'Follow the Conventional Commits standard: <type>(<scope>): <description>.',
+      `Allowed types: ${settings.allowedTypes.join(', ')}.`,
+    ];
+    if (settings.allowedScopes.length > 0) {
+      rules.push(
+        `Allowed scopes (optional): ${settings.allowedScopes.join(', ')}.`,
+      );
+    }
+    return rules;
+  },
+  validate: (message, { settings }) => {
+    const { header } = splitMessage(message);
+    const problems = headerProblems(header);
+    const match = CONVENTIONAL_HEADER.exec(header);
+    if (!match) {
+      problems.push(
+        'The first line must look like "type(scope): description".',
+      );
+      return problems;
+    }
+    const [, type, scope] = match;
+    if (!settings.allowedTypes.includes(type)) {
+      problems.push(
+        `Type "${type}" is not allowed (use ${settings.allowedTypes.join(', ')}).`,
+      );
+    }
+    if (
+      scope &&
+      settings.allowedScopes.length > 0 &&
+      !settings.allowedScopes.includes(scope)
+    ) {
+      problems.push(
+        `Scope "${scope}" is not allowed (use ${settings.allowedScopes.join(', ')}).`,
+      );
+    }
+    return problems;
+  },
+  repair: (message) => {
+    const { header, body } = splitMessage(message);
+    // "Feat (cli) : add x" -> "feat(cli): add x"
+    const fixed = header.replace(
+      /^(\w+)\s*(\([^()]+\))?\s*(!)?\s*:\s*/,
+      (_, type: string, scope = '', bang = '') =>
+        `${type.toLowerCase()}${scope.replace(/\s+/g, '')}${bang}: `,
+    );
+    return joinMessage(fixed, body);
+  },
+};
+
+const gitmojiStyle: CommitStyleDefinition = {
+  id: 'gitmoji',
+  description: 'gitmoji: emoji followed by a summary',
+  rules: () => [
+    'Start the first line with one gitmoji and a space, then a short summary.',
+    `Use e.g. ${Object.entries(GITMOJIS)
+      .map(([type, { emoji }]) => `${emoji} ${type}`)
+      .join(', ')}.`,
+  ],
+  validate: (message) => {
+    const { header } = splitMessage(message);
+    const problems = headerProblems(header);
+    if (header && !startsWithGitmoji(header)) {
+      problems.push('The first line must start with a gitmoji.');
+    }
+    return problems;
+  },
+  repair: (message) => {
+    const { header, body } = splitMessage(message);
+    if (startsWithGitmoji(header)) {
+      return message;
+    }
+    // A conventional header maps onto the matching gitmoji
+    const match = CONVENTIONAL_HEADER.exec(header);
+    const gitmoji = match && GITMOJIS[match[1].toLowerCase()];
+    return gitmoji
+      ? joinMessage(`${gitmoji.emoji} ${match[4]}`, body)
+      : message;
+  },
+};
+
+function startsWithGitmoji(header: string): boolean {
+  return (
+    /^:[a-z0-9_+-]+: \S/.test(header) ||
+    /^\p{Extended_Pictographic}/u.test(header)
+  );
+}
+
+const jiraStyle: CommitStyleDefinition = {
+  id: 'jira',
+  description: 'Jira: PROJ-123: summary',
+  rules: ({ ticket }) => [
+    `Format the first line as "${ticket ?? 'PROJ-123'}: <summary>".`,
+  ],
+  validate: (message, { settings, ticket }) => {
+    const { header } = splitMessage(message);
+    const problems = headerProblems(header);
+    const match = /^([A-Z][A-Z0-9]+-\d+): \S/.exec(header);
+    if (!match) {
+      problems.push('The first line must look like "PROJ-123: summary".');
+      return problems;
+    }
+    if (ticket && match[1] !== ticket) {
+      problems.push(`The ticket should be ${ticket}, not ${match[1]}.`);
+    }
+    const project = JIRA_TICKET.exec(match[1])?.[1];
+    if (
+      project &&
+      settings.jiraProjects.length > 0 &&
+      !settings.jiraProjects.includes(project)
+    ) {
+      problems.push(
+        `Project "${project}" is not allowed (use ${settings.jiraProjects.join(', ')}).`,
+      );
+    }
+    return problems;
+  },
+  repair: (message, { ticket }) => {
+    const { header, body } = splitMessage(message);
+    // "[PROJ-1] x", "PROJ-1 - x" and "PROJ-1 x" -> "PROJ-1: x"
+    const normalized = header.replace(
+      /^\[?([A-Z][A-Z0-9]+-\d+)\]?\s*[:-]?\s+/,
+      '$1: ',
+    );
+    if (!ticket || normalized.startsWith(`${ticket}: `)) {
+      return joinMessage(normalized, body);
+    }
+    const summary = normalized.replace(/^[A-Z][A-Z0-9]+-\d+: /, '');
+    return joinMessage(`${ticket}: ${summary}`, body);
+  },
+};
+
+const freeformStyle: CommitStyleDefinition = {
+  id: 'freeform',
+  description: 'Free-form message',
+  rules: () => [],
+  validate: (message) => headerProblems(splitMessage(message).header),
+  repair: (message) => message,
+};
+
+export const COMMIT_STYLES: CommitStyleDefinition[] = [
+  conventionalStyle,
+  gitmojiStyle,
+  jiraStyle,
+  freeformStyle,
+];
+
+/**
+ * Look up a commit style by id
+ */
+export function getCommitStyle(id: string): CommitStyleDefinition {
+  const style = COMMIT_STYLES.find((candidate) => candidate.id === id);
+  if (!style) {
+    throw new Error(
+      `Unknown commit style "${id}". Use one of: ${COMMIT_STYLES.map((s) => s.id).join(', ')}`,
+    );
+  }
+  return style;
+}
+
+/**
+ * Clean and repair a message, returning it with any remaining problems
+ */
+export function checkCommitMessage(
+  message: string,
+  style: CommitStyleDefinition,
+  context: CommitStyleContext,
+): { message: string; problems: string[] } {
+  const repaired = style.repair(cleanMessage(message), context);
+  return { message: repaired, problems: style.validate(repaired, context) };
+}
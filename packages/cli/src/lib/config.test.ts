@@ -1,4 +1,5 @@
 import { describe, expect, it } from 'vitest';
+import { resolveCredentials } from './config.js';
 
 // Simple unit tests that don't require mocking complex modules
 
@@ -38,3 +39,33 @@ describe('Config Interface', () => {
     expect(partialConfig.apiKey).toBeUndefined();
   });
 });
+
+describe('Environment Credentials', () => {
+  it('should read provider and key from GIT_AI_* variables', async () => {
+    const credentials = await resolveCredentials({
+      GIT_AI_PROVIDER: 'anthropic',
+      GIT_AI_API_KEY: 'env-key',
+    });
+    expect(credentials).toEqual({
+      provider: 'anthropic',
+      providerSource: 'env GIT_AI_PROVIDER',
+      apiKey: 'env-key',
+      apiKeySource: 'env GIT_AI_API_KEY',
+    });
+  });
+
+  it('should use the provider key variable', async () => {
+    const credentials = await resolveCredentials({
+      GIT_AI_PROVIDER: 'openai',
+      OPENAI_API_KEY: 'sk-test',
+    });
+    expect(credentials.apiKey).toBe('sk-test');
+    expect(credentials.apiKeySource).toBe('env OPENAI_API_KEY');
+  });
+
+  it('should reject unknown providers', async () => {
+    await expect(
+      resolveCredentials({ GIT_AI_PROVIDER: 'nope' }),
+    ).rejects.toThrow('Unknown AI provider in GIT_AI_PROVIDER');
+  });
+});
@@ -1,24 +1,77 @@
 import fs from 'fs';
 import os from 'os';
 import path from 'path';
+import type { ProjectSettings } from './project-config.js';
+import {
+  findProvider,
+  hasProvider,
+  listProviders,
+} from './providers/registry.js';
+import type {
+  EndpointSettings,
+  GenerationSettings,
+} from './providers/types.js';
+import {
+  createEncryptedFileStore,
+  keychainStore,
+  writePrivateFile,
+  type SecretBackend,
+  type SecretStore,
+} from './secrets.js';
 
 const CONFIG_DIR = path.join(os.homedir(), '.my-cli');
 const CONFIG_FILE = path.join(CONFIG_DIR, 'config.json');
+const SECRETS_FILE = path.join(CONFIG_DIR, 'secrets.enc');
 
-export type AiProvider = 'gemini' | 'openai' | 'anthropic' | 'github';
+const encryptedStore = createEncryptedFileStore(SECRETS_FILE);
 
-export interface Config {
+export type BuiltinAiProvider =
+  | 'gemini'
+  | 'openai'
+  | 'anthropic'
+  | 'github'
+  | 'custom';
+
+// Any registered provider id; built-ins are listed for editor completion
+export type AiProvider = BuiltinAiProvider | (string & {});
+
+/**
+ * Provider, key and model settings.
+ * The top level of the config file is the default profile.
+ */
+export interface ProfileConfig {
   aiProvider?: AiProvider;
+  // Only used with the plaintext secret storage
   apiKey?: string;
+  // Where API keys are kept (keys are stored per profile and provider id)
+  secretStorage?: SecretBackend;
   setupComplete?: boolean;
+  // Base URL, model and auth header for the custom endpoint provider
+  endpoint?: EndpointSettings;
+  // Model and generation parameters, keyed by provider id
+  providers?: Record<string, GenerationSettings>;
+}
+
+// Project settings may also be set globally (see settings.ts)
+export interface Config extends ProjectSettings, ProfileConfig {
+  // Named profiles besides the default one
+  profiles?: Record<string, ProfileConfig>;
+  activeProfile?: string;
+  // Directory trees bound to a profile, keyed by absolute path
+  profileBindings?: Record<string, string>;
+  // Module paths of provider plugins to register on startup
+  plugins?: string[];
 }
 
+export const DEFAULT_PROFILE = 'default';
+export const PROFILE_ENV_VAR = 'GIT_AI_PROFILE';
+
 /**
  * Ensure config directory exists
  */
 function ensureConfigDir(): void {
   if (!fs.existsSync(CONFIG_DIR)) {
-    fs.mkdirSync(CONFIG_DIR, { recursive: true });
+    fs.mkdirSync(CONFIG_DIR, { recursive: true, mode: 0o700 });
   }
 }
 
@@ -28,6 +81,13 @@ function ensureConfigDir(): void {
 export function getConfig(): Config {
   try {
     if (fs.existsSync(CONFIG_FILE)) {
+      // Tighten permissions of config files written by older versions
+      if (
+        process.platform !== 'win32' &&
+        (fs.statSync(CONFIG_FILE).mode & 0o077) !== 0
+      ) {
+        fs.chmodSync(CONFIG_FILE, 0o600);
+      }
       const data = fs.readFileSync(CONFIG_FILE, 'utf-8');
       return JSON.parse(data);
     }
@@ -42,42 +102,457 @@ export function getConfig(): Config {
  */
 export function saveConfig(config: Config): void {
   ensureConfigDir();
-  fs.writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2));
+  writePrivateFile(CONFIG_FILE, JSON.stringify(config, null, 2));
 }
 
 /**
- * Get the stored API key
+ * Get the secret store for a backend (undefined for plaintext)
  */
-export function getApiKey(): string | undefined {
-  return getConfig().apiKey;
+export function getSecretStore(
+  backend: SecretBackend,
+): SecretStore | undefined {
+  switch (backend) {
+    case 'keychain':
+      return keychainStore;
+    case 'encrypted':
+      return encryptedStore;
+    default:
+      return undefined;
+  }
 }
 
+// Profile selected with --profile for this run
+let profileOverride: string | undefined;
+
 /**
- * Get the stored AI provider
+ * Select a profile for this run (the --profile flag)
  */
-export function getAiProvider(): AiProvider | undefined {
-  return getConfig().aiProvider;
+export function setProfileOverride(name: string | undefined): void {
+  profileOverride = name;
 }
 
 /**
- * Set the API key and provider
+ * Check if a profile exists
  */
-export function setApiKey(provider: AiProvider, apiKey: string): void {
+export function hasProfile(
+  name: string,
+  config: Config = getConfig(),
+): boolean {
+  return name === DEFAULT_PROFILE || !!config.profiles?.[name];
+}
+
+/**
+ * Find the profile bound to a directory or its closest bound parent
+ */
+export function findBoundProfile(
+  config: Config,
+  cwd: string,
+): { profile: string; dir: string } | undefined {
+  const dir = path.resolve(cwd);
+  const matches = Object.entries(config.profileBindings ?? {})
+    .filter(
+      ([boundDir]) => dir === boundDir || dir.startsWith(boundDir + path.sep),
+    )
+    .sort(([a], [b]) => b.length - a.length);
+  return matches.length > 0
+    ? { dir: matches[0][0], profile: matches[0][1] }
+    : undefined;
+}
+
+/**
+ * Resolve the active profile: --profile, then GIT_AI_PROFILE, then a
+ * directory binding, then the profile chosen with `git-ai profile use`
+ */
+export function resolveActiveProfile(
+  env: NodeJS.ProcessEnv = process.env,
+  cwd: string = process.cwd(),
+): { name: string; source: string } {
   const config = getConfig();
-  config.aiProvider = provider;
-  config.apiKey = apiKey;
-  config.setupComplete = true;
+  const binding = findBoundProfile(config, cwd);
+  const candidates: { name?: string; source: string }[] = [
+    { name: profileOverride, source: '--profile' },
+    { name: env[PROFILE_ENV_VAR], source: `env ${PROFILE_ENV_VAR}` },
+    { name: binding?.profile, source: `directory ${binding?.dir}` },
+    { name: config.activeProfile, source: CONFIG_FILE },
+  ];
+
+  for (const { name, source } of candidates) {
+    if (!name) {
+      continue;
+    }
+    if (!hasProfile(name, config)) {
+      throw new Error(`Unknown profile "${name}" (from ${source})`);
+    }
+    return { name, source };
+  }
+  return { name: DEFAULT_PROFILE, source: 'default' };
+}
+
+/**
+ * Get the name of the active profile
+ */
+export function getActiveProfile(): string {
+  return resolveActiveProfile().name;
+}
+
+/**
+ * Get the settings of a profile (the active one by default)
+ */
+export function getProfileConfig(
+  name: string = getActiveProfile(),
+  config: Config = getConfig(),
+): ProfileConfig {
+  return name === DEFAULT_PROFILE ? config : (config.profiles?.[name] ?? {});
+}
+
+/**
+ * Update the settings of a profile (the active one by default) and save
+ */
+export function updateProfileConfig(
+  update: (profile: ProfileConfig) => void,
+  name: string = getActiveProfile(),
+): void {
+  const config = getConfig();
+  if (name === DEFAULT_PROFILE) {
+    update(config);
+  } else {
+    const profile = config.profiles?.[name] ?? {};
+    update(profile);
+    config.profiles = { ...config.profiles, [name]: profile };
+  }
   saveConfig(config);
 }
 
 /**
- * Check if setup is complete
+ * Get the secret store account for a provider in a profile
+ */
+export function secretAccount(
+  provider: AiProvider,
+  profile: string = getActiveProfile(),
+): string {
+  return profile === DEFAULT_PROFILE ? provider : `${profile}:${provider}`;
+}
+
+/**
+ * Get the backend for new keys: the configured one, otherwise the
+ * Secret Service when available, otherwise the encrypted file
+ */
+export function getPreferredSecretBackend(): SecretBackend {
+  const configured =
+    getProfileConfig().secretStorage ?? getConfig().secretStorage;
+  if (configured) {
+    return configured;
+  }
+  return keychainStore.isAvailable() ? 'keychain' : 'encrypted';
+}
+
+/**
+ * Get the backend holding the stored key (config files without
+ * secretStorage keep their key in plaintext)
+ */
+function getStoredSecretBackend(profile: ProfileConfig): SecretBackend {
+  return profile.secretStorage ?? 'plaintext';
+}
+
+// Environment variables that override the stored provider and key
+export const PROVIDER_ENV_VAR = 'GIT_AI_PROVIDER';
+export const API_KEY_ENV_VAR = 'GIT_AI_API_KEY';
+export const MODEL_ENV_VAR = 'GIT_AI_MODEL';
+
+export interface Credentials {
+  provider?: AiProvider;
+  apiKey?: string;
+  // Where each value came from (an env var name, file or secret store)
+  providerSource?: string;
+  apiKeySource?: string;
+}
+
+/**
+ * Resolve the AI provider.
+ * GIT_AI_PROVIDER wins, then the stored provider, then the first provider
+ * with a key in its env vars (e.g. OPENAI_API_KEY).
+ */
+export function resolveProvider(
+  env: NodeJS.ProcessEnv = process.env,
+): Pick<Credentials, 'provider' | 'providerSource'> {
+  const profile = getActiveProfile();
+  const config = getProfileConfig(profile);
+
+  const envProvider = env[PROVIDER_ENV_VAR];
+  if (envProvider) {
+    if (!hasProvider(envProvider)) {
+      throw new Error(
+        `Unknown AI provider in ${PROVIDER_ENV_VAR}: ${envProvider}`,
+      );
+    }
+    return { provider: envProvider, providerSource: `env ${PROVIDER_ENV_VAR}` };
+  }
+  if (hasProvider(config.aiProvider)) {
+    return {
+      provider: config.aiProvider,
+      providerSource:
+        profile === DEFAULT_PROFILE
+          ? CONFIG_FILE
+          : `${CONFIG_FILE} (profile ${profile})`,
+    };
+  }
+  for (const provider of listProviders()) {
+    const keyVar = provider.envKeys?.find((key) => env[key]);
+    if (keyVar) {
+      return { provider: provider.id, providerSource: `env ${keyVar}` };
+    }
+  }
+  return {};
+}
+
+/**
+ * Find where the API key for a provider lives without reading it.
+ * GIT_AI_API_KEY or the provider's own variable win over the stored key.
+ */
+export function locateApiKey(
+  provider: AiProvider,
+  env: NodeJS.ProcessEnv = process.env,
+): { source: string; envVar?: string } | undefined {
+  const keyVars = [API_KEY_ENV_VAR, ...(findProvider(provider)?.envKeys ?? [])];
+  const envVar = keyVars.find((key) => env[key]);
+  if (envVar) {
+    return { source: `env ${envVar}`, envVar };
+  }
+
+  const config = getProfileConfig();
+  const store = getSecretStore(getStoredSecretBackend(config));
+  if (store) {
+    return store.has(secretAccount(provider))
+      ? { source: store.description }
+      : undefined;
+  }
+  if (config.aiProvider === provider && config.apiKey) {
+    return { source: CONFIG_FILE };
+  }
+  return undefined;
+}
+
+/**
+ * Read the stored API key for a provider (ignores the environment)
+ */
+async function readStoredApiKey(
+  provider: AiProvider,
+): Promise<string | undefined> {
+  const config = getProfileConfig();
+  const store = getSecretStore(getStoredSecretBackend(config));
+  if (store) {
+    return store.get(secretAccount(provider));
+  }
+  return config.aiProvider === provider ? config.apiKey : undefined;
+}
+
+/**
+ * Resolve the AI provider and read its API key
+ */
+export async function resolveCredentials(
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<Credentials> {
+  const credentials: Credentials = resolveProvider(env);
+  if (!credentials.provider) {
+    return credentials;
+  }
+
+  const location = locateApiKey(credentials.provider, env);
+  if (location) {
+    credentials.apiKey = location.envVar
+      ? env[location.envVar]
+      : await readStoredApiKey(credentials.provider);
+    credentials.apiKeySource = location.source;
+  } else if (findProvider(credentials.provider)?.requiresApiKey === false) {
+    credentials.apiKey = '';
+  }
+  return credentials;
+}
+
+/**
+ * Get the API key (environment first, then the secret store)
+ */
+export async function getApiKey(): Promise<string | undefined> {
+  return (await resolveCredentials()).apiKey;
+}
+
+/**
+ * Read the API key of a fallback provider: its own env vars, then the
+ * secret store. GIT_AI_API_KEY belongs to the main provider only.
+ */
+export async function getFallbackApiKey(
+  provider: AiProvider,
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<string | undefined> {
+  const definition = findProvider(provider);
+  const envVar = definition?.envKeys?.find((key) => env[key]);
+  if (envVar) {
+    return env[envVar];
+  }
+  const stored = await readStoredApiKey(provider);
+  if (stored) {
+    return stored;
+  }
+  return definition?.requiresApiKey === false ? '' : undefined;
+}
+
+/**
+ * Get the AI provider (environment first, then the stored provider)
+ */
+export function getAiProvider(): AiProvider | undefined {
+  return resolveProvider().provider;
+}
+
+/**
+ * Get the configured provider plugin modules
+ */
+export function getProviderPlugins(): string[] {
+  return getConfig().plugins ?? [];
+}
+
+/**
+ * Set the API key and provider, keeping the key in the secret store
+ */
+export async function setApiKey(
+  provider: AiProvider,
+  apiKey: string,
+  backend: SecretBackend = getPreferredSecretBackend(),
+): Promise<void> {
+  const store = getSecretStore(backend);
+  const account = secretAccount(provider);
+
+  if (store) {
+    ensureConfigDir();
+    try {
+      if (apiKey) {
+        await store.set(account, apiKey);
+      } else {
+        await store.delete(account);
+      }
+    } catch (error) {
+      throw new Error(
+        `Could not save the API key to ${store.description}: ${error instanceof Error ? error.message : error}` +
+          (backend === 'keychain'
+            ? '\nTry: git-ai config --storage encrypted'
+            : ''),
+      );
+    }
+  }
+
+  updateProfileConfig((profile) => {
+    if (store) {
+      delete profile.apiKey;
+    } else {
+      profile.apiKey = apiKey;
+    }
+    profile.aiProvider = provider;
+    profile.secretStorage = backend;
+    profile.setupComplete = true;
+  });
+}
+
+/**
+ * Move the stored API key to another secret backend
+ */
+export async function changeSecretStorage(
+  backend: SecretBackend,
+): Promise<void> {
+  const config = getProfileConfig();
+  const previous = getSecretStore(getStoredSecretBackend(config));
+  const provider = config.aiProvider;
+
+  if (!provider) {
+    updateProfileConfig((profile) => {
+      profile.secretStorage = backend;
+    });
+    return;
+  }
+
+  const apiKey = (await readStoredApiKey(provider)) ?? '';
+  await setApiKey(provider, apiKey, backend);
+  if (previous && previous !== getSecretStore(backend)) {
+    await previous.delete(secretAccount(provider));
+  }
+}
+
+/**
+ * Get the custom endpoint settings (GIT_AI_BASE_URL, GIT_AI_MODEL and
+ * GIT_AI_AUTH_HEADER override the stored values)
+ */
+export function getEndpoint(
+  env: NodeJS.ProcessEnv = process.env,
+): EndpointSettings | undefined {
+  const endpoint = getProfileConfig().endpoint;
+  const baseUrl = env.GIT_AI_BASE_URL || endpoint?.baseUrl;
+  if (!baseUrl) {
+    return endpoint;
+  }
+  return {
+    baseUrl,
+    model: env[MODEL_ENV_VAR] || endpoint?.model || '',
+    authHeader: env.GIT_AI_AUTH_HEADER || endpoint?.authHeader,
+  };
+}
+
+/**
+ * Set the custom endpoint settings
+ */
+export function setEndpoint(endpoint: EndpointSettings): void {
+  updateProfileConfig((profile) => {
+    profile.endpoint = endpoint;
+  });
+}
+
+/**
+ * Get the model and generation parameters for a provider
+ */
+export function getGenerationSettings(
+  provider: AiProvider,
+): GenerationSettings {
+  return getProfileConfig().providers?.[provider] ?? {};
+}
+
+/**
+ * Set the model and generation parameters for a provider
+ */
+export function setGenerationSettings(
+  provider: AiProvider,
+  settings: GenerationSettings,
+): void {
+  updateProfileConfig((profile) => {
+    profile.providers = { ...profile.providers, [provider]: settings };
+  });
+}
+
+/**
+ * Check if setup is complete (a provider and key are stored or come from
+ * the environment)
  */
 export function isSetupComplete(): boolean {
-  const config = getConfig();
-  return (
-    config.setupComplete === true && !!config.apiKey && !!config.aiProvider
-  );
+  const { provider } = resolveProvider();
+  if (!provider) {
+    return false;
+  }
+  const definition = findProvider(provider);
+  // Nothing to set up for providers without a key or endpoint
+  if (definition?.requiresApiKey === false && !definition.usesEndpoint) {
+    return true;
+  }
+  const location = locateApiKey(provider);
+  if (!location?.envVar && getProfileConfig().setupComplete !== true) {
+    return false;
+  }
+  if (definition?.usesEndpoint && !getEndpoint()?.baseUrl) {
+    return false;
+  }
+  return !!location || definition?.requiresApiKey === false;
+}
+
+/**
+ * Get the directory holding the config, secrets and cache
+ */
+export function getConfigDir(): string {
+  return CONFIG_DIR;
 }
 
 /**
@@ -88,16 +563,54 @@ export function getConfigPath(): string {
 }
 
 /**
- * Clear all configuration (delete config file)
+ * Whether a secret store account belongs to a profile (see secretAccount)
+ */
+export function isProfileAccount(account: string, profile: string): boolean {
+  return profile === DEFAULT_PROFILE
+    ? !account.includes(':')
+    : account.startsWith(`${profile}:`);
+}
+
+/**
+ * Delete every stored API key of a profile: the ones of earlier and
+ * fallback providers too, from each secret store that has them
+ */
+export async function deleteStoredApiKeys(name: string): Promise<boolean> {
+  let deleted = false;
+  for (const store of [keychainStore, encryptedStore]) {
+    if (!store.isAvailable()) {
+      continue;
+    }
+    for (const account of await store.accounts()) {
+      if (isProfileAccount(account, name)) {
+        deleted = (await store.delete(account)) || deleted;
+      }
+    }
+  }
+  return deleted;
+}
+
+/**
+ * Clear all configuration (delete config file and stored keys)
  */
-export function clearConfig(): boolean {
+export async function clearConfig(): Promise<boolean> {
+  let cleared = false;
   try {
+    const config = getConfig();
+    const profiles = [DEFAULT_PROFILE, ...Object.keys(config.profiles ?? {})];
+    for (const name of profiles) {
+      cleared = (await deleteStoredApiKeys(name)) || cleared;
+    }
+    if (fs.existsSync(SECRETS_FILE)) {
+      fs.unlinkSync(SECRETS_FILE);
+      cleared = true;
+    }
     if (fs.existsSync(CONFIG_FILE)) {
       fs.unlinkSync(CONFIG_FILE);
-      return true;
+      cleared = true;
     }
-    return false;
+    return cleared;
   } catch {
-    return false;
+    return cleared;
   }
 }
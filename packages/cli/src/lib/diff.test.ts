@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import {
+  condenseDiff,
+  estimateTokens,
+  fileImportance,
+  formatStat,
+  groupDiff,
+  isNoiseFile,
+  parseDiff,
+} from './diff.js';
+
+function fileDiff(file: string, lines: string[], header: string[] = []) {
+  return [
+    `diff --git a/${file} b/${file}`,
+    ...header,
+    'index 1111111..2222222 100644',
+    `--- a/${file}`,
+    `+++ b/${file}`,
+    `@@ -1,${lines.length} +1,${lines.length} @@`,
+    ...lines,
+  ].join('\n');
+}
+
+describe('Diff Module', () => {
+  describe('parseDiff', () => {
+    it('should split a diff into files with hunks and counts', () => {
+      const diff = [
+        fileDiff('src/a.ts', ['-old', '+new', ' same']),
+        fileDiff('src/b.ts', ['+added']),
+      ].join('\n');
+
+      const files = parseDiff(diff);
+      expect(files.map((file) => file.path)).toEqual(['src/a.ts', 'src/b.ts']);
+      expect(files[0].hunks).toHaveLength(1);
+      expect(files[0].additions).toBe(1);
+      expect(files[0].deletions).toBe(1);
+    });
+
+    it('should detect new, deleted, renamed and binary files', () => {
+      const diff = [
+        'diff --git a/new.ts b/new.ts',
+        'new file mode 100644',
+        'diff --git a/gone.ts b/gone.ts',
+        'deleted file mode 100644',
+        'diff --git a/old.ts b/moved.ts',
+        'similarity index 100%',
+        'rename from old.ts',
+        'rename to moved.ts',
+        'diff --git a/logo.png b/logo.png',
+        'Binary files a/logo.png and b/logo.png differ',
+      ].join('\n');
+
+      const files = parseDiff(diff);
+      expect(files.map((file) => file.change)).toEqual([
+        'added',
+        'deleted',
+        'renamed',
+        'modified',
+      ]);
+      expect(files[2]).toMatchObject({ path: 'moved.ts', oldPath: 'old.ts' });
+      expect(files[3].binary).toBe(true);
+    });
+  });
+
+  describe('file classification', () => {
+    it('should treat lockfiles, generated files and binaries as noise', () => {
+      const [lock, dist, source] = parseDiff(
+        [
+          fileDiff('pnpm-lock.yaml', ['+x']),
+          fileDiff('dist/index.js', ['+x']),
+          fileDiff('src/index.ts', ['+x']),
+        ].join('\n'),
+      );
+      expect(isNoiseFile(lock)).toBe(true);
+      expect(isNoiseFile(dist)).toBe(true);
+      expect(isNoiseFile(source)).toBe(false);
+    });
+
+    it('should rank source above tests and docs', () => {
+      const [source, test, docs] = parseDiff(
+        [
+          fileDiff('src/git.ts', ['+x']),
+          fileDiff('src/git.test.ts', ['+x']),
+          fileDiff('README.md', ['+x']),
+        ].join('\n'),
+      );
+      expect(fileImportance(source)).toBeGreaterThan(fileImportance(test));
+      expect(fileImportance(source)).toBeGreaterThan(fileImportance(docs));
+    });
+  });
+
+  describe('condenseDiff', () => {
+    it('should always include the stat and file names', () => {
+      const diff = fileDiff('src/a.ts', ['+new']);
+      const condensed = condenseDiff(diff, 2000);
+      expect(condensed).toContain('Changed files:');
+      expect(condensed).toContain(' src/a.ts | +1 -0');
+      expect(condensed).toContain('+new');
+    });
+
+    it('should list but not include lockfile content', () => {
+      const diff = [
+        fileDiff('src/a.ts', ['+new']),
+        fileDiff('package-lock.json', ['+"lockfileVersion": 3']),
+      ].join('\n');
+      const condensed = condenseDiff(diff, 2000);
+      expect(condensed).toContain('package-lock.json | +1 -0');
+      expect(condensed).toContain('Not shown');
+      expect(condensed).not.toContain('lockfileVersion');
+    });
+
+    it('should share the budget so every file is represented', () => {
+      const big = Array.from({ length: 500 }, (_, i) => `+line ${i}`);
+      const diff = [
+        fileDiff('src/big.ts', big),
+        fileDiff('src/small.ts', ['+tiny change']),
+      ].join('\n');
+
+      const condensed = condenseDiff(diff, 600);
+      expect(estimateTokens(condensed)).toBeLessThanOrEqual(600);
+      expect(condensed).toContain('+tiny change');
+      expect(condensed).toContain('more lines of src/big.ts omitted');
+    });
+  });
+
+  it('should summarize totals like git diff --stat', () => {
+    const files = parseDiff(fileDiff('a.ts', ['-a', '+b', '+c']));
+    expect(formatStat(files)).toContain(
+      '1 file changed, 2 insertions(+), 1 deletions(-)',
+    );
+  });
+
+  describe('groupDiff', () => {
+    it('should pack files into chunks that fit the budget', () => {
+      const lines = Array.from({ length: 40 }, (_, i) => `+line ${i}`);
+      const diff = [
+        fileDiff('packages/a/src/one.ts', lines),
+        fileDiff('packages/a/src/two.ts', lines),
+        fileDiff('packages/b/index.ts', lines),
+        fileDiff('yarn.lock', lines),
+      ].join('\n');
+
+      const chunks = groupDiff(diff, 250);
+      expect(chunks.length).toBeGreaterThan(1);
+      for (const chunk of chunks) {
+        expect(estimateTokens(chunk.diff)).toBeLessThanOrEqual(250);
+      }
+      expect(chunks.flatMap((chunk) => chunk.files.map((f) => f.path))).toEqual(
+        [
+          'packages/a/src/one.ts',
+          'packages/a/src/two.ts',
+          'packages/b/index.ts',
+        ],
+      );
+      expect(chunks[0].label).toBe('packages/a/src');
+    });
+  });
+});
@@ -0,0 +1,379 @@
+import path from 'path';
+
+/** Rough characters-per-token ratio used to estimate prompt size */
+const CHARS_PER_TOKEN = 4;
+
+/** Token budget used when neither the provider nor config sets one */
+export const DEFAULT_DIFF_TOKENS = 2000;
+
+const LOCKFILES = new Set([
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+  'pnpm-lock.yaml',
+  'yarn.lock',
+  'bun.lockb',
+  'Cargo.lock',
+  'Gemfile.lock',
+  'composer.lock',
+  'poetry.lock',
+  'Pipfile.lock',
+  'go.sum',
+]);
+
+const GENERATED_PATTERNS = [
+  /\.min\.(js|css)$/,
+  /\.map$/,
+  /\.snap$/,
+  /\.generated\.\w+$/,
+  /(^|\/)(dist|build|out|coverage|__generated__)\//,
+];
+
+const LOW_PRIORITY_PATTERNS = [
+  /\.(test|spec)\.\w+$/,
+  /(^|\/)(__tests__|tests?|docs?)\//,
+  /\.(md|mdx|txt|rst)$/,
+  /\.(json|ya?ml|toml|ini|lock)$/,
+  /(^|\/)\.[^/]+$/,
+];
+
+export type FileChange = 'added' | 'deleted' | 'renamed' | 'modified';
+
+/**
+ * One file section of a unified diff
+ */
+export interface FileDiff {
+  path: string;
+  oldPath?: string;
+  change: FileChange;
+  binary: boolean;
+  /** Lines before the first hunk (diff --git, index, ---/+++, modes) */
+  header: string[];
+  /** Hunks, each starting with its @@ line */
+  hunks: string[][];
+  additions: number;
+  deletions: number;
+}
+
+/**
+ * A group of files summarized together in map-reduce generation
+ */
+export interface DiffChunk {
+  /** The file path, or the common directory of several files */
+  label: string;
+  files: FileDiff[];
+  /** The files' diffs, condensed to the budget */
+  diff: string;
+}
+
+/**
+ * Estimate the number of tokens in a piece of text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Parse the output of `git diff` into per-file hunks
+ */
+export function parseDiff(diff: string): FileDiff[] {
+  const files: FileDiff[] = [];
+  let current: FileDiff | undefined;
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      const match = /^diff --git a\/(.+) b\/(.+)$/.exec(line);
+      current = {
+        path: match?.[2] ?? line.slice('diff --git '.length),
+        change: 'modified',
+        binary: false,
+        header: [line],
+        hunks: [],
+        additions: 0,
+        deletions: 0,
+      };
+      files.push(current);
+      continue;
+    }
+    if (!current) {
+      continue;
+    }
+
+    if (line.startsWith('@@')) {
+      current.hunks.push([line]);
+      continue;
+    }
+    const hunk = current.hunks[current.hunks.length - 1];
+    if (hunk) {
+      hunk.push(line);
+      if (line.startsWith('+')) current.additions++;
+      else if (line.startsWith('-')) current.deletions++;
+      continue;
+    }
+
+    current.header.push(line);
+    if (line.startsWith('new file mode')) {
+      current.change = 'added';
+    } else if (line.startsWith('deleted file mode')) {
+      current.change = 'deleted';
+    } else if (line.startsWith('rename from ')) {
+      current.change = 'renamed';
+      current.oldPath = line.slice('rename from '.length);
+    } else if (line.startsWith('rename to ')) {
+      current.path = line.slice('rename to '.length);
+    } else if (line.startsWith('+++ b/')) {
+      current.path = line.slice('+++ b/'.length);
+    } else if (
+      line.startsWith('Binary files ') ||
+      line.startsWith('GIT binary patch')
+    ) {
+      current.binary = true;
+    }
+  }
+
+  // Drop the trailing empty line left by a final newline
+  for (const file of files) {
+    const last = file.hunks[file.hunks.length - 1];
+    if (last && last[last.length - 1] === '') {
+      last.pop();
+    }
+  }
+  return files;
+}
+
+/**
+ * Whether a file's content is noise for a commit message
+ * (lockfiles, generated output and binaries)
+ */
+export function isNoiseFile(file: FileDiff): boolean {
+  return (
+    file.binary ||
+    LOCKFILES.has(path.posix.basename(file.path)) ||
+    GENERATED_PATTERNS.some((pattern) => pattern.test(file.path))
+  );
+}
+
+/**
+ * Relative importance of a file when sharing the budget
+ */
+export function fileImportance(file: FileDiff): number {
+  if (isNoiseFile(file)) {
+    return 0;
+  }
+  if (file.change === 'deleted') {
+    return 1;
+  }
+  return LOW_PRIORITY_PATTERNS.some((pattern) => pattern.test(file.path))
+    ? 1
+    : 3;
+}
+
+/**
+ * Summary like `git diff --stat`, one line per file
+ */
+export function formatStat(files: FileDiff[]): string {
+  const lines = files.map((file) => {
+    const name = file.oldPath ? `${file.oldPath} => ${file.path}` : file.path;
+    const counts = file.binary
+      ? 'Bin'
+      : `+${file.additions} -${file.deletions}`;
+    const change = file.change === 'modified' ? '' : ` (${file.change})`;
+    return ` ${name} | ${counts}${change}`;
+  });
+  const additions = files.reduce((sum, file) => sum + file.additions, 0);
+  const deletions = files.reduce((sum, file) => sum + file.deletions, 0);
+  lines.push(
+    ` ${files.length} file${files.length === 1 ? '' : 's'} changed, ${additions} insertions(+), ${deletions} deletions(-)`,
+  );
+  return lines.join('\n');
+}
+
+/**
+ * Header lines worth sending; index and ---/+++ lines repeat what
+ * the diff --git line already says
+ */
+function compactHeader(file: FileDiff): string[] {
+  return file.header.filter(
+    (line) => !/^(index |--- |\+\+\+ |similarity index )/.test(line),
+  );
+}
+
+function renderFile(file: FileDiff): string {
+  return [...compactHeader(file), ...file.hunks.flat()].join('\n');
+}
+
+/**
+ * Render a file within a token budget, keeping whole hunks where possible
+ */
+function renderFileWithin(file: FileDiff, budget: number): string {
+  const full = renderFile(file);
+  if (estimateTokens(full) <= budget) {
+    return full;
+  }
+
+  const lines = compactHeader(file);
+  let used = estimateTokens(lines.join('\n'));
+  let omitted = 0;
+  for (const hunk of file.hunks) {
+    if (omitted > 0) {
+      omitted += hunk.length;
+      continue;
+    }
+    const cost = estimateTokens(hunk.join('\n')) + 1;
+    if (used + cost <= budget) {
+      lines.push(...hunk);
+      used += cost;
+      continue;
+    }
+    // Cut the first hunk that does not fit line by line
+    let kept = 0;
+    for (const line of hunk) {
+      const lineCost = estimateTokens(line) + 1;
+      if (used + lineCost > budget) break;
+      lines.push(line);
+      used += lineCost;
+      kept++;
+    }
+    omitted += hunk.length - kept;
+  }
+  lines.push(`[... ${omitted} more lines of ${file.path} omitted ...]`);
+  return lines.join('\n');
+}
+
+/**
+ * Split a budget across files by importance. Files needing less than
+ * their share give the rest back to the others.
+ */
+function shareBudget(files: FileDiff[], budget: number): Map<FileDiff, number> {
+  const shares = new Map<FileDiff, number>();
+  let pending = files.filter((file) => fileImportance(file) > 0);
+  let remaining = budget;
+
+  while (pending.length > 0) {
+    const weight = pending.reduce((sum, file) => sum + fileImportance(file), 0);
+    const fitting = pending.filter(
+      (file) =>
+        estimateTokens(renderFile(file)) <=
+        (remaining * fileImportance(file)) / weight,
+    );
+    if (fitting.length === 0) {
+      for (const file of pending) {
+        shares.set(
+          file,
+          Math.floor((remaining * fileImportance(file)) / weight),
+        );
+      }
+      break;
+    }
+    for (const file of fitting) {
+      const cost = estimateTokens(renderFile(file));
+      shares.set(file, cost);
+      remaining -= cost;
+    }
+    pending = pending.filter((file) => !fitting.includes(file));
+  }
+  return shares;
+}
+
+/**
+ * Condense a staged diff for the prompt: a stat summary and file list,
+ * then per-file hunks sharing the token budget by importance.
+ * Lockfiles, generated files and binaries are listed but not included.
+ */
+export function condenseDiff(diff: string, budget: number): string {
+  const files = parseDiff(diff);
+  if (files.length === 0) {
+    return diff;
+  }
+
+  const summary = ['Changed files:', formatStat(files)].join('\n');
+  const skipped = files.filter(isNoiseFile);
+  const notes =
+    skipped.length > 0
+      ? `Not shown (lockfiles, generated or binary): ${skipped.map((file) => file.path).join(', ')}`
+      : '';
+
+  const available = Math.max(
+    0,
+    budget - estimateTokens(summary) - estimateTokens(notes),
+  );
+  const shares = shareBudget(files, available);
+
+  const sections: string[] = [];
+  const dropped: string[] = [];
+  for (const file of files) {
+    const share = shares.get(file);
+    if (share === undefined) {
+      continue;
+    }
+    // Too little room for anything beyond the header
+    const full = estimateTokens(renderFile(file));
+    if (
+      share < full &&
+      share < estimateTokens(compactHeader(file).join('\n')) + 8
+    ) {
+      dropped.push(file.path);
+      continue;
+    }
+    sections.push(renderFileWithin(file, share));
+  }
+  if (dropped.length > 0) {
+    sections.push(
+      `[... diff of ${dropped.join(', ')} omitted to fit the size limit ...]`,
+    );
+  }
+
+  return [summary, notes, sections.join('\n')].filter(Boolean).join('\n\n');
+}
+
+/**
+ * Longest directory shared by all paths ("." when there is none)
+ */
+function commonDirectory(paths: string[]): string {
+  const [first, ...rest] = paths.map((file) =>
+    path.posix.dirname(file).split('/'),
+  );
+  let length = first.length;
+  for (const parts of rest) {
+    let i = 0;
+    while (i < length && parts[i] === first[i]) i++;
+    length = i;
+  }
+  return first.slice(0, length).join('/') || '.';
+}
+
+/**
+ * Split a diff into chunks that each fit the token budget. Files are
+ * sorted by path so neighbouring files (and directories) share a chunk.
+ * Noise files are left out; a file larger than the budget is condensed.
+ */
+export function groupDiff(diff: string, budget: number): DiffChunk[] {
+  const files = parseDiff(diff)
+    .filter((file) => !isNoiseFile(file))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  const groups: FileDiff[][] = [];
+  let current: FileDiff[] = [];
+  let used = 0;
+  for (const file of files) {
+    const cost = estimateTokens(renderFile(file));
+    if (current.length > 0 && used + cost > budget) {
+      groups.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(file);
+    used += cost;
+  }
+  if (current.length > 0) {
+    groups.push(current);
+  }
+
+  return groups.map((group) => ({
+    label:
+      group.length === 1
+        ? group[0].path
+        : commonDirectory(group.map((file) => file.path)),
+    files: group,
+    diff: condenseDiff(group.map(renderFile).join('\n'), budget),
+  }));
+}
@@ -1,4 +1,19 @@
-import { describe, expect, it } from 'vitest';
+import { execa } from 'execa';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  excludePathspecs,
+  fetchBranch,
+  friendlyGitError,
+  getAheadBehind,
+  getAmendDiff,
+  getTrackingSha,
+  push,
+  stripCommentLines,
+  syncWith,
+} from './git.js';
 
 // Unit tests for Git module functionality
 
@@ -146,4 +161,223 @@ describe('Git Module', () => {
       expect(hasChanges).toBe(false);
     });
   });
+
+  describe('Ignore Globs', () => {
+    it('should build exclude pathspecs', () => {
+      expect(excludePathspecs(['*.lock', 'dist/**'])).toEqual([
+        ':(exclude,glob)*.lock',
+        ':(exclude,glob)dist/**',
+      ]);
+    });
+  });
+
+  describe('Edited Messages', () => {
+    it('should drop comment lines and extra blank lines', () => {
+      const edited =
+        'feat: add review  \n\n\n\nBody line\n# Lines starting with # are ignored\n';
+      expect(stripCommentLines(edited)).toBe('feat: add review\n\nBody line');
+    });
+
+    it('should return an empty message when only comments remain', () => {
+      expect(stripCommentLines('\n# comment\n')).toBe('');
+    });
+
+    it('should keep Markdown headings with another comment prefix', () => {
+      const edited = 'Title\n\n## Summary\n<!-- help -->\n';
+      expect(stripCommentLines(edited, '<!--')).toBe('Title\n\n## Summary');
+    });
+  });
+
+  describe('friendlyGitError', () => {
+    it('should explain a rejected push', () => {
+      const error = Object.assign(new Error('Command failed'), {
+        stderr:
+          ' ! [rejected]        main -> main (fetch first)\nerror: failed to push some refs',
+      });
+      expect(friendlyGitError(error, 'Push').message).toBe(
+        'Push failed. The remote branch has commits you do not have. Run git-ai push again to rebase or merge them first.',
+      );
+    });
+
+    it('should fall back to the fatal line', () => {
+      const error = Object.assign(new Error('Command failed'), {
+        stderr: 'hint: something\nfatal: bad object HEAD\n',
+      });
+      expect(friendlyGitError(error, 'Fetch').message).toBe(
+        'Fetch failed. fatal: bad object HEAD',
+      );
+    });
+  });
+
+  describe('syncing with origin', () => {
+    let root: string;
+    let cwd: string;
+
+    const git = (dir: string, ...args: string[]) =>
+      execa('git', ['-c', 'user.name=T', '-c', 'user.email=t@t', ...args], {
+        cwd: dir,
+      });
+    // Another clone pushes a commit changing a file
+    const pushFromOther = async (file: string, content: string) => {
+      const other = path.join(root, 'other');
+      if (!fs.existsSync(other)) {
+        await git(root, 'clone', '-q', 'remote.git', 'other');
+      }
+      fs.writeFileSync(path.join(other, file), content);
+      await git(other, 'commit', '-qam', `other ${file}`);
+      await git(other, 'push', '-q', 'origin', 'main');
+    };
+
+    beforeEach(async () => {
+      cwd = process.cwd();
+      vi.stubEnv('GIT_CONFIG_GLOBAL', '/dev/null');
+      vi.stubEnv('GIT_CONFIG_NOSYSTEM', '1');
+      vi.stubEnv('GIT_CONFIG_COUNT', '0');
+      root = fs.mkdtempSync(path.join(os.tmpdir(), 'git-ai-sync-'));
+      await git(root, 'init', '-q', '--bare', '-b', 'main', 'remote.git');
+      await git(root, 'clone', '-q', 'remote.git', 'local');
+      const local = path.join(root, 'local');
+      await git(local, 'checkout', '-q', '-b', 'main');
+      await git(local, 'config', 'user.name', 'T');
+      await git(local, 'config', 'user.email', 't@t');
+      fs.writeFileSync(path.join(local, 'a.txt'), 'a\n');
+      fs.writeFileSync(path.join(local, 'b.txt'), 'b\n');
+      await git(local, 'add', '.');
+      await git(local, 'commit', '-qm', 'initial');
+      await git(local, 'push', '-q', '-u', 'origin', 'main');
+      process.chdir(local);
+    });
+
+    afterEach(() => {
+      process.chdir(cwd);
+      vi.unstubAllEnvs();
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should report a branch origin does not have', async () => {
+      await git('.', 'checkout', '-q', '-b', 'feature');
+      expect(await fetchBranch('feature')).toBe(false);
+    });
+
+    it('should count commits ahead and behind and rebase onto them', async () => {
+      await pushFromOther('b.txt', 'b2\n');
+      fs.writeFileSync('a.txt', 'a2\n');
+      await git('.', 'commit', '-qam', 'local a');
+
+      expect(await fetchBranch('main')).toBe(true);
+      expect(await getAheadBehind('origin/main')).toEqual({
+        ahead: 1,
+        behind: 1,
+      });
+      await syncWith('origin/main', 'rebase');
+      expect(await getAheadBehind('origin/main')).toEqual({
+        ahead: 1,
+        behind: 0,
+      });
+    });
+
+    it('should undo a conflicting rebase and list the files', async () => {
+      await pushFromOther('a.txt', 'theirs\n');
+      fs.writeFileSync('a.txt', 'mine\n');
+      await git('.', 'commit', '-qam', 'local a');
+      await fetchBranch('main');
+
+      await expect(syncWith('origin/main', 'rebase')).rejects.toThrow(
+        'Rebase stopped on conflicts in:\n  a.txt',
+      );
+      expect(fs.readFileSync('a.txt', 'utf-8')).toBe('mine\n');
+      const { stdout } = await git('.', 'status', '--porcelain');
+      expect(stdout).toBe('');
+    });
+
+    it('should replace an amended commit with --force-with-lease', async () => {
+      fs.writeFileSync('a.txt', 'first\n');
+      await git('.', 'commit', '-qam', 'first');
+      await git('.', 'push', '-q');
+      await git('.', 'commit', '-q', '--amend', '-m', 'amended');
+
+      await expect(push()).rejects.toThrow('Push failed.');
+      await push({ forceWithLease: true });
+      const { stdout } = await git(
+        '.',
+        'log',
+        '-1',
+        '--format=%s',
+        'origin/main',
+      );
+      expect(stdout).toBe('amended');
+    });
+
+    it('should not replace commits pushed since the last fetch', async () => {
+      fs.writeFileSync('a.txt', 'first\n');
+      await git('.', 'commit', '-qam', 'first');
+      await git('.', 'push', '-q');
+      await git('.', 'commit', '-q', '--amend', '-m', 'amended');
+      const seen = await getTrackingSha('main');
+      await pushFromOther('b.txt', 'theirs\n');
+      await fetchBranch('main');
+
+      await expect(
+        push({ forceWithLease: true, expect: seen }),
+      ).rejects.toThrow('--force-with-lease refused to overwrite them');
+      const { stdout } = await git(
+        '.',
+        'log',
+        '-1',
+        '--format=%s',
+        'origin/main',
+      );
+      expect(stdout).toBe('other b.txt');
+    });
+  });
+
+  describe('getAmendDiff', () => {
+    let root: string;
+    let cwd: string;
+
+    const git = (...args: string[]) =>
+      execa('git', ['-c', 'user.name=T', '-c', 'user.email=t@t', ...args]);
+
+    beforeEach(async () => {
+      cwd = process.cwd();
+      vi.stubEnv('GIT_CONFIG_GLOBAL', '/dev/null');
+      vi.stubEnv('GIT_CONFIG_NOSYSTEM', '1');
+      vi.stubEnv('GIT_CONFIG_COUNT', '0');
+      root = fs.mkdtempSync(path.join(os.tmpdir(), 'git-ai-amend-'));
+      process.chdir(root);
+      await git('init', '-q', '-b', 'main');
+      fs.writeFileSync('a.txt', 'a\n');
+      await git('add', '.');
+      await git('commit', '-qm', 'initial');
+    });
+
+    afterEach(() => {
+      process.chdir(cwd);
+      vi.unstubAllEnvs();
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should diff a root commit against the empty tree', async () => {
+      fs.writeFileSync('b.txt', 'b\n');
+      await git('add', 'b.txt');
+
+      const diff = await getAmendDiff();
+      expect(diff).toContain('new file mode');
+      expect(diff).toContain('+++ b/a.txt');
+      expect(diff).toContain('+++ b/b.txt');
+    });
+
+    it('should diff against the parent commit', async () => {
+      fs.writeFileSync('a.txt', 'a2\n');
+      await git('commit', '-qam', 'change a');
+      fs.writeFileSync('b.txt', 'b\n');
+      await git('add', 'b.txt');
+
+      const diff = await getAmendDiff();
+      expect(diff).toContain('--- a/a.txt');
+      expect(diff).toContain('-a\n+a2');
+      expect(diff).toContain('+++ b/b.txt');
+      expect(await getAmendDiff(['b.txt'])).not.toContain('b.txt');
+    });
+  });
 });
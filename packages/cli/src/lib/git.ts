@@ -1,6 +1,9 @@
 import chalk from 'chalk';
 import { execa } from 'execa';
+import fs from 'fs';
 import path from 'path';
+import { requireInteractive } from './interactive.js';
+import { parseChangedFiles, type ChangedFile } from './offline.js';
 
 /**
  * Check if GitHub CLI (gh) is installed
@@ -53,6 +56,7 @@ export async function isGhAuthenticated(): Promise<boolean> {
  * Trigger GitHub CLI login
  */
 export async function loginGh(): Promise<void> {
+  requireInteractive('GitHub login', 'Set GH_TOKEN or run: gh auth login');
   console.log(chalk.yellow('Starting GitHub authentication...'));
   await execa('gh', ['auth', 'login', '-h', 'github.com', '-w'], {
     stdio: 'inherit',
@@ -120,6 +124,26 @@ export async function createGitHubRepo(): Promise<void> {
   console.log(chalk.green(`GitHub repository "${folderName}" created.`));
 }
 
+/**
+ * Save the index as a tree object, to put back with restoreIndex.
+ * Undefined when git cannot write it, e.g. during a merge conflict.
+ */
+export async function saveIndex(): Promise<string | undefined> {
+  try {
+    const { stdout } = await execa('git', ['write-tree']);
+    return stdout.trim();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Put back an index saved with saveIndex, keeping the working tree
+ */
+export async function restoreIndex(tree: string): Promise<void> {
+  await execa('git', ['read-tree', tree]);
+}
+
 /**
  * Stage all changes
  */
@@ -129,36 +153,619 @@ export async function stageAll(): Promise<void> {
 }
 
 /**
- * Get the staged diff
+ * Stage changes to tracked files only (like git commit -a)
  */
-export async function getStagedDiff(): Promise<string> {
-  const { stdout } = await execa('git', ['diff', '--cached']);
+export async function stageTracked(): Promise<void> {
+  await execa('git', ['add', '--update']);
+  console.log(chalk.green('Tracked changes staged.'));
+}
+
+/**
+ * Build pathspecs that exclude files matching the given globs
+ */
+export function excludePathspecs(ignore: string[]): string[] {
+  return ignore.map((pattern) => `:(exclude,glob)${pattern}`);
+}
+
+/**
+ * Get the staged diff, leaving out files matching the ignore globs.
+ * The diff is against HEAD unless another base is given.
+ */
+export async function getStagedDiff(
+  ignore: string[] = [],
+  base?: string,
+): Promise<string> {
+  const pathspecs =
+    ignore.length > 0 ? ['--', '.', ...excludePathspecs(ignore)] : [];
+  const { stdout } = await execa('git', [
+    'diff',
+    '--cached',
+    ...(base ? [base] : []),
+    ...pathspecs,
+  ]);
   return stdout;
 }
 
 /**
- * Commit with a message
+ * Get the staged files with their status and line counts, from
+ * --name-status and --numstat. Takes the same ignore globs and base
+ * as getStagedDiff.
+ */
+export async function getStagedChanges(
+  ignore: string[] = [],
+  base?: string,
+): Promise<ChangedFile[]> {
+  const args = ['diff', '--cached', '-M', '-z', ...(base ? [base] : [])];
+  const pathspecs =
+    ignore.length > 0 ? ['--', '.', ...excludePathspecs(ignore)] : [];
+  const [nameStatus, numstat] = await Promise.all([
+    execa('git', [...args, '--name-status', ...pathspecs]),
+    execa('git', [...args, '--numstat', ...pathspecs]),
+  ]);
+  return parseChangedFiles(nameStatus.stdout, numstat.stdout);
+}
+
+// Git's empty tree, the base for the diff of a root commit
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+/**
+ * The base `commit --amend` records against: HEAD's parent, or the
+ * empty tree for a root commit
  */
-export async function commit(message: string): Promise<void> {
-  await execa('git', ['commit', '-m', message]);
-  console.log(chalk.green('Changes committed.'));
+async function getAmendBase(): Promise<string> {
+  try {
+    const { stdout } = await execa('git', [
+      'rev-parse',
+      '--verify',
+      '--quiet',
+      'HEAD~1',
+    ]);
+    return stdout.trim();
+  } catch {
+    return EMPTY_TREE;
+  }
 }
 
 /**
- * Get the current branch name
+ * Get the diff `commit --amend` would record: HEAD's changes plus
+ * anything staged on top
  */
-export async function getCurrentBranch(): Promise<string> {
+export async function getAmendDiff(ignore: string[] = []): Promise<string> {
+  return getStagedDiff(ignore, await getAmendBase());
+}
+
+/**
+ * Get the files `commit --amend` would record, like getStagedChanges
+ */
+export async function getAmendChanges(
+  ignore: string[] = [],
+): Promise<ChangedFile[]> {
+  return getStagedChanges(ignore, await getAmendBase());
+}
+
+/**
+ * Commit with a message, or replace the last commit with --amend
+ */
+export async function commit(
+  message: string,
+  options: { amend?: boolean } = {},
+): Promise<void> {
+  await execa('git', [
+    'commit',
+    ...(options.amend ? ['--amend'] : []),
+    '-m',
+    message,
+  ]);
+  console.log(
+    chalk.green(options.amend ? 'Commit amended.' : 'Changes committed.'),
+  );
+}
+
+/**
+ * Get every uncommitted change, staged or not, as one diff against
+ * HEAD. Untracked files are included as new files.
+ */
+export async function getWorkingTreeDiff(): Promise<string> {
+  try {
+    await execa('git', ['rev-parse', '--verify', '--quiet', 'HEAD']);
+  } catch {
+    throw new Error('The repository has no commits yet. Commit once first.');
+  }
+
+  // Patches are applied later, so keep binary data and the final newline
+  const { stdout: tracked } = await execa('git', ['diff', '--binary', 'HEAD'], {
+    stripFinalNewline: false,
+  });
+  const { stdout: untracked } = await execa('git', [
+    'ls-files',
+    '--others',
+    '--exclude-standard',
+    '-z',
+  ]);
+
+  const diffs = [tracked];
+  for (const file of untracked.split('\0').filter(Boolean)) {
+    // Exits with 1 when the files differ, which they always do here
+    const { stdout } = await execa(
+      'git',
+      ['diff', '--no-index', '--binary', '--', '/dev/null', file],
+      { reject: false, stripFinalNewline: false },
+    );
+    diffs.push(stdout);
+  }
+  return diffs.join('');
+}
+
+/**
+ * Sizes of the files in the working tree, by path from the repository root
+ */
+export async function getWorkingTreeFileSizes(
+  paths: string[],
+): Promise<{ path: string; size: number }[]> {
+  const root = await getRepoRoot();
+  return paths
+    .map((file) => ({ file, full: path.join(root, file) }))
+    .filter(({ full }) => fs.existsSync(full))
+    .map(({ file, full }) => ({ path: file, size: fs.statSync(full).size }));
+}
+
+/**
+ * Sizes of the staged versions of added and modified files
+ */
+export async function getStagedFileSizes(): Promise<
+  { path: string; size: number }[]
+> {
+  const { stdout } = await execa('git', [
+    'diff',
+    '--cached',
+    '--name-only',
+    '--diff-filter=AMR',
+    '-z',
+  ]);
+  const paths = stdout.split('\0').filter(Boolean);
+  if (paths.length === 0) {
+    return [];
+  }
+  const { stdout: sizes } = await execa(
+    'git',
+    ['cat-file', '--batch-check=%(objectsize)'],
+    { input: paths.map((file) => `:${file}`).join('\n') },
+  );
+  return sizes
+    .split('\n')
+    .map((size, i) => ({ path: paths[i], size: Number(size) }));
+}
+
+/**
+ * Unstage everything, keeping the working tree as it is
+ */
+export async function unstageAll(): Promise<void> {
+  await execa('git', ['reset', '--quiet']);
+}
+
+/**
+ * Stage a patch without touching the working tree
+ */
+export async function applyToIndex(patch: string): Promise<void> {
+  await execa('git', ['apply', '--cached', '--whitespace=nowarn'], {
+    input: patch,
+  });
+}
+
+const EDIT_HELP = `
+# Edit the commit message. Lines starting with '#' are ignored,
+# and an empty message aborts the commit.
+`;
+
+/**
+ * Clean up an edited message the way git does: drop comment lines,
+ * trailing whitespace and surplus blank lines
+ */
+export function stripCommentLines(
+  text: string,
+  commentPrefix: string = '#',
+): string {
+  return text
+    .split('\n')
+    .filter((line) => !line.startsWith(commentPrefix))
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Open a commit message in the user's git editor (like `git commit -e`)
+ */
+export async function editCommitMessage(message: string): Promise<string> {
+  requireInteractive('Editing the commit message', 'Use -m or --no-review.');
+  return editText(message, EDIT_HELP);
+}
+
+/**
+ * Open text in the user's git editor and return it without comment lines
+ */
+export async function editText(
+  text: string,
+  help: string,
+  commentPrefix: string = '#',
+): Promise<string> {
+  const { stdout: file } = await execa('git', [
+    'rev-parse',
+    '--git-path',
+    'GIT_AI_EDITMSG',
+  ]);
+  // Honors GIT_EDITOR, core.editor, VISUAL and EDITOR like git does
+  const { stdout: editor } = await execa('git', ['var', 'GIT_EDITOR']);
+
+  fs.writeFileSync(file, `${text}\n${help}`);
+  try {
+    await execa(`${editor} "${file}"`, { shell: true, stdio: 'inherit' });
+    return stripCommentLines(fs.readFileSync(file, 'utf-8'), commentPrefix);
+  } finally {
+    fs.rmSync(file, { force: true });
+  }
+}
+
+/**
+ * Name and email of the committer, e.g. for Signed-off-by
+ */
+export async function getCommitterIdentity(): Promise<string> {
+  const { stdout } = await execa('git', ['var', 'GIT_COMMITTER_IDENT']);
+  // "Name <email> 1700000000 +0100"
+  return stdout.replace(/\s+\d+\s+[+-]\d{4}$/, '');
+}
+
+/**
+ * Fetch a GitHub issue's title and body (undefined if unavailable)
+ */
+export async function getIssue(
+  number: number,
+): Promise<{ title: string; body: string } | undefined> {
+  try {
+    const { stdout } = await execa('gh', [
+      'issue',
+      'view',
+      String(number),
+      '--json',
+      'title,body',
+    ]);
+    return JSON.parse(stdout);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get the current branch name (undefined when HEAD is detached)
+ */
+export async function getCurrentBranch(): Promise<string | undefined> {
   const { stdout } = await execa('git', ['branch', '--show-current']);
-  return stdout.trim() || 'main';
+  return stdout.trim() || undefined;
 }
 
 /**
- * Push to origin
+ * Get the current branch name, failing when HEAD is detached
  */
-export async function push(): Promise<void> {
+export async function requireCurrentBranch(): Promise<string> {
   const branch = await getCurrentBranch();
+  if (!branch) {
+    throw new Error(
+      'HEAD is detached (not on a branch). Check out a branch, or create one with: git-ai branch <description>',
+    );
+  }
+  return branch;
+}
+
+/**
+ * Check if a local branch exists
+ */
+export async function branchExists(name: string): Promise<boolean> {
+  try {
+    await execa('git', [
+      'rev-parse',
+      '--verify',
+      '--quiet',
+      `refs/heads/${name}`,
+    ]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check if git accepts a branch name
+ */
+export async function isValidBranchName(name: string): Promise<boolean> {
+  const { exitCode } = await execa(
+    'git',
+    ['check-ref-format', '--branch', name],
+    { reject: false },
+  );
+  return exitCode === 0;
+}
+
+/**
+ * Create a branch at HEAD and switch to it, keeping uncommitted changes
+ */
+export async function createBranch(name: string): Promise<void> {
+  await execa('git', ['checkout', '-b', name]);
+  console.log(chalk.green(`Switched to a new branch ${name}.`));
+}
+
+/**
+ * Ref to compare a branch against: the remote-tracking branch when
+ * there is one, so a stale local base does not show extra changes
+ */
+export async function resolveBaseRef(base: string): Promise<string> {
+  for (const ref of [`origin/${base}`, base]) {
+    try {
+      await execa('git', ['rev-parse', '--verify', '--quiet', ref]);
+      return ref;
+    } catch {
+      // Try the next candidate
+    }
+  }
+  throw new Error(`Base branch "${base}" not found.`);
+}
+
+/**
+ * Changes on the current branch since it left the base
+ */
+export async function getBranchDiff(
+  baseRef: string,
+  ignore: string[] = [],
+): Promise<string> {
+  const pathspecs =
+    ignore.length > 0 ? ['--', '.', ...excludePathspecs(ignore)] : [];
+  const { stdout } = await execa('git', [
+    'diff',
+    `${baseRef}...HEAD`,
+    ...pathspecs,
+  ]);
+  return stdout;
+}
+
+/**
+ * Messages of the commits on the current branch, oldest first
+ */
+export async function getBranchCommits(baseRef: string): Promise<string[]> {
+  const { stdout } = await execa('git', [
+    'log',
+    '--reverse',
+    '--format=%B%x00',
+    `${baseRef}..HEAD`,
+  ]);
+  return stdout
+    .split('\0')
+    .map((message) => message.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Whether the current branch has an upstream with all local commits
+ */
+export async function isBranchPushed(): Promise<boolean> {
+  try {
+    const { stdout } = await execa('git', [
+      'rev-list',
+      '--count',
+      '@{upstream}..HEAD',
+    ]);
+    return stdout.trim() === '0';
+  } catch {
+    return false;
+  }
+}
+
+export interface PullRequestOptions {
+  title: string;
+  body: string;
+  base: string;
+  draft?: boolean;
+  reviewers?: string[];
+  labels?: string[];
+}
+
+/**
+ * Open a pull request for the current branch, returning its URL
+ */
+export async function createPullRequest(
+  options: PullRequestOptions,
+): Promise<string> {
+  const { stdout } = await execa(
+    'gh',
+    [
+      'pr',
+      'create',
+      '--title',
+      options.title,
+      '--body-file',
+      '-',
+      '--base',
+      options.base,
+      ...(options.draft ? ['--draft'] : []),
+      ...(options.reviewers ?? []).flatMap((reviewer) => [
+        '--reviewer',
+        reviewer,
+      ]),
+      ...(options.labels ?? []).flatMap((label) => ['--label', label]),
+    ],
+    { input: options.body },
+  );
+  return stdout.trim().split('\n').pop() ?? '';
+}
+
+/**
+ * Root directory of the working tree
+ */
+export async function getRepoRoot(): Promise<string> {
+  const { stdout } = await execa('git', ['rev-parse', '--show-toplevel']);
+  return stdout.trim();
+}
+
+// Known git failures and what to do about them
+const GIT_ERROR_HINTS: [RegExp, string][] = [
+  [
+    /stale info/,
+    'The remote branch has commits you had not fetched, so --force-with-lease refused to overwrite them. Look at them with git log HEAD..@{u}, then bring them in with git-ai push --rebase or push again to replace them.',
+  ],
+  [
+    /\(fetch first\)|non-fast-forward/,
+    'The remote branch has commits you do not have. Run git-ai push again to rebase or merge them first.',
+  ],
+  [
+    /GH006|protected branch/i,
+    'The remote does not allow pushing to this branch. Push a feature branch (git-ai branch) and open a pull request (git-ai pr).',
+  ],
+  [
+    /Could not resolve host|Failed to connect|Connection timed out/i,
+    'Cannot reach the remote. Check your network connection.',
+  ],
+  [
+    /Authentication failed|Permission denied|could not read Username/i,
+    'The remote rejected your credentials. Run: gh auth login (or check your SSH key).',
+  ],
+  [
+    /Repository not found/i,
+    'The remote repository was not found. Check the URL with: git remote -v',
+  ],
+  [
+    /does not appear to be a git repository|No such remote/,
+    'There is no "origin" remote. Add one with: git remote add origin <url>',
+  ],
+];
+
+/**
+ * Turn a failed git command into a short, actionable error
+ */
+export function friendlyGitError(error: unknown, action: string): Error {
+  const stderr = (error as { stderr?: unknown } | undefined)?.stderr;
+  const output =
+    typeof stderr === 'string' && stderr.trim()
+      ? stderr
+      : error instanceof Error
+        ? error.message
+        : String(error);
+  const hint = GIT_ERROR_HINTS.find(([pattern]) => pattern.test(output))?.[1];
+  const detail = output
+    .split('\n')
+    .map((line) => line.trim())
+    .find((line) => /^(fatal|error):/.test(line));
+  return new Error(`${action} failed. ${hint ?? detail ?? output.trim()}`);
+}
+
+/**
+ * Fetch a branch from origin. Returns false when origin does not have it.
+ */
+export async function fetchBranch(branch: string): Promise<boolean> {
+  try {
+    await execa('git', ['fetch', '--quiet', 'origin', branch]);
+    return true;
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr ?? '';
+    if (/couldn't find remote ref/i.test(stderr)) {
+      return false;
+    }
+    throw friendlyGitError(error, 'Fetch');
+  }
+}
+
+/**
+ * The commit origin/<branch> points at locally, or '' when there is no
+ * remote-tracking branch yet
+ */
+export async function getTrackingSha(branch: string): Promise<string> {
+  const { stdout } = await execa(
+    'git',
+    ['rev-parse', '--verify', '--quiet', `refs/remotes/origin/${branch}`],
+    { reject: false },
+  );
+  return stdout.trim();
+}
+
+/**
+ * Commits only in HEAD (ahead) and only in the other ref (behind)
+ */
+export async function getAheadBehind(
+  ref: string,
+): Promise<{ ahead: number; behind: number }> {
+  const { stdout } = await execa('git', [
+    'rev-list',
+    '--left-right',
+    '--count',
+    `HEAD...${ref}`,
+  ]);
+  const [ahead, behind] = stdout.trim().split(/\s+/).map(Number);
+  return { ahead, behind };
+}
+
+export type SyncStrategy = 'rebase' | 'merge';
+
+/**
+ * Bring in commits from another ref by rebase or merge. On conflicts the
+ * operation is undone and the error lists the conflicting files.
+ */
+export async function syncWith(
+  ref: string,
+  strategy: SyncStrategy,
+): Promise<void> {
+  const args =
+    strategy === 'rebase'
+      ? ['rebase', '--autostash', ref]
+      : ['merge', '--autostash', '--no-edit', ref];
+  console.log(
+    chalk.yellow(
+      `${strategy === 'rebase' ? 'Rebasing onto' : 'Merging'} ${ref}...`,
+    ),
+  );
+  try {
+    await execa('git', args);
+  } catch (error) {
+    const { stdout } = await execa('git', [
+      'diff',
+      '--name-only',
+      '--diff-filter=U',
+    ]);
+    const conflicts = stdout.split('\n').filter(Boolean);
+    if (conflicts.length === 0) {
+      throw friendlyGitError(error, strategy === 'rebase' ? 'Rebase' : 'Merge');
+    }
+    await execa('git', [strategy, '--abort'], { reject: false });
+    throw new Error(
+      `${strategy === 'rebase' ? 'Rebase' : 'Merge'} stopped on conflicts in:\n${conflicts.map((file) => `  ${file}`).join('\n')}\nIt was undone, so your branch is as before. Resolve the conflicts by hand with: git ${strategy === 'rebase' ? 'pull --rebase' : 'pull --no-rebase'} origin ${ref.replace(/^origin\//, '')}`,
+    );
+  }
+  console.log(chalk.green(strategy === 'rebase' ? 'Rebased.' : 'Merged.'));
+}
+
+/**
+ * Push the current branch to origin. --force-with-lease replaces the
+ * remote branch, e.g. after an amend, unless it moved from expect (the
+ * sha from getTrackingSha, '' for no branch). Without expect the lease
+ * is the remote-tracking branch, which a fetch just before moves too.
+ */
+export async function push(
+  options: { forceWithLease?: boolean; expect?: string } = {},
+): Promise<void> {
+  const branch = await requireCurrentBranch();
   console.log(chalk.yellow(`Pushing to origin/${branch}...`));
-  await execa('git', ['push', '-u', 'origin', branch]);
+  const lease =
+    options.expect === undefined
+      ? '--force-with-lease'
+      : `--force-with-lease=${branch}:${options.expect}`;
+  try {
+    await execa('git', [
+      'push',
+      ...(options.forceWithLease ? [lease] : []),
+      '-u',
+      'origin',
+      branch,
+    ]);
+  } catch (error) {
+    throw friendlyGitError(error, 'Push');
+  }
   console.log(chalk.green('Pushed successfully.'));
 }
 
@@ -0,0 +1,126 @@
+import { execa } from 'execa';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  buildHookScript,
+  CHAINED_HOOK_NAME,
+  getHookStatus,
+  HOOK_NAME,
+  installHook,
+  prependMessage,
+  shouldGenerateMessage,
+  uninstallHook,
+} from './hook.js';
+
+describe('Hook', () => {
+  describe('shouldGenerateMessage', () => {
+    it('should generate for plain commits and templates', () => {
+      expect(shouldGenerateMessage()).toBe(true);
+      expect(shouldGenerateMessage('template')).toBe(true);
+    });
+
+    it('should skip messages, merges, squashes and amends', () => {
+      for (const source of ['message', 'merge', 'squash', 'commit']) {
+        expect(shouldGenerateMessage(source)).toBe(false);
+      }
+    });
+  });
+
+  describe('buildHookScript', () => {
+    it('should run the chained hook, then the CLI without failing', () => {
+      const script = buildHookScript('/usr/bin/node', '/opt/git-ai/index.js');
+      expect(script.startsWith('#!/bin/sh\n')).toBe(true);
+      expect(script).toContain(`"$HOOK_DIR/${CHAINED_HOOK_NAME}" "$@"`);
+      expect(script).toContain(
+        '"/usr/bin/node" "/opt/git-ai/index.js" hook run "$@" </dev/null || true',
+      );
+      expect(script.trimEnd().endsWith('exit 0')).toBe(true);
+    });
+  });
+
+  describe('prependMessage', () => {
+    it('should keep the comments git prepared', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-ai-msg-'));
+      const file = path.join(dir, 'COMMIT_EDITMSG');
+      fs.writeFileSync(file, '\n# Please enter the commit message\n');
+
+      prependMessage(file, 'feat: add hook');
+      expect(fs.readFileSync(file, 'utf-8')).toBe(
+        'feat: add hook\n\n# Please enter the commit message\n',
+      );
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+  });
+
+  describe('install and uninstall', () => {
+    let root: string;
+    let cwd: string;
+
+    beforeEach(async () => {
+      cwd = process.cwd();
+      // Keep the user's git config (e.g. a global core.hooksPath) out
+      vi.stubEnv('GIT_CONFIG_GLOBAL', '/dev/null');
+      vi.stubEnv('GIT_CONFIG_NOSYSTEM', '1');
+      vi.stubEnv('GIT_CONFIG_COUNT', '0');
+      root = fs.realpathSync(
+        fs.mkdtempSync(path.join(os.tmpdir(), 'git-ai-hook-')),
+      );
+      await execa('git', ['init', '-q'], { cwd: root });
+      process.chdir(root);
+    });
+
+    afterEach(() => {
+      process.chdir(cwd);
+      vi.unstubAllEnvs();
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should install into .git/hooks and remove again', async () => {
+      const status = await installHook('node', 'cli.js');
+      const hook = path.join(root, '.git', 'hooks', HOOK_NAME);
+      expect(status.hooksDir).toBe(path.join(root, '.git', 'hooks'));
+      expect(status.installed).toBe(true);
+      expect(fs.statSync(hook).mode & 0o111).not.toBe(0);
+
+      expect(await uninstallHook()).toBe(true);
+      expect(fs.existsSync(hook)).toBe(false);
+      expect(await uninstallHook()).toBe(false);
+    });
+
+    it('should chain an existing hook and restore it', async () => {
+      const hooks = path.join(root, '.git', 'hooks');
+      fs.writeFileSync(path.join(hooks, HOOK_NAME), '#!/bin/sh\necho mine\n');
+      expect((await getHookStatus()).foreignHook).toBe(true);
+
+      const status = await installHook('node', 'cli.js');
+      expect(status.chainedHook).toBe(true);
+      expect(
+        fs.readFileSync(path.join(hooks, CHAINED_HOOK_NAME), 'utf-8'),
+      ).toContain('echo mine');
+
+      await uninstallHook();
+      expect(fs.readFileSync(path.join(hooks, HOOK_NAME), 'utf-8')).toContain(
+        'echo mine',
+      );
+      expect(fs.existsSync(path.join(hooks, CHAINED_HOOK_NAME))).toBe(false);
+    });
+
+    it('should honor core.hooksPath', async () => {
+      await execa('git', ['config', 'core.hooksPath', '.githooks']);
+
+      const status = await installHook('node', 'cli.js');
+      expect(status.customHooksPath).toBe(true);
+      expect(status.hooksDir).toBe(path.join(root, '.githooks'));
+      expect(fs.existsSync(path.join(root, '.githooks', HOOK_NAME))).toBe(true);
+    });
+
+    it('should refuse when hooks are disabled', async () => {
+      await execa('git', ['config', 'core.hooksPath', '/dev/null']);
+      await expect(installHook('node', 'cli.js')).rejects.toThrow(
+        'Hooks are disabled',
+      );
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { execa } from 'execa';
+import fs from 'fs';
+import path from 'path';
+
+export const HOOK_NAME = 'prepare-commit-msg';
+
+// Marks hooks written by git-ai
+const HOOK_MARKER = '# git-ai prepare-commit-msg hook';
+
+// An existing hook is kept under this name and run first
+export const CHAINED_HOOK_NAME = `${HOOK_NAME}.pre-git-ai`;
+
+// Generation time limit so a slow or offline provider does not hold up git
+export const HOOK_TIMEOUT = 20000;
+
+// Commit sources that already have a message worth keeping
+const SKIPPED_SOURCES = ['message', 'merge', 'squash', 'commit'];
+
+export interface HookStatus {
+  hooksDir: string;
+  /** Whether core.hooksPath points somewhere else */
+  customHooksPath: boolean;
+  installed: boolean;
+  /** Another prepare-commit-msg hook not written by git-ai */
+  foreignHook: boolean;
+  chainedHook: boolean;
+}
+
+/**
+ * Directory git runs hooks from, honoring core.hooksPath
+ */
+export async function getHooksDir(): Promise<{
+  dir: string;
+  custom: boolean;
+}> {
+  let hooksPath = '';
+  try {
+    const { stdout } = await execa('git', ['config', 'core.hooksPath']);
+    hooksPath = stdout.trim();
+  } catch {
+    // Not set
+  }
+
+  if (hooksPath) {
+    // Relative paths are resolved from the working tree root
+    const { stdout: root } = await execa('git', [
+      'rev-parse',
+      '--show-toplevel',
+    ]);
+    return { dir: path.resolve(root, hooksPath), custom: true };
+  }
+  const { stdout } = await execa('git', ['rev-parse', '--git-path', 'hooks']);
+  return { dir: path.resolve(stdout.trim()), custom: false };
+}
+
+/**
+ * Shell script installed as the hook. It runs a previous hook first
+ * and never fails the commit itself.
+ */
+export function buildHookScript(node: string, cli: string): string {
+  return `#!/bin/sh
+${HOOK_MARKER} (remove with: git-ai hook uninstall)
+HOOK_DIR=$(dirname "$0")
+if [ -x "$HOOK_DIR/${CHAINED_HOOK_NAME}" ]; then
+  "$HOOK_DIR/${CHAINED_HOOK_NAME}" "$@" || exit $?
+fi
+if [ -f "${cli}" ]; then
+  "${node}" "${cli}" hook run "$@" </dev/null || true
+fi
+exit 0
+`;
+}
+
+function isGitAiHook(file: string): boolean {
+  return (
+    fs.existsSync(file) && fs.readFileSync(file, 'utf-8').includes(HOOK_MARKER)
+  );
+}
+
+/**
+ * Report whether the hook is installed
+ */
+export async function getHookStatus(): Promise<HookStatus> {
+  const { dir, custom } = await getHooksDir();
+  const hook = path.join(dir, HOOK_NAME);
+  const installed = isGitAiHook(hook);
+  return {
+    hooksDir: dir,
+    customHooksPath: custom,
+    installed,
+    foreignHook: fs.existsSync(hook) && !installed,
+    chainedHook: fs.existsSync(path.join(dir, CHAINED_HOOK_NAME)),
+  };
+}
+
+/**
+ * Install the hook, keeping an existing hook as a chained one
+ */
+export async function installHook(
+  node: string = process.execPath,
+  cli: string = process.argv[1],
+): Promise<HookStatus> {
+  const status = await getHookStatus();
+  const hook = path.join(status.hooksDir, HOOK_NAME);
+  const chained = path.join(status.hooksDir, CHAINED_HOOK_NAME);
+
+  // core.hooksPath=/dev/null is a common way to turn hooks off
+  if (
+    fs.existsSync(status.hooksDir) &&
+    !fs.statSync(status.hooksDir).isDirectory()
+  ) {
+    throw new Error(
+      `Hooks are disabled: core.hooksPath points to ${status.hooksDir}, which is not a directory.`,
+    );
+  }
+
+  if (status.foreignHook) {
+    if (status.chainedHook) {
+      throw new Error(
+        `Both ${HOOK_NAME} and ${CHAINED_HOOK_NAME} exist in ${status.hooksDir}. Merge them first.`,
+      );
+    }
+    fs.renameSync(hook, chained);
+  }
+
+  fs.mkdirSync(status.hooksDir, { recursive: true });
+  fs.writeFileSync(hook, buildHookScript(node, path.resolve(cli)), {
+    mode: 0o755,
+  });
+  fs.chmodSync(hook, 0o755);
+  return getHookStatus();
+}
+
+/**
+ * Remove the hook and restore a chained hook
+ */
+export async function uninstallHook(): Promise<boolean> {
+  const status = await getHookStatus();
+  if (!status.installed) {
+    return false;
+  }
+  const hook = path.join(status.hooksDir, HOOK_NAME);
+  fs.rmSync(hook);
+  if (status.chainedHook) {
+    fs.renameSync(path.join(status.hooksDir, CHAINED_HOOK_NAME), hook);
+  }
+  return true;
+}
+
+/**
+ * Whether the hook should write a message for this commit source
+ * (skips -m/-F, merges, squashes and amends)
+ */
+export function shouldGenerateMessage(source?: string): boolean {
+  return !source || !SKIPPED_SOURCES.includes(source);
+}
+
+/**
+ * Put the message above what git prepared (comments or a template)
+ */
+export function prependMessage(file: string, message: string): void {
+  const existing = fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : '';
+  fs.writeFileSync(file, `${message}\n${existing}`);
+}
@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  CancelledError,
+  EXIT_CANCELLED,
+  EXIT_CONFIRMATION_REQUIRED,
+  EXIT_ERROR,
+  EXIT_INPUT_REQUIRED,
+  InputRequiredError,
+  configureInteractivity,
+  getExitCode,
+  isCI,
+} from './interactive.js';
+import { confirm, confirmDestructive } from './prompt.js';
+
+describe('Interactivity', () => {
+  describe('isCI', () => {
+    it('should detect common CI variables', () => {
+      expect(isCI({ CI: 'true' })).toBe(true);
+      expect(isCI({ GITHUB_ACTIONS: 'true' })).toBe(true);
+      expect(isCI({ JENKINS_URL: 'https://ci.example.com' })).toBe(true);
+    });
+
+    it('should ignore false values', () => {
+      expect(isCI({ CI: 'false' })).toBe(false);
+      expect(isCI({ CI: '0' })).toBe(false);
+      expect(isCI({})).toBe(false);
+    });
+  });
+
+  describe('getExitCode', () => {
+    it('should use the exit code of input errors', () => {
+      expect(getExitCode(new InputRequiredError('missing'))).toBe(
+        EXIT_INPUT_REQUIRED,
+      );
+      expect(
+        getExitCode(
+          new InputRequiredError('confirm', EXIT_CONFIRMATION_REQUIRED),
+        ),
+      ).toBe(EXIT_CONFIRMATION_REQUIRED);
+    });
+
+    it('should exit with 130 after Ctrl-C', () => {
+      expect(getExitCode(new CancelledError())).toBe(EXIT_CANCELLED);
+    });
+
+    it('should default to a generic error code', () => {
+      expect(getExitCode(new Error('boom'))).toBe(EXIT_ERROR);
+    });
+  });
+
+  describe('Confirmations', () => {
+    afterEach(() => {
+      configureInteractivity({});
+    });
+
+    it('should answer plain confirmations with --yes', async () => {
+      configureInteractivity({ yes: true });
+      await expect(confirm('Create a branch?')).resolves.toBe(true);
+    });
+
+    it('should not let --yes answer destructive confirmations', async () => {
+      configureInteractivity({ yes: true });
+      const error = await confirmDestructive('Delete repo?', '--force').catch(
+        (error) => error,
+      );
+      expect(error).toBeInstanceOf(InputRequiredError);
+      expect(error.message).toContain('Re-run with --force');
+      expect(getExitCode(error)).toBe(EXIT_CONFIRMATION_REQUIRED);
+    });
+  });
+});
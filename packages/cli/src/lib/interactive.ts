@@ -0,0 +1,103 @@
+// Exit codes used when the CLI cannot continue without user input
+export const EXIT_ERROR = 1;
+export const EXIT_INPUT_REQUIRED = 2;
+export const EXIT_CONFIRMATION_REQUIRED = 3;
+
+// Exit code after Ctrl-C, as shells report SIGINT
+export const EXIT_CANCELLED = 130;
+
+// Environment variables set by common CI systems
+const CI_ENV_VARS = [
+  'CI',
+  'CONTINUOUS_INTEGRATION',
+  'GITHUB_ACTIONS',
+  'GITLAB_CI',
+  'BUILDKITE',
+  'CIRCLECI',
+  'JENKINS_URL',
+  'TEAMCITY_VERSION',
+  'TF_BUILD',
+  'BITBUCKET_BUILD_NUMBER',
+];
+
+/**
+ * Error raised when a prompt is needed in non-interactive mode
+ */
+export class InputRequiredError extends Error {
+  constructor(
+    message: string,
+    public readonly exitCode: number = EXIT_INPUT_REQUIRED,
+  ) {
+    super(message);
+    this.name = 'InputRequiredError';
+  }
+}
+
+/**
+ * Error raised when the user cancels a running request with Ctrl-C
+ */
+export class CancelledError extends Error {
+  constructor(message: string = 'Cancelled.') {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
+
+let nonInteractive = false;
+let assumeYes = false;
+
+/**
+ * Check if running in a CI environment
+ */
+export function isCI(env: NodeJS.ProcessEnv = process.env): boolean {
+  return CI_ENV_VARS.some((name) => {
+    const value = env[name];
+    return !!value && value !== 'false' && value !== '0';
+  });
+}
+
+/**
+ * Configure prompting from the global CLI flags.
+ * --yes implies --non-interactive; CI and a missing TTY also disable prompts.
+ */
+export function configureInteractivity(options: {
+  nonInteractive?: boolean;
+  yes?: boolean;
+}): void {
+  assumeYes = !!options.yes;
+  nonInteractive =
+    !!options.nonInteractive || assumeYes || isCI() || !process.stdin.isTTY;
+}
+
+/**
+ * Check if prompts may be shown
+ */
+export function isInteractive(): boolean {
+  return !nonInteractive;
+}
+
+/**
+ * Check if confirmations should be answered with yes
+ */
+export function isAssumeYes(): boolean {
+  return assumeYes;
+}
+
+/**
+ * Throw if a prompt would be needed in non-interactive mode
+ */
+export function requireInteractive(what: string, hint: string): void {
+  if (nonInteractive) {
+    throw new InputRequiredError(`${what} requires input. ${hint}`);
+  }
+}
+
+/**
+ * Get the process exit code for an error
+ */
+export function getExitCode(error: unknown): number {
+  if (error instanceof CancelledError) {
+    return EXIT_CANCELLED;
+  }
+  return error instanceof InputRequiredError ? error.exitCode : EXIT_ERROR;
+}
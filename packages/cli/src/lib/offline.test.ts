@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+import { getCommitStyle } from './commit-style.js';
+import {
+  buildOfflineMessage,
+  inferScope,
+  inferType,
+  parseChangedFiles,
+  summarizeChanges,
+  type ChangedFile,
+} from './offline.js';
+import { DEFAULT_SETTINGS } from './settings.js';
+
+function file(
+  path: string,
+  change: ChangedFile['change'] = 'modified',
+  oldPath?: string,
+): ChangedFile {
+  return { path, oldPath, change, additions: 1, deletions: 1, binary: false };
+}
+
+const TYPES = DEFAULT_SETTINGS.allowedTypes;
+
+describe('Offline Module', () => {
+  describe('parseChangedFiles', () => {
+    it('should read statuses, renames and line counts from -z output', () => {
+      const nameStatus = [
+        'M',
+        'src/app.ts',
+        'A',
+        'logo.png',
+        'R087',
+        'src/old.ts',
+        'src/new.ts',
+        'D',
+        'gone.txt',
+        '',
+      ].join('\0');
+      const numstat = [
+        '3\t1\tsrc/app.ts',
+        '-\t-\tlogo.png',
+        '2\t2\t',
+        'src/old.ts',
+        'src/new.ts',
+        '0\t4\tgone.txt',
+        '',
+      ].join('\0');
+      expect(parseChangedFiles(nameStatus, numstat)).toEqual([
+        {
+          path: 'src/app.ts',
+          change: 'modified',
+          additions: 3,
+          deletions: 1,
+          binary: false,
+        },
+        {
+          path: 'logo.png',
+          change: 'added',
+          additions: 0,
+          deletions: 0,
+          binary: true,
+        },
+        {
+          path: 'src/new.ts',
+          oldPath: 'src/old.ts',
+          change: 'renamed',
+          additions: 2,
+          deletions: 2,
+          binary: false,
+        },
+        {
+          path: 'gone.txt',
+          change: 'deleted',
+          additions: 0,
+          deletions: 4,
+          binary: false,
+        },
+      ]);
+    });
+  });
+
+  describe('inferType', () => {
+    it('should take the type from the kinds of files', () => {
+      expect(inferType([file('README.md')], TYPES)).toBe('docs');
+      expect(inferType([file('src/app.test.ts')], TYPES)).toBe('test');
+      expect(inferType([file('.github/workflows/ci.yml')], TYPES)).toBe('ci');
+      expect(inferType([file('pnpm-lock.yaml')], TYPES)).toBe('build');
+      expect(inferType([file('Dockerfile'), file('docs/a.md')], TYPES)).toBe(
+        'build',
+      );
+    });
+
+    it('should let code decide when there is any', () => {
+      expect(
+        inferType([file('src/parser.ts', 'added'), file('README.md')], TYPES),
+      ).toBe('feat');
+      expect(inferType([file('src/b.ts', 'renamed', 'src/a.ts')], TYPES)).toBe(
+        'refactor',
+      );
+      expect(inferType([file('src/app.ts')], TYPES)).toBe('chore');
+    });
+
+    it('should stay within the allowed types', () => {
+      expect(inferType([file('README.md')], ['feat', 'fix'])).toBe('feat');
+    });
+  });
+
+  describe('inferScope', () => {
+    it('should use the deepest common directory that is not generic', () => {
+      expect(
+        inferScope(
+          [file('packages/cli/src/a.ts'), file('packages/cli/src/lib/b.ts')],
+          [],
+        ),
+      ).toBe('cli');
+      expect(inferScope([file('src/a.ts'), file('README.md')], [])).toBe(
+        undefined,
+      );
+      expect(inferScope([file('package.json'), file('yarn.lock')], [])).toBe(
+        'deps',
+      );
+    });
+
+    it('should drop scopes that are not allowed', () => {
+      expect(inferScope([file('api/a.ts')], ['web'])).toBeUndefined();
+    });
+  });
+
+  describe('summarizeChanges', () => {
+    it('should name a few files and count the rest', () => {
+      expect(
+        summarizeChanges([
+          file('src/parser.ts', 'added'),
+          file('a.ts'),
+          file('b.ts'),
+          file('c.ts'),
+        ]),
+      ).toBe('add parser.ts and update 3 files');
+      expect(summarizeChanges([file('src/b.ts', 'renamed', 'src/a.ts')])).toBe(
+        'rename a.ts to b.ts',
+      );
+    });
+
+    it('should fall back to counts when names get too long', () => {
+      const long = (name: string) => `${name}-${'x'.repeat(30)}.ts`;
+      expect(
+        summarizeChanges([
+          file(long('a'), 'added'),
+          file(long('b'), 'deleted'),
+        ]),
+      ).toBe('add 1 file and remove 1 file');
+    });
+  });
+
+  describe('buildOfflineMessage', () => {
+    const context = { settings: DEFAULT_SETTINGS };
+
+    it('should follow the commit style', () => {
+      const files = ['a', 'b', 'c', 'd'].map((name) => file(`${name}.ts`));
+      expect(
+        buildOfflineMessage(files, getCommitStyle('conventional'), context),
+      ).toMatch(/^chore: update 4 files\n\n- update a.ts \(\+1 -1\)\n/);
+      expect(
+        buildOfflineMessage([file('a.ts')], getCommitStyle('gitmoji'), context),
+      ).toBe('🔧 update a.ts');
+      expect(
+        buildOfflineMessage([file('a.ts')], getCommitStyle('jira'), {
+          ...context,
+          ticket: 'PROJ-7',
+        }),
+      ).toBe('PROJ-7: Update a.ts');
+    });
+
+    it('should add a scope and list binary files', () => {
+      expect(
+        buildOfflineMessage(
+          [
+            file('web/src/app.ts', 'added'),
+            { ...file('web/logo.png', 'added'), binary: true },
+          ],
+          getCommitStyle('conventional'),
+          context,
+        ),
+      ).toBe(
+        'feat(web): add app.ts and logo.png\n\n- add web/src/app.ts (+1 -1)\n- add web/logo.png (binary)',
+      );
+    });
+  });
+});
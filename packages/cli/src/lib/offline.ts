@@ -0,0 +1,312 @@
+import path from 'path';
+import {
+  checkCommitMessage,
+  type CommitStyleContext,
+  type CommitStyleDefinition,
+} from './commit-style.js';
+import type { FileChange } from './diff.js';
+
+// Longest subject before names give way to counts
+const MAX_SUBJECT_LENGTH = 72;
+
+// Files listed in the message body
+const MAX_BODY_FILES = 20;
+
+/**
+ * One staged file, from `git diff --name-status` and `--numstat`
+ */
+export interface ChangedFile {
+  path: string;
+  oldPath?: string;
+  change: FileChange;
+  additions: number;
+  deletions: number;
+  binary: boolean;
+}
+
+// Kinds of files that decide the commit type, checked in this order
+const PATH_KINDS: { kind: string; pattern: RegExp }[] = [
+  {
+    kind: 'ci',
+    pattern:
+      /^(\.github\/workflows\/|\.circleci\/|\.gitlab-ci\.yml$|\.travis\.yml$|azure-pipelines\.yml$|Jenkinsfile$|\.buildkite\/)/,
+  },
+  {
+    kind: 'deps',
+    pattern:
+      /(^|\/)(package(-lock)?\.json|npm-shrinkwrap\.json|pnpm-lock\.yaml|yarn\.lock|bun\.lockb|Cargo\.(toml|lock)|go\.(mod|sum)|Gemfile(\.lock)?|composer\.(json|lock)|poetry\.lock|Pipfile(\.lock)?|requirements[\w.-]*\.txt)$/,
+  },
+  {
+    kind: 'test',
+    pattern: /(\.(test|spec)\.\w+$|(^|\/)(__tests__|tests?|spec)\/)/,
+  },
+  {
+    kind: 'docs',
+    pattern:
+      /(\.(md|mdx|rst|adoc)$|(^|\/)docs?\/|(^|\/)(LICENSE|CHANGELOG|AUTHORS)[^/]*$)/,
+  },
+  {
+    kind: 'build',
+    pattern:
+      /(^|\/)(Dockerfile[^/]*|docker-compose[\w.-]*\.ya?ml|Makefile|CMakeLists\.txt|tsconfig[\w.-]*\.json|(webpack|rollup|vite|esbuild|babel)\.config\.\w+|build\.gradle(\.kts)?|pom\.xml)$/,
+  },
+];
+
+// Which kind sets the type when only non-code files changed
+const KIND_PRIORITY = ['ci', 'deps', 'build', 'test', 'docs'];
+
+// Directory names too generic to be a scope
+const GENERIC_DIRS = new Set([
+  'src',
+  'lib',
+  'app',
+  'source',
+  'packages',
+  'internal',
+  'pkg',
+  'test',
+  'tests',
+  '__tests__',
+  'docs',
+  'doc',
+  'workflows',
+]);
+
+/**
+ * Parse `git diff --name-status -z` output
+ */
+export function parseNameStatus(
+  output: string,
+): Pick<ChangedFile, 'path' | 'oldPath' | 'change'>[] {
+  const fields = output.split('\0').filter(Boolean);
+  const files: Pick<ChangedFile, 'path' | 'oldPath' | 'change'>[] = [];
+  for (let i = 0; i < fields.length; ) {
+    const status = fields[i];
+    if (status.startsWith('R')) {
+      files.push({
+        oldPath: fields[i + 1],
+        path: fields[i + 2],
+        change: 'renamed',
+      });
+      i += 3;
+    } else if (status.startsWith('C')) {
+      // A copy is a new file as far as the message goes
+      files.push({ path: fields[i + 2], change: 'added' });
+      i += 3;
+    } else {
+      const change: FileChange =
+        status === 'A' ? 'added' : status === 'D' ? 'deleted' : 'modified';
+      files.push({ path: fields[i + 1], change });
+      i += 2;
+    }
+  }
+  return files;
+}
+
+/**
+ * Parse `git diff --numstat -z` output into line counts by path.
+ * Binary files have no counts.
+ */
+export function parseNumstat(
+  output: string,
+): Map<string, Pick<ChangedFile, 'additions' | 'deletions' | 'binary'>> {
+  const stats = new Map<
+    string,
+    Pick<ChangedFile, 'additions' | 'deletions' | 'binary'>
+  >();
+  const fields = output.split('\0');
+  for (let i = 0; i < fields.length; i++) {
+    const match = /^(-|\d+)\t(-|\d+)\t(.*)$/s.exec(fields[i]);
+    if (!match) {
+      continue;
+    }
+    let file = match[3];
+    // Renames leave the path empty and give old and new path next
+    if (!file) {
+      file = fields[i + 2];
+      i += 2;
+    }
+    stats.set(file, {
+      additions: match[1] === '-' ? 0 : Number(match[1]),
+      deletions: match[2] === '-' ? 0 : Number(match[2]),
+      binary: match[1] === '-',
+    });
+  }
+  return stats;
+}
+
+/**
+ * Combine --name-status and --numstat output
+ */
+export function parseChangedFiles(
+  nameStatus: string,
+  numstat: string,
+): ChangedFile[] {
+  const stats = parseNumstat(numstat);
+  return parseNameStatus(nameStatus).map((file) => ({
+    ...file,
+    ...(stats.get(file.path) ?? { additions: 0, deletions: 0, binary: false }),
+  }));
+}
+
+function pathKind(file: string): string {
+  return PATH_KINDS.find(({ pattern }) => pattern.test(file))?.kind ?? 'code';
+}
+
+/**
+ * Commit type from the kinds of files changed. Code decides when there
+ * is any; tests and docs next to it do not change the type.
+ */
+export function inferType(
+  files: ChangedFile[],
+  allowedTypes: string[],
+): string {
+  const kinds = new Set(files.map((file) => pathKind(file.path)));
+  const code = files.filter((file) => pathKind(file.path) === 'code');
+  let type: string;
+  if (code.length > 0) {
+    type = code.some((file) => file.change === 'added')
+      ? 'feat'
+      : code.every((file) => file.change !== 'modified')
+        ? 'refactor'
+        : 'chore';
+  } else {
+    const kind = KIND_PRIORITY.find((candidate) => kinds.has(candidate))!;
+    type = kind === 'deps' ? 'build' : kind;
+  }
+  if (allowedTypes.includes(type)) {
+    return type;
+  }
+  return allowedTypes.includes('chore') ? 'chore' : allowedTypes[0];
+}
+
+/**
+ * Scope from the deepest directory shared by all files, skipping generic
+ * names like src. Dependency updates get "deps".
+ */
+export function inferScope(
+  files: ChangedFile[],
+  allowedScopes: string[],
+): string | undefined {
+  let scope: string | undefined;
+  if (
+    files.length > 0 &&
+    files.every((file) => pathKind(file.path) === 'deps')
+  ) {
+    scope = 'deps';
+  } else {
+    const dirs = files.map((file) =>
+      path.posix
+        .dirname(file.path)
+        .split('/')
+        .filter((part) => part !== '.'),
+    );
+    const common: string[] = [];
+    for (let i = 0; dirs.every((dir) => i < dir.length); i++) {
+      if (dirs.some((dir) => dir[i] !== dirs[0][i])) {
+        break;
+      }
+      common.push(dirs[0][i]);
+    }
+    scope = common
+      .filter((part) => !GENERIC_DIRS.has(part) && !part.startsWith('.'))
+      .pop()
+      ?.toLowerCase();
+  }
+  if (scope && allowedScopes.length > 0 && !allowedScopes.includes(scope)) {
+    return undefined;
+  }
+  return scope;
+}
+
+// Verb and order of each kind of change in the summary
+const ACTIONS: { change: FileChange; verb: string }[] = [
+  { change: 'added', verb: 'add' },
+  { change: 'modified', verb: 'update' },
+  { change: 'renamed', verb: 'rename' },
+  { change: 'deleted', verb: 'remove' },
+];
+
+function joinList(items: string[]): string {
+  return items.length <= 1
+    ? (items[0] ?? '')
+    : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+function countFiles(count: number): string {
+  return `${count} file${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Summary of the changes, e.g. "add parser.ts and update 3 files"
+ */
+export function summarizeChanges(files: ChangedFile[]): string {
+  const groups = ACTIONS.map(({ change, verb }) => ({
+    verb,
+    files: files.filter((file) => file.change === change),
+  })).filter((group) => group.files.length > 0);
+  if (groups.length === 0) {
+    return 'update files';
+  }
+
+  const named = joinList(
+    groups.map(({ verb, files: group }) =>
+      verb === 'rename' && group.length === 1
+        ? `rename ${path.posix.basename(group[0].oldPath ?? '')} to ${path.posix.basename(group[0].path)}`
+        : group.length <= 2
+          ? `${verb} ${joinList(group.map((file) => path.posix.basename(file.path)))}`
+          : `${verb} ${countFiles(group.length)}`,
+    ),
+  );
+  if (named.length <= MAX_SUBJECT_LENGTH) {
+    return named;
+  }
+  return joinList(
+    groups.map(
+      ({ verb, files: group }) => `${verb} ${countFiles(group.length)}`,
+    ),
+  );
+}
+
+function describeFile(file: ChangedFile): string {
+  const verb = ACTIONS.find(({ change }) => change === file.change)!.verb;
+  const name = file.oldPath ? `${file.oldPath} -> ${file.path}` : file.path;
+  const lines = file.binary
+    ? 'binary'
+    : [
+        file.additions > 0 && `+${file.additions}`,
+        file.deletions > 0 && `-${file.deletions}`,
+      ]
+        .filter(Boolean)
+        .join(' ');
+  return `- ${verb} ${name}${lines ? ` (${lines})` : ''}`;
+}
+
+/**
+ * Build a commit message from the file list alone, without a model.
+ * The header follows the commit style; the body lists the files.
+ */
+export function buildOfflineMessage(
+  files: ChangedFile[],
+  style: CommitStyleDefinition,
+  context: CommitStyleContext,
+): string {
+  const { settings } = context;
+  const summary = summarizeChanges(files);
+  let header: string;
+  if (style.id === 'conventional' || style.id === 'gitmoji') {
+    const type = inferType(files, settings.allowedTypes);
+    const scope = inferScope(files, settings.allowedScopes);
+    header = `${type}${scope ? `(${scope})` : ''}: ${summary}`;
+  } else {
+    header = summary.charAt(0).toUpperCase() + summary.slice(1);
+  }
+
+  const listed = files.slice(0, MAX_BODY_FILES).map(describeFile);
+  if (files.length > MAX_BODY_FILES) {
+    listed.push(`- and ${countFiles(files.length - MAX_BODY_FILES)} more`);
+  }
+  const message =
+    files.length > 1 ? `${header}\n\n${listed.join('\n')}` : header;
+  return checkCommitMessage(message, style, context).message;
+}
@@ -0,0 +1,75 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { buildPrPrompt, findPrTemplate, parsePrResponse } from './pr.js';
+
+const DIFF = `diff --git a/src/app.ts b/src/app.ts
+index 1111111..2222222 100644
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -1,2 +1,3 @@
+ const a = 1;
++const b = 2;
+`;
+
+describe('Pull Requests', () => {
+  describe('findPrTemplate', () => {
+    let root: string;
+
+    beforeEach(() => {
+      root = fs.mkdtempSync(path.join(os.tmpdir(), 'git-ai-pr-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should return undefined without a template', () => {
+      expect(findPrTemplate(root)).toBeUndefined();
+    });
+
+    it('should read the template from .github', () => {
+      fs.mkdirSync(path.join(root, '.github'));
+      fs.writeFileSync(
+        path.join(root, '.github', 'pull_request_template.md'),
+        '## What\n\n## Why\n',
+      );
+      expect(findPrTemplate(root)).toBe('## What\n\n## Why\n');
+    });
+  });
+
+  describe('buildPrPrompt', () => {
+    it('should include the commits, the diff and the default sections', () => {
+      const prompt = buildPrPrompt(DIFF, ['feat: add b\n\nDetails'], 2000);
+      expect(prompt).toContain('- feat: add b\n  Details');
+      expect(prompt).toContain('+const b = 2;');
+      expect(prompt).toContain('"## Summary"');
+      expect(prompt).toContain('"## Testing"');
+    });
+
+    it('should ask for the template when there is one', () => {
+      const prompt = buildPrPrompt(DIFF, ['feat: add b'], 2000, '## What\n');
+      expect(prompt).toContain('Fill in this pull request template');
+      expect(prompt).toContain('## What');
+      expect(prompt).not.toContain('"## Summary"');
+    });
+  });
+
+  describe('parsePrResponse', () => {
+    it('should split the title from the body', () => {
+      expect(
+        parsePrResponse('Add b constant\n\n## Summary\nAdds b.\n'),
+      ).toEqual({ title: 'Add b constant', body: '## Summary\nAdds b.' });
+    });
+
+    it('should strip labels and Markdown around the title', () => {
+      expect(parsePrResponse('Title: **Add b**\n\nBody').title).toBe('Add b');
+      expect(parsePrResponse('# Add b\n\nBody').title).toBe('Add b');
+    });
+
+    it('should reject an empty response', () => {
+      expect(() => parsePrResponse('  ')).toThrow('no pull request title');
+    });
+  });
+});
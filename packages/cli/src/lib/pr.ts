@@ -0,0 +1,144 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  getDiffTokenBudget,
+  requestCompletion,
+  resolveGenerationSettings,
+} from './ai.js';
+import type { AiProvider } from './config.js';
+import { cleanMessage } from './commit-style.js';
+import { condenseDiff, estimateTokens } from './diff.js';
+import { withProgress } from './progress.js';
+import { getProvider } from './providers/registry.js';
+import { redactForAi } from './redact.js';
+import type { GenerationSettings } from './providers/types.js';
+
+// Response length for a title and a structured description
+const PR_MAX_TOKENS = 1000;
+
+/**
+ * Where GitHub looks for a pull request template, in order
+ */
+export const PR_TEMPLATE_PATHS = [
+  '.github/pull_request_template.md',
+  '.github/PULL_REQUEST_TEMPLATE.md',
+  'pull_request_template.md',
+  'PULL_REQUEST_TEMPLATE.md',
+  'docs/pull_request_template.md',
+  'docs/PULL_REQUEST_TEMPLATE.md',
+];
+
+export const PR_EDIT_HELP = `
+<!-- The first line is the title, the rest is the description. -->
+<!-- An empty file cancels the pull request. -->
+`;
+
+export interface PullRequestDraft {
+  title: string;
+  body: string;
+}
+
+export interface PullRequestGenerationOptions extends GenerationSettings {
+  /** Pull request template to fill in */
+  template?: string;
+  /** Extra instructions typed by the user when regenerating */
+  guidance?: string;
+}
+
+/**
+ * Read the repository's pull request template, if any
+ */
+export function findPrTemplate(root: string): string | undefined {
+  for (const candidate of PR_TEMPLATE_PATHS) {
+    const file = path.join(root, candidate);
+    if (fs.existsSync(file)) {
+      return fs.readFileSync(file, 'utf-8');
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Build the prompt for a pull request title and description. The diff
+ * gets whatever budget the commit messages leave.
+ */
+export function buildPrPrompt(
+  diff: string,
+  commits: string[],
+  budget: number,
+  template?: string,
+): string {
+  const format = template
+    ? `Fill in this pull request template, keeping its headings and checkboxes. Leave HTML comments out:\n${template.trim()}`
+    : 'Use these Markdown sections: "## Summary" (why the change is needed, in a few sentences), "## Changes" (a bullet list) and "## Testing" (how it was tested or should be tested).';
+  const log = commits.map((message) => `- ${message.replace(/\n+/g, '\n  ')}`);
+  const diffBudget = Math.max(budget - estimateTokens(log.join('\n')), 500);
+
+  return `You are an expert developer. Write a pull request title and description for the following branch. Output the title on the first line, then a blank line, then the description. Output nothing else.
+${format}
+
+Commits:
+${log.join('\n')}
+
+Diff:
+${condenseDiff(diff, diffBudget)}`;
+}
+
+/**
+ * Split the model's answer into title and body
+ */
+export function parsePrResponse(response: string): PullRequestDraft {
+  const [first, ...rest] = cleanMessage(response).split('\n');
+  const title = first
+    .replace(/^#+\s*/, '')
+    .replace(/^(pr |pull request )?title\s*:\s*/i, '')
+    .replace(/^\*\*(.*)\*\*$/, '$1')
+    .trim();
+  if (!title) {
+    throw new Error('The AI response has no pull request title.');
+  }
+  const body = rest
+    .join('\n')
+    .replace(/^\s*(description|body)\s*:\s*/i, '')
+    .trim();
+  return { title, body };
+}
+
+/**
+ * Generate a pull request title and description with the configured
+ * AI provider
+ */
+export async function generatePullRequest(
+  diff: string,
+  commits: string[],
+  provider: AiProvider,
+  apiKey: string,
+  options: PullRequestGenerationOptions = {},
+): Promise<PullRequestDraft> {
+  const { template, guidance, ...overrides } = options;
+  const definition = getProvider(provider);
+  const generation = resolveGenerationSettings(provider, overrides);
+  const budget = getDiffTokenBudget(definition, generation);
+
+  const prompt = [
+    buildPrPrompt(redactForAi(diff), commits, budget, template),
+    guidance && `Additional instructions: ${guidance}`,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+  const response = await withProgress(
+    'Generating pull request with AI...',
+    (progress) =>
+      requestCompletion(
+        definition,
+        {
+          ...generation,
+          maxTokens: Math.max(generation.maxTokens ?? 0, PR_MAX_TOKENS),
+        },
+        apiKey,
+        prompt,
+        progress,
+      ),
+  );
+  return parsePrResponse(response);
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { findBoundProfile, isProfileAccount, secretAccount } from './config.js';
+import { validateProfileName } from './profiles.js';
+
+describe('Profiles', () => {
+  describe('validateProfileName', () => {
+    it('should accept simple names', () => {
+      expect(() => validateProfileName('work-gateway')).not.toThrow();
+      expect(() => validateProfileName('personal_2')).not.toThrow();
+    });
+
+    it('should reject names with spaces or separators', () => {
+      expect(() => validateProfileName('my profile')).toThrow(
+        'Invalid profile name',
+      );
+      expect(() => validateProfileName('a:b')).toThrow('Invalid profile name');
+    });
+  });
+
+  describe('findBoundProfile', () => {
+    const config = {
+      profileBindings: {
+        '/home/me/work': 'work',
+        '/home/me/work/oss': 'personal',
+      },
+    };
+
+    it('should use the closest bound parent directory', () => {
+      expect(findBoundProfile(config, '/home/me/work/app')).toEqual({
+        dir: '/home/me/work',
+        profile: 'work',
+      });
+      expect(findBoundProfile(config, '/home/me/work/oss/lib')?.profile).toBe(
+        'personal',
+      );
+    });
+
+    it('should not match sibling directories with a shared prefix', () => {
+      expect(findBoundProfile(config, '/home/me/workshop')).toBeUndefined();
+    });
+  });
+
+  describe('secretAccount', () => {
+    it('should keep default profile accounts unchanged', () => {
+      expect(secretAccount('openai', 'default')).toBe('openai');
+      expect(secretAccount('openai', 'work')).toBe('work:openai');
+    });
+
+    it('should tell which accounts belong to a profile', () => {
+      const accounts = [
+        'openai',
+        'anthropic',
+        'work:openai',
+        'workshop:gemini',
+      ];
+      expect(accounts.filter((a) => isProfileAccount(a, 'default'))).toEqual([
+        'openai',
+        'anthropic',
+      ]);
+      expect(accounts.filter((a) => isProfileAccount(a, 'work'))).toEqual([
+        'work:openai',
+      ]);
+    });
+  });
+});
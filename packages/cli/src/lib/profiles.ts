@@ -0,0 +1,137 @@
+import path from 'path';
+import {
+  DEFAULT_PROFILE,
+  deleteStoredApiKeys,
+  getConfig,
+  getProfileConfig,
+  hasProfile,
+  resolveActiveProfile,
+  saveConfig,
+  type AiProvider,
+} from './config.js';
+
+export interface ProfileSummary {
+  name: string;
+  provider?: AiProvider;
+  active: boolean;
+  // Directories bound to this profile
+  directories: string[];
+}
+
+/**
+ * Check that a profile name is usable
+ */
+export function validateProfileName(name: string): void {
+  if (!/^[A-Za-z0-9_.-]+$/.test(name)) {
+    throw new Error(
+      `Invalid profile name "${name}". Use letters, numbers, ".", "_" or "-".`,
+    );
+  }
+}
+
+/**
+ * Throw if a profile does not exist
+ */
+function requireProfile(name: string): void {
+  if (!hasProfile(name)) {
+    throw new Error(`Unknown profile "${name}". Run: git-ai profile list`);
+  }
+}
+
+/**
+ * List the default profile and all named profiles
+ */
+export function listProfiles(): ProfileSummary[] {
+  const config = getConfig();
+  const active = resolveActiveProfile().name;
+  const names = [DEFAULT_PROFILE, ...Object.keys(config.profiles ?? {})];
+  const bindings = Object.entries(config.profileBindings ?? {});
+
+  return names.map((name) => ({
+    name,
+    provider: getProfileConfig(name, config).aiProvider,
+    active: name === active,
+    directories: bindings
+      .filter(([, profile]) => profile === name)
+      .map(([dir]) => dir),
+  }));
+}
+
+/**
+ * Create an empty named profile
+ */
+export function createProfile(name: string): void {
+  validateProfileName(name);
+  const config = getConfig();
+  if (hasProfile(name, config)) {
+    throw new Error(`Profile "${name}" already exists.`);
+  }
+  config.profiles = { ...config.profiles, [name]: {} };
+  saveConfig(config);
+}
+
+/**
+ * Make a profile active everywhere without a directory binding
+ */
+export function useProfile(name: string): void {
+  requireProfile(name);
+  const config = getConfig();
+  if (name === DEFAULT_PROFILE) {
+    delete config.activeProfile;
+  } else {
+    config.activeProfile = name;
+  }
+  saveConfig(config);
+}
+
+/**
+ * Bind a directory tree to a profile
+ */
+export function bindProfile(name: string, dir: string): string {
+  requireProfile(name);
+  const config = getConfig();
+  const resolved = path.resolve(dir);
+  config.profileBindings = { ...config.profileBindings, [resolved]: name };
+  saveConfig(config);
+  return resolved;
+}
+
+/**
+ * Remove the profile binding of a directory
+ */
+export function unbindDirectory(dir: string): boolean {
+  const config = getConfig();
+  const resolved = path.resolve(dir);
+  if (!config.profileBindings?.[resolved]) {
+    return false;
+  }
+  delete config.profileBindings[resolved];
+  saveConfig(config);
+  return true;
+}
+
+/**
+ * Remove a named profile, its stored keys and its directory bindings
+ */
+export async function removeProfile(name: string): Promise<void> {
+  if (name === DEFAULT_PROFILE) {
+    throw new Error(
+      'The default profile cannot be removed. Use: git-ai logout',
+    );
+  }
+  requireProfile(name);
+
+  await deleteStoredApiKeys(name);
+
+  const config = getConfig();
+  delete config.profiles?.[name];
+  for (const [dir, profile] of Object.entries(config.profileBindings ?? {})) {
+    if (profile === name) {
+      delete config.profileBindings?.[dir];
+    }
+  }
+  if (config.activeProfile === name) {
+    delete config.activeProfile;
+  }
+  saveConfig(config);
+}
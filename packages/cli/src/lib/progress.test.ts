@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CancelledError } from './interactive.js';
+import { previewText, withProgress } from './progress.js';
+
+describe('Progress', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('previewText', () => {
+    it('should show the end of the last line', () => {
+      expect(previewText('feat: add\n\n- stream  tokens\n', 40)).toBe(
+        '- stream tokens',
+      );
+      expect(previewText('feat: add streaming output', 10)).toBe('…ng output');
+      expect(previewText('feat', 0)).toBe('');
+    });
+  });
+
+  describe('withProgress', () => {
+    it('should print the label once without a terminal', async () => {
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+      await expect(
+        withProgress('Working...', async (progress) => {
+          expect(progress.startStream).toBeUndefined();
+          return 'done';
+        }),
+      ).resolves.toBe('done');
+      expect(log).toHaveBeenCalledTimes(1);
+      expect(log.mock.calls[0][0]).toContain('Working...');
+    });
+
+    it('should abort the requests on Ctrl-C', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const listeners = process.listenerCount('SIGINT');
+      const result = withProgress('Working...', (progress) => {
+        const aborted = new Promise<never>((_, reject) =>
+          progress.signal.addEventListener('abort', () =>
+            reject(new Error('canceled')),
+          ),
+        );
+        process.emit('SIGINT');
+        return aborted;
+      });
+
+      await expect(result).rejects.toBeInstanceOf(CancelledError);
+      expect(process.listenerCount('SIGINT')).toBe(listeners);
+    });
+
+    it('should abort the requests after the timeout', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const result = withProgress(
+        'Working...',
+        (progress) =>
+          new Promise<never>((_, reject) =>
+            progress.signal.addEventListener('abort', () =>
+              reject(new Error('canceled')),
+            ),
+          ),
+        10,
+      );
+
+      await expect(result).rejects.toThrow('No answer within 0.01s.');
+    });
+  });
+});
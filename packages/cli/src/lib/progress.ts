@@ -0,0 +1,149 @@
+import chalk from 'chalk';
+import { CancelledError } from './interactive.js';
+
+// Spinner frames and how often they change (ms)
+const FRAMES = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
+const FRAME_INTERVAL = 80;
+
+/**
+ * Cancellation and live output for the requests of one task
+ */
+export interface RequestProgress {
+  /** Aborted when the user presses Ctrl-C */
+  signal: AbortSignal;
+  /** Start showing a request's streamed text (unset without a terminal) */
+  startStream?: () => (text: string) => void;
+}
+
+/**
+ * A status line with a spinner, the elapsed time and streamed text
+ */
+export interface Spinner {
+  /** Show the latest text of the running request */
+  update(text: string): void;
+  /** Clear the line and return the seconds elapsed */
+  stop(): number;
+}
+
+/**
+ * The part of streamed text that fits after the label: the end of its
+ * last line, since that is where new tokens appear
+ */
+export function previewText(text: string, width: number): string {
+  const line = text.trim().split('\n').pop()?.replace(/\s+/g, ' ') ?? '';
+  if (width <= 1) {
+    return '';
+  }
+  return line.length <= width
+    ? line
+    : `…${line.slice(line.length - width + 1)}`;
+}
+
+/**
+ * Start a spinner on a terminal. Lines logged while it runs are
+ * printed above it.
+ */
+export function startSpinner(
+  label: string,
+  stream: NodeJS.WriteStream = process.stdout,
+): Spinner {
+  const started = Date.now();
+  const log = console.log;
+  let frame = 0;
+  let preview = '';
+
+  const clear = () => stream.write('\r\x1b[K');
+  const render = () => {
+    const spin = FRAMES[frame % FRAMES.length];
+    const time = `${((Date.now() - started) / 1000).toFixed(1)}s`;
+    const room = (stream.columns || 80) - `${spin} ${label} ${time}  `.length;
+    const text = previewText(preview, room);
+    clear();
+    stream.write(
+      `${chalk.cyan(spin)} ${chalk.yellow(label)} ${chalk.gray(time)}${text ? `  ${text}` : ''}`,
+    );
+  };
+
+  console.log = (...args: unknown[]) => {
+    clear();
+    log(...args);
+    render();
+  };
+  const timer = setInterval(() => {
+    frame++;
+    render();
+  }, FRAME_INTERVAL);
+  render();
+
+  return {
+    update(text) {
+      preview = text;
+      render();
+    },
+    stop() {
+      clearInterval(timer);
+      clear();
+      console.log = log;
+      return (Date.now() - started) / 1000;
+    },
+  };
+}
+
+/**
+ * Run the requests of a task behind a spinner. Ctrl-C aborts them and
+ * throws a CancelledError; without a terminal the label is printed once.
+ * A timeout (ms) aborts them too, with an error saying so.
+ */
+export async function withProgress<T>(
+  label: string,
+  task: (progress: RequestProgress) => Promise<T>,
+  timeout?: number,
+): Promise<T> {
+  const controller = new AbortController();
+  const cancel = () => controller.abort();
+  process.once('SIGINT', cancel);
+  let timedOut = false;
+  const timer =
+    timeout === undefined
+      ? undefined
+      : setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeout);
+
+  const spinner = process.stdout.isTTY ? startSpinner(label) : undefined;
+  if (!spinner) {
+    console.log(chalk.yellow(label));
+  }
+  const startStream = () => {
+    let text = '';
+    return (piece: string) => {
+      text += piece;
+      spinner?.update(text);
+    };
+  };
+
+  try {
+    const result = await task({
+      signal: controller.signal,
+      startStream: spinner && startStream,
+    });
+    if (spinner) {
+      const seconds = spinner.stop();
+      console.log(chalk.yellow(label) + chalk.gray(` ${seconds.toFixed(1)}s`));
+    }
+    return result;
+  } catch (error) {
+    spinner?.stop();
+    if (timedOut) {
+      throw new Error(`No answer within ${timeout! / 1000}s.`);
+    }
+    if (controller.signal.aborted) {
+      throw new CancelledError();
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    process.removeListener('SIGINT', cancel);
+  }
+}
@@ -0,0 +1,124 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { findProjectConfig, pickProjectSettings } from './project-config.js';
+
+describe('Project Config', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'git-ai-project-'));
+    fs.mkdirSync(path.join(root, '.git'));
+    fs.mkdirSync(path.join(root, 'packages', 'app'), { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('findProjectConfig', () => {
+    it('should find .git-ai.json by walking up to the git root', () => {
+      fs.writeFileSync(
+        path.join(root, '.git-ai.json'),
+        JSON.stringify({ commitStyle: 'freeform', defaultBranch: 'develop' }),
+      );
+
+      const found = findProjectConfig(path.join(root, 'packages', 'app'));
+      expect(found?.path).toBe(path.join(root, '.git-ai.json'));
+      expect(found?.settings).toEqual({
+        commitStyle: 'freeform',
+        defaultBranch: 'develop',
+      });
+    });
+
+    it('should read the git-ai key from package.json', () => {
+      fs.writeFileSync(
+        path.join(root, 'packages', 'app', 'package.json'),
+        JSON.stringify({ name: 'app', 'git-ai': { allowedScopes: ['app'] } }),
+      );
+
+      const found = findProjectConfig(path.join(root, 'packages', 'app'));
+      expect(found?.path).toContain('package.json#git-ai');
+      expect(found?.settings.allowedScopes).toEqual(['app']);
+    });
+
+    it('should skip package.json without a git-ai key', () => {
+      fs.writeFileSync(
+        path.join(root, 'packages', 'app', 'package.json'),
+        JSON.stringify({ name: 'app' }),
+      );
+      fs.writeFileSync(
+        path.join(root, '.git-ai.json'),
+        JSON.stringify({ ignore: ['*.lock'] }),
+      );
+
+      const found = findProjectConfig(path.join(root, 'packages', 'app'));
+      expect(found?.settings.ignore).toEqual(['*.lock']);
+    });
+
+    it('should not look above the git root', () => {
+      const repo = path.join(root, 'packages', 'app');
+      fs.mkdirSync(path.join(repo, '.git'));
+      fs.writeFileSync(
+        path.join(root, '.git-ai.json'),
+        JSON.stringify({ commitStyle: 'freeform' }),
+      );
+
+      expect(findProjectConfig(repo)).toBeUndefined();
+    });
+
+    it('should not let a project file loosen the scan, redaction or providers', () => {
+      fs.writeFileSync(
+        path.join(root, '.git-ai.json'),
+        JSON.stringify({
+          redactSecrets: false,
+          redactEmails: false,
+          secretAllowlist: ['**'],
+          maxFileSize: '10GB',
+          redactPatterns: ['internal-\\d+'],
+          redactPaths: ['secrets/**'],
+          fallbackProviders: ['openai', 'anthropic'],
+        }),
+      );
+
+      expect(findProjectConfig(root)?.settings).toEqual({
+        redactPatterns: ['internal-\\d+'],
+        redactPaths: ['secrets/**'],
+      });
+    });
+
+    it('should not let a project file change the cache or billing', () => {
+      fs.writeFileSync(
+        path.join(root, '.git-ai.json'),
+        JSON.stringify({
+          cache: false,
+          cacheTtl: '365d',
+          cacheMaxSize: '1GB',
+          usageLog: false,
+          prices: { 'gpt-4o-mini': { input: 0, output: 0 } },
+          monthlyBudget: 0,
+          budgetAction: 'warn',
+          commitStyle: 'freeform',
+        }),
+      );
+
+      expect(findProjectConfig(root)?.settings).toEqual({
+        commitStyle: 'freeform',
+      });
+    });
+
+    it('should report invalid JSON', () => {
+      fs.writeFileSync(path.join(root, '.git-ai.json'), '{ invalid');
+      expect(() => findProjectConfig(root)).toThrow('Invalid');
+    });
+  });
+
+  describe('pickProjectSettings', () => {
+    it('should drop unknown and secret keys', () => {
+      expect(
+        pickProjectSettings({ apiKey: 'secret', defaultBranch: 'main' }),
+      ).toEqual({ defaultBranch: 'main' });
+    });
+  });
+});
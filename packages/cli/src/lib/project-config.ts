@@ -0,0 +1,207 @@
+import fs from 'fs';
+import path from 'path';
+
+export const PROJECT_CONFIG_FILE = '.git-ai.json';
+export const PACKAGE_JSON_KEY = 'git-ai';
+
+export type CommitStyle = 'conventional' | 'gitmoji' | 'jira' | 'freeform';
+
+export type TicketPlacement = 'trailer' | 'prefix' | 'none';
+
+export type BudgetAction = 'warn' | 'block';
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * Settings that can be shared per repository
+ */
+export interface ProjectSettings {
+  commitStyle?: CommitStyle;
+  allowedTypes?: string[];
+  allowedScopes?: string[];
+  // Jira project keys accepted by the jira style (empty: any)
+  jiraProjects?: string[];
+  promptTemplate?: string;
+  // Globs of files left out of the diff sent to the AI
+  ignore?: string[];
+  defaultBranch?: string;
+  // Branches git-ai push will not commit to (globs like release/*)
+  protectedBranches?: string[];
+  // Regexes finding ticket ids in the branch name
+  ticketPatterns?: string[];
+  ticketPlacement?: TicketPlacement;
+  // Add the GitHub issue title and body to the prompt (via gh)
+  fetchIssue?: boolean;
+  // Secret scan exceptions: path globs, rule:<id> or value fingerprints
+  secretAllowlist?: string[];
+  // Largest file that may be committed, e.g. 5MB
+  maxFileSize?: string;
+  // Mask credentials in everything sent to the AI
+  redactSecrets?: boolean;
+  // Mask email addresses in everything sent to the AI
+  redactEmails?: boolean;
+  // Extra regexes masked before sending to the AI
+  redactPatterns?: string[];
+  // Globs of files whose content is never sent to the AI (names are)
+  redactPaths?: string[];
+  // Providers tried in order when the configured one fails
+  fallbackProviders?: string[];
+  // Reuse AI answers for a diff that was already sent
+  cache?: boolean;
+  // How long cached answers are kept, e.g. 24h or 7d
+  cacheTtl?: string;
+  // Largest size of the cache file, e.g. 1MB
+  cacheMaxSize?: string;
+  // Record each provider call for git-ai usage
+  usageLog?: boolean;
+  // Prices by model or provider/model, added to the built-in table
+  prices?: Record<string, ModelPrice>;
+  // Estimated USD spent per calendar month (0: no budget)
+  monthlyBudget?: number;
+  // What happens once the budget is spent
+  budgetAction?: BudgetAction;
+}
+
+export const PROJECT_SETTING_KEYS: (keyof ProjectSettings)[] = [
+  'commitStyle',
+  'allowedTypes',
+  'allowedScopes',
+  'jiraProjects',
+  'promptTemplate',
+  'ignore',
+  'defaultBranch',
+  'protectedBranches',
+  'ticketPatterns',
+  'ticketPlacement',
+  'fetchIssue',
+  'secretAllowlist',
+  'maxFileSize',
+  'redactSecrets',
+  'redactEmails',
+  'redactPatterns',
+  'redactPaths',
+  'fallbackProviders',
+  'cache',
+  'cacheTtl',
+  'cacheMaxSize',
+  'usageLog',
+  'prices',
+  'monthlyBudget',
+  'budgetAction',
+];
+
+// Settings a checked-in file must not change for whoever clones the
+// repository: the secret scan, the large-file block and redaction
+// (project files may only add redactPatterns and redactPaths), which
+// providers get the diff, the response cache and personal billing. Only the
+// global config and the environment set them.
+export const USER_ONLY_SETTING_KEYS: (keyof ProjectSettings)[] = [
+  'secretAllowlist',
+  'maxFileSize',
+  'redactSecrets',
+  'redactEmails',
+  'fallbackProviders',
+  'cache',
+  'cacheTtl',
+  'cacheMaxSize',
+  'usageLog',
+  'prices',
+  'monthlyBudget',
+  'budgetAction',
+];
+
+export interface ProjectConfigFile {
+  path: string;
+  settings: ProjectSettings;
+}
+
+/**
+ * Keep only known project settings from a parsed config object
+ */
+export function pickProjectSettings(value: unknown): ProjectSettings {
+  const settings: ProjectSettings = {};
+  if (!value || typeof value !== 'object') {
+    return settings;
+  }
+  const source = value as Record<string, unknown>;
+  for (const key of PROJECT_SETTING_KEYS) {
+    if (source[key] !== undefined) {
+      (settings as Record<string, unknown>)[key] = source[key];
+    }
+  }
+  return settings;
+}
+
+/**
+ * Keep the settings a project file may set
+ */
+function pickSharedSettings(value: unknown): ProjectSettings {
+  const settings = pickProjectSettings(value);
+  for (const key of USER_ONLY_SETTING_KEYS) {
+    delete settings[key];
+  }
+  return settings;
+}
+
+/**
+ * Read project settings from a directory (.git-ai.json wins over package.json)
+ */
+function readProjectConfig(dir: string): ProjectConfigFile | undefined {
+  const configFile = path.join(dir, PROJECT_CONFIG_FILE);
+  if (fs.existsSync(configFile)) {
+    try {
+      const data = JSON.parse(fs.readFileSync(configFile, 'utf-8'));
+      return { path: configFile, settings: pickSharedSettings(data) };
+    } catch (error) {
+      throw new Error(
+        `Invalid ${configFile}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+
+  const packageFile = path.join(dir, 'package.json');
+  if (fs.existsSync(packageFile)) {
+    try {
+      const data = JSON.parse(fs.readFileSync(packageFile, 'utf-8'));
+      if (data?.[PACKAGE_JSON_KEY]) {
+        return {
+          path: `${packageFile}#${PACKAGE_JSON_KEY}`,
+          settings: pickSharedSettings(data[PACKAGE_JSON_KEY]),
+        };
+      }
+    } catch {
+      // Ignore unreadable package.json files
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find the nearest project config, walking up from a directory to the
+ * root of its git repository
+ */
+export function findProjectConfig(
+  startDir: string = process.cwd(),
+): ProjectConfigFile | undefined {
+  let dir = path.resolve(startDir);
+
+  while (true) {
+    const found = readProjectConfig(dir);
+    if (found) {
+      return found;
+    }
+
+    // Stop at the git root (or the filesystem root)
+    const parent = path.dirname(dir);
+    if (fs.existsSync(path.join(dir, '.git')) || parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
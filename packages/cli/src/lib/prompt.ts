@@ -1,77 +1,148 @@
-import { password, select } from '@inquirer/prompts';
+import { input, password, select } from '@inquirer/prompts';
 import chalk from 'chalk';
-import type { AiProvider } from './config.js';
+import type { CommitPayload } from './ai.js';
+import {
+  getEndpoint,
+  getGenerationSettings,
+  setEndpoint,
+  type AiProvider,
+} from './config.js';
+import {
+  branchExists,
+  editCommitMessage,
+  editText,
+  isValidBranchName,
+  type SyncStrategy,
+} from './git.js';
+import {
+  EXIT_CONFIRMATION_REQUIRED,
+  InputRequiredError,
+  isAssumeYes,
+  isInteractive,
+  requireInteractive,
+} from './interactive.js';
+import { getProvider, listProviders } from './providers/registry.js';
+import { parsePrResponse, PR_EDIT_HELP, type PullRequestDraft } from './pr.js';
+import { PASSPHRASE_ENV_VAR } from './secrets.js';
+import {
+  describeUnit,
+  formatPlan,
+  parsePlanText,
+  PLAN_HELP,
+  unplannedUnits,
+  type SplitGroup,
+  type SplitUnit,
+} from './split.js';
+import type {
+  EndpointSettings,
+  GenerationSettings,
+} from './providers/types.js';
 
 /**
  * Prompt user to select an AI provider
  */
 export async function selectAiProvider(): Promise<AiProvider> {
+  requireInteractive(
+    'Selecting an AI provider',
+    'Set GIT_AI_PROVIDER and GIT_AI_API_KEY (or e.g. OPENAI_API_KEY).',
+  );
   console.log(
     chalk.blue('\nSelect an AI provider for generating commit messages:\n'),
   );
 
   const provider = await select({
     message: 'Choose your AI provider:',
-    choices: [
-      {
-        name: 'Gemini (Google)',
-        value: 'gemini' as AiProvider,
-        description: 'Use Google Gemini API',
-      },
-      {
-        name: 'OpenAI (GPT)',
-        value: 'openai' as AiProvider,
-        description: 'Use OpenAI GPT API',
-      },
-      {
-        name: 'Anthropic (Claude)',
-        value: 'anthropic' as AiProvider,
-        description: 'Use Anthropic Claude API',
-      },
-      {
-        name: 'GitHub PAT',
-        value: 'github' as AiProvider,
-        description: 'Use GitHub Personal Access Token',
-      },
-    ],
+    choices: listProviders().map((definition) => ({
+      name: definition.label ?? definition.displayName,
+      value: definition.id as AiProvider,
+      description: definition.description,
+    })),
   });
 
   return provider;
 }
 
 /**
- * Prompt user to enter their API key
+ * Prompt user for the base URL, model and auth header of a custom endpoint
  */
-export async function inputApiKey(provider: AiProvider): Promise<string> {
-  const { testApiKey } = await import('./ai.js');
+export async function inputEndpoint(
+  current?: EndpointSettings,
+): Promise<EndpointSettings> {
+  requireInteractive(
+    'Configuring the endpoint',
+    'Set GIT_AI_BASE_URL and GIT_AI_MODEL.',
+  );
+  const baseUrl = await input({
+    message: 'Base URL (e.g. http://localhost:11434/v1):',
+    default: current?.baseUrl,
+    validate: (value) => {
+      try {
+        const url = new URL(value.trim());
+        return url.protocol === 'http:' || url.protocol === 'https:'
+          ? true
+          : 'URL must start with http:// or https://';
+      } catch {
+        return 'Please enter a valid URL';
+      }
+    },
+  });
 
-  const providerNames: Record<AiProvider, string> = {
-    gemini: 'Gemini',
-    openai: 'OpenAI',
-    anthropic: 'Anthropic',
-    github: 'GitHub',
-  };
+  const model = await input({
+    message: 'Model name:',
+    default: current?.model,
+    validate: (value) =>
+      value.trim().length > 0 ? true : 'Model name cannot be empty',
+  });
 
-  const providerUrls: Record<AiProvider, string> = {
-    gemini: 'https://aistudio.google.com/app/apikey',
-    openai: 'https://platform.openai.com/api-keys',
-    anthropic: 'https://console.anthropic.com/settings/keys',
-    github: 'https://github.com/settings/tokens',
+  const authHeader = await input({
+    message: 'Auth header name:',
+    default: current?.authHeader ?? 'Authorization',
+  });
+
+  return {
+    baseUrl: baseUrl.trim(),
+    model: model.trim(),
+    authHeader: authHeader.trim() || 'Authorization',
   };
+}
+
+/**
+ * Prompt user to enter their API key.
+ * Providers with a custom endpoint also ask for the endpoint and save it.
+ */
+export async function inputApiKey(provider: AiProvider): Promise<string> {
+  const { displayName, keyUrl, requiresApiKey, usesEndpoint } =
+    getProvider(provider);
+  const keyOptional = requiresApiKey === false;
+  // Nothing to ask, e.g. the offline provider
+  if (keyOptional && !usesEndpoint) {
+    return '';
+  }
+  requireInteractive(
+    'Entering an API key',
+    'Set GIT_AI_API_KEY or the provider key variable (e.g. OPENAI_API_KEY).',
+  );
+  const { testApiKey } = await import('./ai.js');
 
   console.log(
-    chalk.yellow(
-      `\nGet your ${providerNames[provider]} API key from: ${providerUrls[provider]}\n`,
-    ),
+    chalk.yellow(`\nGet your ${displayName} API key from: ${keyUrl}\n`),
   );
 
+  let endpoint = usesEndpoint ? getEndpoint() : undefined;
+
   // Loop until valid API key is provided
   while (true) {
+    if (usesEndpoint) {
+      endpoint = await inputEndpoint(endpoint);
+    }
+
     const apiKey = await password({
-      message: `Enter your ${providerNames[provider]} API key:`,
+      message: keyOptional
+        ? `Enter your ${displayName} API key (leave empty if none):`
+        : `Enter your ${displayName} API key:`,
       mask: '*',
       validate: (value) => {
-        if (!value || value.trim().length === 0) {
+        if (!keyOptional && (!value || value.trim().length === 0)) {
           return 'API key cannot be empty';
         }
         return true;
@@ -81,11 +152,20 @@ export async function inputApiKey(provider: AiProvider): Promise<string> {
     const trimmedKey = apiKey.trim();
 
     // Validate the API key
-    console.log(chalk.yellow('\nValidating API key...'));
-    const result = await testApiKey(provider, trimmedKey);
+    console.log(
+      chalk.yellow(
+        usesEndpoint ? '\nChecking endpoint...' : '\nValidating API key...',
+      ),
+    );
+    const result = await testApiKey(provider, trimmedKey, endpoint);
 
     if (result.valid) {
-      console.log(chalk.green('✓ API key is valid!\n'));
+      if (endpoint) {
+        setEndpoint(endpoint);
+        console.log(chalk.green('✓ Endpoint is reachable!\n'));
+      } else {
+        console.log(chalk.green('✓ API key is valid!\n'));
+      }
       return trimmedKey;
     } else {
       console.log(chalk.red(`\n❌ ${result.error || 'Invalid API key'}`));
@@ -95,9 +175,157 @@ export async function inputApiKey(provider: AiProvider): Promise<string> {
 }
 
 /**
- * Confirm action
+ * Prompt user to pick a model for a provider
  */
-export async function confirm(message: string): Promise<boolean> {
+export async function selectModel(provider: AiProvider): Promise<string> {
+  requireInteractive('Selecting a model', 'Set GIT_AI_MODEL.');
+  const { defaultModel, models = [], usesEndpoint } = getProvider(provider);
+  const current =
+    getGenerationSettings(provider).model ||
+    (usesEndpoint ? getEndpoint()?.model : undefined) ||
+    defaultModel;
+
+  if (models.length > 0) {
+    const choice = await select({
+      message: 'Choose a model:',
+      default: models.includes(current) ? current : undefined,
+      choices: [
+        ...models.map((model) => ({
+          name: model === defaultModel ? `${model} (default)` : model,
+          value: model,
+        })),
+        { name: 'Other...', value: '' },
+      ],
+    });
+    if (choice) {
+      return choice;
+    }
+  }
+
+  const model = await input({
+    message: 'Model name:',
+    default: current || undefined,
+    validate: (value) =>
+      value.trim().length > 0 ? true : 'Model name cannot be empty',
+  });
+  return model.trim();
+}
+
+/**
+ * Parse an optional number entered at a prompt
+ */
+function parseOptionalNumber(value: string): number | undefined {
+  return value.trim() === '' ? undefined : Number(value);
+}
+
+/**
+ * Validate an optional number within a range
+ */
+function validateOptionalNumber(
+  value: string,
+  min: number,
+  max: number,
+): string | true {
+  const parsed = parseOptionalNumber(value);
+  if (parsed === undefined) {
+    return true;
+  }
+  if (Number.isNaN(parsed) || parsed < min || parsed > max) {
+    return `Please enter a number between ${min} and ${max}`;
+  }
+  return true;
+}
+
+/**
+ * Prompt user for model and generation parameters (empty keeps the default)
+ */
+export async function inputGenerationSettings(
+  provider: AiProvider,
+): Promise<GenerationSettings> {
+  const current = getGenerationSettings(provider);
+  const model = await selectModel(provider);
+
+  const temperature = await input({
+    message: 'Temperature (0-2, empty for provider default):',
+    default: current.temperature?.toString(),
+    validate: (value) => validateOptionalNumber(value, 0, 2),
+  });
+
+  const maxTokens = await input({
+    message: 'Max tokens (empty for default 200):',
+    default: current.maxTokens?.toString(),
+    validate: (value) => validateOptionalNumber(value, 1, 100000),
+  });
+
+  const timeout = await input({
+    message: 'Timeout in seconds (empty for default 60):',
+    default: current.timeout ? (current.timeout / 1000).toString() : undefined,
+    validate: (value) => validateOptionalNumber(value, 1, 600),
+  });
+
+  const diffTokens = await input({
+    message: 'Diff token budget (empty for the model default):',
+    default: current.diffTokens?.toString(),
+    validate: (value) => validateOptionalNumber(value, 100, 1000000),
+  });
+
+  const timeoutSeconds = parseOptionalNumber(timeout);
+  return {
+    model,
+    temperature: parseOptionalNumber(temperature),
+    maxTokens: parseOptionalNumber(maxTokens),
+    timeout: timeoutSeconds === undefined ? undefined : timeoutSeconds * 1000,
+    diffTokens: parseOptionalNumber(diffTokens),
+  };
+}
+
+/**
+ * Prompt user for the passphrase of the encrypted key store
+ */
+export async function inputPassphrase(creating: boolean): Promise<string> {
+  requireInteractive(
+    'Unlocking the encrypted key store',
+    `Set ${PASSPHRASE_ENV_VAR}.`,
+  );
+
+  if (creating) {
+    console.log(
+      chalk.yellow(
+        '\nYour API key will be stored in an encrypted file. Choose a passphrase:\n',
+      ),
+    );
+  }
+
+  const passphrase = await password({
+    message: creating ? 'New passphrase:' : 'Passphrase for stored API keys:',
+    mask: '*',
+    validate: (value) =>
+      !creating || value.length >= 8
+        ? true
+        : 'Passphrase must be at least 8 characters',
+  });
+
+  if (creating) {
+    await password({
+      message: 'Repeat passphrase:',
+      mask: '*',
+      validate: (value) =>
+        value === passphrase ? true : 'Passphrases do not match',
+    });
+  }
+  return passphrase;
+}
+
+/**
+ * Ask a yes/no question, failing in non-interactive mode
+ */
+async function askYesNo(message: string, flag: string): Promise<boolean> {
+  if (!isInteractive()) {
+    throw new InputRequiredError(
+      `Confirmation required: ${message}\nRe-run with ${flag} to confirm.`,
+      EXIT_CONFIRMATION_REQUIRED,
+    );
+  }
   const answer = await select({
     message,
     choices: [
@@ -107,3 +335,300 @@ export async function confirm(message: string): Promise<boolean> {
   });
   return answer;
 }
+
+/**
+ * Confirm action (answered yes with --yes, fails in non-interactive mode)
+ */
+export async function confirm(message: string): Promise<boolean> {
+  if (isAssumeYes()) {
+    return true;
+  }
+  return askYesNo(message, '--yes');
+}
+
+/**
+ * Confirm an action that cannot be undone. The global --yes does not
+ * answer it: without a prompt, the command's own flag is needed.
+ */
+export async function confirmDestructive(
+  message: string,
+  flag: string,
+): Promise<boolean> {
+  return askYesNo(message, flag);
+}
+
+/**
+ * Ways to get a new message during review
+ */
+export interface ReviewHandlers {
+  /** Generate a new message, optionally with extra guidance */
+  regenerate(guidance?: string): Promise<string>;
+  /** Generate several different messages at once */
+  candidates(count: number, guidance?: string): Promise<string[]>;
+}
+
+type ReviewAction = 'accept' | 'edit' | 'regenerate' | 'candidates' | 'cancel';
+
+/**
+ * Run a step of the review, reporting a failure instead of throwing
+ */
+async function keepOnError<T>(step: () => Promise<T>): Promise<T | undefined> {
+  try {
+    return await step();
+  } catch (error) {
+    console.log(
+      chalk.red(
+        `\n❌ ${error instanceof Error ? error.message : 'Unknown error'}`,
+      ),
+    );
+    return undefined;
+  }
+}
+
+function printCommitMessage(message: string): void {
+  console.log(chalk.cyan(`\n📝 Commit message:\n${chalk.white(message)}\n`));
+}
+
+/**
+ * Let the user accept, edit, regenerate or pick a commit message.
+ * Returns undefined when the commit is cancelled.
+ */
+export async function reviewCommitMessage(
+  message: string,
+  handlers: ReviewHandlers,
+  candidateCount: number = 3,
+): Promise<string | undefined> {
+  requireInteractive('Reviewing the commit message', 'Use --no-review.');
+  let current = message;
+  let guidance: string | undefined;
+
+  for (;;) {
+    const action = await select<ReviewAction>({
+      message: 'Use this commit message?',
+      choices: [
+        { name: 'Accept', value: 'accept' },
+        { name: 'Edit in $EDITOR', value: 'edit' },
+        { name: 'Regenerate with guidance', value: 'regenerate' },
+        {
+          name: `Choose from ${candidateCount} candidates`,
+          value: 'candidates',
+        },
+        { name: 'Cancel', value: 'cancel' },
+      ],
+    });
+
+    if (action === 'accept') {
+      return current;
+    }
+    if (action === 'cancel') {
+      return undefined;
+    }
+
+    if (action === 'edit') {
+      const edited = await keepOnError(() => editCommitMessage(current));
+      if (edited === '') {
+        console.log(chalk.yellow('\nEmpty commit message.'));
+        return undefined;
+      }
+      current = edited ?? current;
+    } else if (action === 'regenerate') {
+      const answer = await input({
+        message: 'Guidance for the AI (e.g. "mention the API change"):',
+      });
+      guidance = answer.trim() || undefined;
+      current =
+        (await keepOnError(() => handlers.regenerate(guidance))) ?? current;
+    } else {
+      const candidates = await keepOnError(() =>
+        handlers.candidates(candidateCount, guidance),
+      );
+      if (candidates) {
+        current = await select({
+          message: 'Pick a commit message:',
+          choices: candidates.map((candidate) => ({
+            name: candidate.split('\n')[0],
+            value: candidate,
+            description: candidate,
+          })),
+        });
+      }
+    }
+    printCommitMessage(current);
+  }
+}
+
+/**
+ * Print a split plan, numbering the commits
+ */
+export function printPlan(groups: SplitGroup[], units: SplitUnit[]): void {
+  console.log(chalk.cyan('\n🧩 Commit plan:\n'));
+  groups.forEach((group, i) => {
+    console.log(chalk.white(`${i + 1}. ${group.title}`));
+    group.units.forEach((unit) =>
+      console.log(chalk.gray(`   [${unit.id}] ${describeUnit(unit)}`)),
+    );
+  });
+  const left = unplannedUnits(groups, units);
+  if (left.length > 0) {
+    console.log(chalk.yellow(`\n${left.length} changes stay uncommitted.`));
+  }
+  console.log();
+}
+
+/**
+ * Print the prompts a commit message request would send
+ */
+export function printPayload(payload: CommitPayload): void {
+  payload.prompts.forEach((prompt, i) => {
+    console.log(
+      chalk.cyan(
+        `\n📤 Request ${i + 1} of ${payload.prompts.length} to ${payload.provider} (${payload.model}):\n`,
+      ),
+    );
+    console.log(prompt);
+  });
+  if (payload.note) {
+    console.log(chalk.gray(`\n${payload.note}`));
+  }
+  console.log(chalk.gray('\nNothing was sent.\n'));
+}
+
+/**
+ * Let the user accept or edit a split plan. Returns undefined when
+ * the split is cancelled.
+ */
+export async function reviewPlan(
+  groups: SplitGroup[],
+  units: SplitUnit[],
+): Promise<SplitGroup[] | undefined> {
+  requireInteractive('Reviewing the commit plan', 'Use --no-review.');
+  let current = groups;
+
+  for (;;) {
+    const action = await select<'accept' | 'edit' | 'cancel'>({
+      message: `Create these ${current.length} commits?`,
+      choices: [
+        { name: 'Accept', value: 'accept' },
+        { name: 'Edit in $EDITOR', value: 'edit' },
+        { name: 'Cancel', value: 'cancel' },
+      ],
+    });
+
+    if (action === 'accept') {
+      return current;
+    }
+    if (action === 'cancel') {
+      return undefined;
+    }
+
+    const edited = await keepOnError(async () =>
+      parsePlanText(await editText(formatPlan(current), PLAN_HELP), units),
+    );
+    if (edited?.length === 0) {
+      console.log(chalk.yellow('\nEmpty plan.'));
+      return undefined;
+    }
+    current = edited ?? current;
+    printPlan(current, units);
+  }
+}
+
+function printPullRequest(draft: PullRequestDraft): void {
+  console.log(chalk.cyan(`\n📬 ${chalk.white.bold(draft.title)}\n`));
+  console.log(`${draft.body}\n`);
+}
+
+/**
+ * Let the user accept, edit or regenerate a pull request title and
+ * description. Returns undefined when cancelled.
+ */
+export async function reviewPullRequest(
+  draft: PullRequestDraft,
+  regenerate: (guidance?: string) => Promise<PullRequestDraft>,
+): Promise<PullRequestDraft | undefined> {
+  requireInteractive('Reviewing the pull request', 'Use --no-review.');
+  let current = draft;
+  printPullRequest(current);
+
+  for (;;) {
+    const action = await select<'accept' | 'edit' | 'regenerate' | 'cancel'>({
+      message: 'Create this pull request?',
+      choices: [
+        { name: 'Accept', value: 'accept' },
+        { name: 'Edit in $EDITOR', value: 'edit' },
+        { name: 'Regenerate with guidance', value: 'regenerate' },
+        { name: 'Cancel', value: 'cancel' },
+      ],
+    });
+
+    if (action === 'accept') {
+      return current;
+    }
+    if (action === 'cancel') {
+      return undefined;
+    }
+
+    if (action === 'edit') {
+      const edited = await keepOnError(() =>
+        editText(`${current.title}\n\n${current.body}`, PR_EDIT_HELP, '<!--'),
+      );
+      if (edited === '') {
+        console.log(chalk.yellow('\nEmpty pull request.'));
+        return undefined;
+      }
+      current = edited ? parsePrResponse(edited) : current;
+    } else {
+      const answer = await input({
+        message: 'Guidance for the AI (e.g. "mention the migration"):',
+      });
+      current =
+        (await keepOnError(() => regenerate(answer.trim() || undefined))) ??
+        current;
+    }
+    printPullRequest(current);
+  }
+}
+
+/**
+ * Let the user confirm or change a suggested branch name
+ */
+export async function inputBranchName(suggested: string): Promise<string> {
+  requireInteractive(
+    'Choosing a branch name',
+    'Use --yes to accept the generated name.',
+  );
+  const name = await input({
+    message: 'Branch name:',
+    default: suggested,
+    validate: async (value) => {
+      if (!(await isValidBranchName(value.trim()))) {
+        return 'Not a valid branch name';
+      }
+      if (await branchExists(value.trim())) {
+        return 'A branch with this name already exists';
+      }
+      return true;
+    },
+  });
+  return name.trim();
+}
+
+/**
+ * Ask how to bring in commits the remote has and the local branch
+ * does not. Returns undefined to cancel the push.
+ */
+export async function selectSyncStrategy(
+  remote: string,
+  behind: number,
+): Promise<SyncStrategy | undefined> {
+  requireInteractive(`Syncing with ${remote}`, 'Use --rebase or --merge.');
+  const strategy = await select<SyncStrategy | 'cancel'>({
+    message: `${remote} has ${behind} commit(s) you do not have. How should they be brought in?`,
+    choices: [
+      { name: 'Rebase my commits on top (git pull --rebase)', value: 'rebase' },
+      { name: 'Merge them (git pull)', value: 'merge' },
+      { name: 'Cancel the push', value: 'cancel' },
+    ],
+  });
+  return strategy === 'cancel' ? undefined : strategy;
+}
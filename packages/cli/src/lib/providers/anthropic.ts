@@ -0,0 +1,158 @@
+import axios from 'axios';
+import {
+  apiError,
+  checkApiKey,
+  collectStream,
+  generationRequest,
+  ProviderApiError,
+  validationRequest,
+} from './http.js';
+import type { AiProviderDefinition, ModelRequest } from './types.js';
+
+interface MessageUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+interface MessageStreamEvent {
+  type: string;
+  delta?: { type?: string; text?: string };
+  error?: { type?: string; message?: string };
+  /** Input tokens come with message_start */
+  message?: { usage?: MessageUsage };
+  /** Output tokens so far come with message_delta */
+  usage?: MessageUsage;
+}
+
+const URL = 'https://api.anthropic.com/v1/messages';
+const DEFAULT_MODEL = 'claude-3-haiku-20240307';
+
+/**
+ * Text added by a streamed event. Errors sent mid-stream are thrown,
+ * overloaded_error with the 529 status it has outside a stream.
+ */
+function streamedText(event: MessageStreamEvent): string | undefined {
+  if (event.type === 'error') {
+    throw new ProviderApiError(
+      `Anthropic API error: ${event.error?.message ?? 'stream failed'}`,
+      event.error?.type === 'overloaded_error' ? 529 : undefined,
+    );
+  }
+  return event.type === 'content_block_delta' &&
+    event.delta?.type === 'text_delta'
+    ? event.delta.text
+    : undefined;
+}
+
+/**
+ * Send a prompt to the Anthropic Messages API, streaming the answer
+ * when the request has onToken
+ */
+async function sendMessage(
+  apiKey: string,
+  request: ModelRequest,
+): Promise<string | undefined> {
+  const stream = !!request.onToken;
+  const response = await axios.post(
+    URL,
+    {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      messages: [
+        {
+          role: 'user',
+          content: request.prompt,
+        },
+      ],
+      ...(stream ? { stream: true } : {}),
+    },
+    {
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+        'Content-Type': 'application/json',
+      },
+      timeout: request.timeout,
+      signal: request.signal,
+      ...(stream ? { responseType: 'stream' as const } : {}),
+    },
+  );
+
+  if (request.onToken) {
+    const usage = { inputTokens: 0, outputTokens: 0 };
+    let reported = false;
+    const text = await collectStream(
+      response.data,
+      streamedText,
+      request.onToken,
+      (event: MessageStreamEvent) => {
+        const counts = event.message?.usage ?? event.usage;
+        if (counts) {
+          usage.inputTokens = counts.input_tokens ?? usage.inputTokens;
+          usage.outputTokens = counts.output_tokens ?? usage.outputTokens;
+          reported = true;
+        }
+      },
+      request.timeout,
+    );
+    if (reported) {
+      request.onUsage?.(usage);
+    }
+    return text;
+  }
+  const usage: MessageUsage | undefined = response.data?.usage;
+  if (usage?.input_tokens !== undefined) {
+    request.onUsage?.({
+      inputTokens: usage.input_tokens,
+      outputTokens: usage.output_tokens ?? 0,
+    });
+  }
+  return response.data?.content?.[0]?.text;
+}
+
+/**
+ * Anthropic (Claude) provider
+ */
+export const anthropicProvider: AiProviderDefinition = {
+  id: 'anthropic',
+  displayName: 'Anthropic',
+  label: 'Anthropic (Claude)',
+  description: 'Use Anthropic Claude API',
+  keyUrl: 'https://console.anthropic.com/settings/keys',
+  defaultModel: DEFAULT_MODEL,
+  envKeys: ['ANTHROPIC_API_KEY'],
+  models: [
+    'claude-3-haiku-20240307',
+    'claude-3-5-haiku-latest',
+    'claude-3-5-sonnet-latest',
+  ],
+  diffTokenBudget: () => 12000,
+
+  async generate(prompt, options) {
+    try {
+      const text = await sendMessage(
+        options.apiKey,
+        generationRequest(prompt, options, DEFAULT_MODEL),
+      );
+      if (!text) {
+        throw new Error('Empty response from Anthropic');
+      }
+      return text.trim();
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        if (error.response?.status === 401) {
+          throw new Error('Invalid Anthropic API key. Please run setup again.');
+        }
+        throw apiError(error, `Anthropic API error: ${error.message}`);
+      }
+      throw error;
+    }
+  },
+
+  validate(options) {
+    return checkApiKey(() =>
+      sendMessage(options.apiKey, validationRequest(options, DEFAULT_MODEL)),
+    );
+  },
+};
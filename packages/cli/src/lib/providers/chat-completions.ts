@@ -0,0 +1,96 @@
+import axios from 'axios';
+import { collectStream } from './http.js';
+import type { ModelRequest } from './types.js';
+
+interface CompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string } }[];
+  usage?: CompletionUsage | null;
+}
+
+/**
+ * Build the Authorization header for bearer-token APIs
+ */
+export function bearerAuth(apiKey: string): Record<string, string> {
+  return { Authorization: `Bearer ${apiKey}` };
+}
+
+/**
+ * Pass the usage counts of a response to onUsage, if it has them
+ */
+function reportUsage(request: ModelRequest, usage?: CompletionUsage | null) {
+  if (usage?.prompt_tokens !== undefined) {
+    request.onUsage?.({
+      inputTokens: usage.prompt_tokens,
+      outputTokens: usage.completion_tokens ?? 0,
+    });
+  }
+}
+
+/**
+ * Send a prompt to an OpenAI-compatible /chat/completions endpoint.
+ * With onToken the answer is streamed as server-sent events; set
+ * streamUsage for APIs that accept stream_options to get usage counts
+ * at the end of the stream.
+ */
+export async function chatCompletion(
+  url: string,
+  headers: Record<string, string>,
+  request: ModelRequest,
+  streamUsage = false,
+): Promise<string | undefined> {
+  const stream = !!request.onToken;
+  const response = await axios.post(
+    url,
+    {
+      model: request.model,
+      messages: [
+        {
+          role: 'user',
+          content: request.prompt,
+        },
+      ],
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(stream ? { stream: true } : {}),
+      ...(stream && streamUsage
+        ? { stream_options: { include_usage: true } }
+        : {}),
+    },
+    {
+      headers: {
+        ...headers,
+        'Content-Type': 'application/json',
+      },
+      timeout: request.timeout,
+      signal: request.signal,
+      ...(stream ? { responseType: 'stream' as const } : {}),
+    },
+  );
+
+  if (request.onToken) {
+    // Some gateways ignore "stream" and answer with plain JSON
+    if (!/event-stream/.test(String(response.headers['content-type']))) {
+      const chunks: Buffer[] = [];
+      for await (const chunk of response.data) {
+        chunks.push(Buffer.from(chunk));
+      }
+      const body = JSON.parse(Buffer.concat(chunks).toString());
+      reportUsage(request, body?.usage);
+      return body?.choices?.[0]?.message?.content;
+    }
+    return collectStream<ChatCompletionChunk>(
+      response.data,
+      (chunk) => chunk.choices?.[0]?.delta?.content,
+      request.onToken,
+      (chunk) => reportUsage(request, chunk.usage),
+      request.timeout,
+    );
+  }
+  reportUsage(request, response.data?.usage);
+  return response.data?.choices?.[0]?.message?.content;
+}
@@ -0,0 +1,182 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  chatCompletionsUrl,
+  customProvider,
+  endpointHeaders,
+} from './custom.js';
+
+// Minimal OpenAI-compatible mock server
+const requests: {
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}[] = [];
+const server = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', (chunk) => (body += chunk));
+  req.on('end', () => {
+    requests.push({ url: req.url, headers: req.headers, body });
+    if (req.headers['api-key'] === 'bad-key') {
+      res.writeHead(401).end();
+      return;
+    }
+    if (JSON.parse(body).stream) {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      for (const content of ['feat: ', 'stream ', 'tokens']) {
+        res.write(
+          `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`,
+        );
+      }
+      res.write(
+        `data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 9, completion_tokens: 3 } })}\n\n`,
+      );
+      res.end('data: [DONE]\n\n');
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        choices: [{ message: { content: '  feat: add mock endpoint \n' } }],
+        usage: { prompt_tokens: 12, completion_tokens: 5 },
+      }),
+    );
+  });
+});
+
+let baseUrl = '';
+
+describe('Custom Endpoint Provider', () => {
+  beforeAll(async () => {
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    const { port } = server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}/v1/`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  describe('Request Building', () => {
+    it('should append /chat/completions to the base URL', () => {
+      expect(chatCompletionsUrl('http://localhost:11434/v1/')).toBe(
+        'http://localhost:11434/v1/chat/completions',
+      );
+    });
+
+    it('should use a bearer token for the Authorization header', () => {
+      expect(endpointHeaders({ baseUrl, model: 'llama3' }, 'secret')).toEqual({
+        Authorization: 'Bearer secret',
+      });
+    });
+
+    it('should send the raw key in a custom header', () => {
+      expect(
+        endpointHeaders(
+          { baseUrl, model: 'llama3', authHeader: 'api-key' },
+          'secret',
+        ),
+      ).toEqual({ 'api-key': 'secret' });
+    });
+
+    it('should omit auth when no key is set', () => {
+      expect(endpointHeaders({ baseUrl, model: 'llama3' }, '')).toEqual({});
+    });
+  });
+
+  describe('Mock Server', () => {
+    it('should generate a message from the endpoint', async () => {
+      const message = await customProvider.generate('diff', {
+        apiKey: '',
+        endpoint: { baseUrl, model: 'llama3' },
+      });
+
+      expect(message).toBe('feat: add mock endpoint');
+      const last = requests[requests.length - 1];
+      expect(last.url).toBe('/v1/chat/completions');
+      expect(JSON.parse(last.body).model).toBe('llama3');
+      expect(last.headers.authorization).toBeUndefined();
+    });
+
+    it('should stream the answer token by token', async () => {
+      const tokens: string[] = [];
+      const message = await customProvider.generate('diff', {
+        apiKey: '',
+        endpoint: { baseUrl, model: 'llama3' },
+        onToken: (text) => tokens.push(text),
+      });
+
+      expect(message).toBe('feat: stream tokens');
+      expect(tokens).toEqual(['feat: ', 'stream ', 'tokens']);
+      const body = JSON.parse(requests[requests.length - 1].body);
+      expect(body.stream).toBe(true);
+      expect(body.stream_options).toEqual({ include_usage: true });
+    });
+
+    it('should report the token usage of the response', async () => {
+      const usage: unknown[] = [];
+      const options = {
+        apiKey: '',
+        endpoint: { baseUrl, model: 'llama3' },
+        onUsage: (counts: unknown) => usage.push(counts),
+      };
+      await customProvider.generate('diff', options);
+      await customProvider.generate('diff', { ...options, onToken: () => {} });
+
+      expect(usage).toEqual([
+        { inputTokens: 12, outputTokens: 5 },
+        { inputTokens: 9, outputTokens: 3 },
+      ]);
+    });
+
+    it('should not send an aborted request', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const count = requests.length;
+      await expect(
+        customProvider.generate('diff', {
+          apiKey: '',
+          endpoint: { baseUrl, model: 'llama3' },
+          signal: controller.signal,
+        }),
+      ).rejects.toThrow();
+      expect(requests.length).toBe(count);
+    });
+
+    it('should validate a reachable endpoint', async () => {
+      await expect(
+        customProvider.validate({
+          apiKey: 'key',
+          endpoint: { baseUrl, model: 'llama3', authHeader: 'api-key' },
+        }),
+      ).resolves.toEqual({ valid: true });
+    });
+
+    it('should reject a bad key', async () => {
+      await expect(
+        customProvider.validate({
+          apiKey: 'bad-key',
+          endpoint: { baseUrl, model: 'llama3', authHeader: 'api-key' },
+        }),
+      ).resolves.toEqual({ valid: false, error: 'Invalid API key' });
+    });
+
+    it('should report an unreachable endpoint', async () => {
+      const result = await customProvider.validate({
+        apiKey: '',
+        endpoint: { baseUrl: 'http://127.0.0.1:1/v1', model: 'llama3' },
+      });
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('Could not reach');
+    });
+
+    it('should require endpoint settings', async () => {
+      await expect(
+        customProvider.generate('diff', { apiKey: '' }),
+      ).rejects.toThrow('Custom endpoint is not configured');
+    });
+  });
+});
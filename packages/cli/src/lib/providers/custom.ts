@@ -0,0 +1,126 @@
+import axios from 'axios';
+import { bearerAuth, chatCompletion } from './chat-completions.js';
+import { apiError, generationRequest, validationRequest } from './http.js';
+import type {
+  AiProviderDefinition,
+  ApiKeyValidation,
+  EndpointSettings,
+} from './types.js';
+
+/**
+ * Build the /chat/completions URL from a base URL
+ */
+export function chatCompletionsUrl(baseUrl: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+}
+
+/**
+ * Build the auth header for an endpoint (none when no key is set)
+ */
+export function endpointHeaders(
+  endpoint: EndpointSettings,
+  apiKey: string,
+): Record<string, string> {
+  if (!apiKey) {
+    return {};
+  }
+  const header = endpoint.authHeader || 'Authorization';
+  if (header.toLowerCase() === 'authorization') {
+    return bearerAuth(apiKey);
+  }
+  return { [header]: apiKey };
+}
+
+/**
+ * Get the endpoint settings, throwing if they are not configured
+ */
+function requireEndpoint(endpoint?: EndpointSettings): EndpointSettings {
+  if (!endpoint?.baseUrl || !endpoint.model) {
+    throw new Error(
+      'Custom endpoint is not configured. Please run: git-ai config',
+    );
+  }
+  return endpoint;
+}
+
+/**
+ * OpenAI-compatible endpoint provider (Ollama, LM Studio, vLLM, gateways)
+ */
+export const customProvider: AiProviderDefinition = {
+  id: 'custom',
+  displayName: 'Custom endpoint',
+  label: 'OpenAI-compatible endpoint',
+  description: 'Use Ollama, LM Studio, vLLM or an internal gateway',
+  keyUrl: 'your endpoint administrator (leave empty if not required)',
+  defaultModel: '',
+  requiresApiKey: false,
+  usesEndpoint: true,
+
+  async generate(prompt, options) {
+    const settings = requireEndpoint(options.endpoint);
+    const { baseUrl } = settings;
+    try {
+      const text = await chatCompletion(
+        chatCompletionsUrl(baseUrl),
+        endpointHeaders(settings, options.apiKey),
+        generationRequest(prompt, options, settings.model),
+        true,
+      );
+      if (!text) {
+        throw new Error(`Empty response from ${baseUrl}`);
+      }
+      return text.trim();
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        if (error.response?.status === 401 || error.response?.status === 403) {
+          throw new Error(
+            `Endpoint ${baseUrl} rejected the API key. Please run: git-ai config`,
+          );
+        }
+        if (!error.response) {
+          // Keeps the error code, so a local server still starting is retried
+          throw apiError(error, `Could not reach endpoint ${baseUrl}`);
+        }
+        throw apiError(error, `Endpoint API error: ${error.message}`);
+      }
+      throw error;
+    }
+  },
+
+  async validate(options): Promise<ApiKeyValidation> {
+    const settings = requireEndpoint(options.endpoint);
+    const { model } = validationRequest(options, settings.model);
+    try {
+      await chatCompletion(
+        chatCompletionsUrl(settings.baseUrl),
+        endpointHeaders(settings, options.apiKey),
+        validationRequest(options, settings.model),
+      );
+      return { valid: true };
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        if (!error.response) {
+          return {
+            valid: false,
+            error: `Could not reach ${settings.baseUrl} (${error.message})`,
+          };
+        }
+        if (error.response.status === 401 || error.response.status === 403) {
+          return { valid: false, error: 'Invalid API key' };
+        }
+        if (error.response.status === 404) {
+          return {
+            valid: false,
+            error: `Model "${model}" or /chat/completions not found at ${settings.baseUrl}`,
+          };
+        }
+        if (error.response.status === 429) {
+          // Rate limited but endpoint is reachable
+          return { valid: true };
+        }
+        return { valid: false, error: error.message };
+      }
+      return { valid: false, error: 'Connection error' };
+    }
+  },
+};
@@ -0,0 +1,142 @@
+import axios from 'axios';
+import {
+  apiError,
+  checkApiKey,
+  collectStream,
+  generationRequest,
+  validationRequest,
+} from './http.js';
+import type { AiProviderDefinition, ModelRequest } from './types.js';
+
+interface GenerateContentResponse {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+  /** Streamed chunks carry the counts so far */
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+  };
+}
+
+const DEFAULT_MODEL = 'gemini-2.0-flash';
+
+/**
+ * Send a prompt to the Gemini generateContent API, or to
+ * streamGenerateContent (as server-sent events) when the request has
+ * onToken
+ */
+async function generateContent(
+  apiKey: string,
+  request: ModelRequest,
+): Promise<string | undefined> {
+  const stream = !!request.onToken;
+  const base = `https://generativelanguage.googleapis.com/v1beta/models/${request.model}`;
+  const url = stream
+    ? `${base}:streamGenerateContent?alt=sse&key=${apiKey}`
+    : `${base}:generateContent?key=${apiKey}`;
+  const response = await axios.post(
+    url,
+    {
+      contents: [
+        {
+          parts: [{ text: request.prompt }],
+        },
+      ],
+      generationConfig: {
+        maxOutputTokens: request.maxTokens,
+        temperature: request.temperature,
+      },
+    },
+    {
+      timeout: request.timeout,
+      signal: request.signal,
+      ...(stream ? { responseType: 'stream' as const } : {}),
+    },
+  );
+
+  const textOf = (data: GenerateContentResponse) =>
+    data?.candidates?.[0]?.content?.parts?.[0]?.text;
+  const reportUsage = (data?: GenerateContentResponse) => {
+    const usage = data?.usageMetadata;
+    if (usage?.promptTokenCount !== undefined) {
+      request.onUsage?.({
+        inputTokens: usage.promptTokenCount,
+        outputTokens: usage.candidatesTokenCount ?? 0,
+      });
+    }
+  };
+  if (request.onToken) {
+    let last: GenerateContentResponse | undefined;
+    const text = await collectStream(
+      response.data,
+      textOf,
+      request.onToken,
+      (chunk: GenerateContentResponse) => {
+        last = chunk.usageMetadata ? chunk : last;
+      },
+      request.timeout,
+    );
+    reportUsage(last);
+    return text;
+  }
+  reportUsage(response.data);
+  return textOf(response.data);
+}
+
+/**
+ * Google Gemini provider
+ */
+export const geminiProvider: AiProviderDefinition = {
+  id: 'gemini',
+  displayName: 'Gemini',
+  label: 'Gemini (Google)',
+  description: 'Use Google Gemini API',
+  keyUrl: 'https://aistudio.google.com/app/apikey',
+  defaultModel: DEFAULT_MODEL,
+  envKeys: ['GEMINI_API_KEY', 'GOOGLE_API_KEY'],
+  models: [
+    'gemini-2.0-flash',
+    'gemini-2.0-flash-lite',
+    'gemini-1.5-flash',
+    'gemini-1.5-pro',
+  ],
+  diffTokenBudget: () => 16000,
+
+  async generate(prompt, options) {
+    try {
+      const text = await generateContent(
+        options.apiKey,
+        generationRequest(prompt, options, DEFAULT_MODEL),
+      );
+      if (!text) {
+        throw new Error('Empty response from Gemini');
+      }
+      return text.trim();
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        if (error.response?.status === 401 || error.response?.status === 403) {
+          throw new Error('Invalid Gemini API key. Please run setup again.');
+        }
+        if (error.response?.status === 429) {
+          throw apiError(
+            error,
+            'Gemini API rate limit exceeded. Please wait a moment and try again.',
+          );
+        }
+        throw apiError(
+          error,
+          `Gemini API error: ${error.response?.status || error.message}`,
+        );
+      }
+      throw error;
+    }
+  },
+
+  validate(options) {
+    return checkApiKey(() =>
+      generateContent(
+        options.apiKey,
+        validationRequest(options, DEFAULT_MODEL),
+      ),
+    );
+  },
+};
@@ -0,0 +1,60 @@
+import axios from 'axios';
+import { bearerAuth, chatCompletion } from './chat-completions.js';
+import {
+  apiError,
+  checkApiKey,
+  generationRequest,
+  validationRequest,
+} from './http.js';
+import type { AiProviderDefinition } from './types.js';
+
+const URL = 'https://models.inference.ai.azure.com/chat/completions';
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+/**
+ * GitHub Models provider (authenticated with a personal access token)
+ */
+export const githubProvider: AiProviderDefinition = {
+  id: 'github',
+  displayName: 'GitHub',
+  label: 'GitHub PAT',
+  description: 'Use GitHub Personal Access Token',
+  keyUrl: 'https://github.com/settings/tokens',
+  defaultModel: DEFAULT_MODEL,
+  envKeys: ['GITHUB_MODELS_TOKEN'],
+  models: ['gpt-4o-mini', 'gpt-4o', 'Meta-Llama-3.1-8B-Instruct'],
+  // The free tier limits requests to 8k input tokens
+  diffTokenBudget: () => 4000,
+
+  async generate(prompt, options) {
+    try {
+      const text = await chatCompletion(
+        URL,
+        bearerAuth(options.apiKey),
+        generationRequest(prompt, options, DEFAULT_MODEL),
+      );
+      if (!text) {
+        throw new Error('Empty response from GitHub Models');
+      }
+      return text.trim();
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        if (error.response?.status === 401) {
+          throw new Error('Invalid GitHub PAT. Please run setup again.');
+        }
+        throw apiError(error, `GitHub Models API error: ${error.message}`);
+      }
+      throw error;
+    }
+  },
+
+  validate(options) {
+    return checkApiKey(() =>
+      chatCompletion(
+        URL,
+        bearerAuth(options.apiKey),
+        validationRequest(options, DEFAULT_MODEL),
+      ),
+    );
+  },
+};
@@ -0,0 +1,243 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  collectStream,
+  DEFAULT_MAX_TOKENS,
+  GENERATE_TIMEOUT,
+  generationRequest,
+  isRetryableError,
+  MAX_RETRY_AFTER,
+  parseRetryAfter,
+  ProviderApiError,
+  readEvents,
+  retryDelay,
+  validationRequest,
+  withRetry,
+} from './http.js';
+
+describe('Provider Requests', () => {
+  describe('generationRequest', () => {
+    it('should fall back to provider defaults', () => {
+      const request = generationRequest('prompt', { apiKey: 'key' }, 'model-a');
+      expect(request).toEqual({
+        model: 'model-a',
+        prompt: 'prompt',
+        maxTokens: DEFAULT_MAX_TOKENS,
+        temperature: undefined,
+        timeout: GENERATE_TIMEOUT,
+      });
+    });
+
+    it('should use configured model and parameters', () => {
+      const request = generationRequest(
+        'prompt',
+        {
+          apiKey: 'key',
+          model: 'model-b',
+          temperature: 0.2,
+          maxTokens: 500,
+          timeout: 5000,
+        },
+        'model-a',
+      );
+      expect(request.model).toBe('model-b');
+      expect(request.temperature).toBe(0.2);
+      expect(request.maxTokens).toBe(500);
+      expect(request.timeout).toBe(5000);
+    });
+  });
+
+  describe('validationRequest', () => {
+    it('should validate the configured model with a tiny request', () => {
+      const request = validationRequest(
+        { apiKey: 'key', model: 'model-b', maxTokens: 500 },
+        'model-a',
+      );
+      expect(request.model).toBe('model-b');
+      expect(request.maxTokens).toBe(5);
+    });
+  });
+
+  describe('withRetry', () => {
+    it('should retry while rate limited', async () => {
+      const request = vi
+        .fn()
+        .mockRejectedValueOnce(new ProviderApiError('slow down', 429))
+        .mockResolvedValueOnce('feat: done');
+
+      await expect(withRetry(request, 3, 0)).resolves.toBe('feat: done');
+      expect(request).toHaveBeenCalledTimes(2);
+    });
+
+    it('should retry timeouts and server errors and report each try', async () => {
+      const onRetry = vi.fn();
+      const request = vi
+        .fn()
+        .mockRejectedValueOnce(
+          new ProviderApiError('timeout', undefined, undefined, 'ECONNABORTED'),
+        )
+        .mockRejectedValueOnce(new ProviderApiError('overloaded', 503))
+        .mockResolvedValueOnce('feat: done');
+
+      await expect(withRetry(request, 3, 0, onRetry)).resolves.toBe(
+        'feat: done',
+      );
+      expect(
+        onRetry.mock.calls.map(([error, , attempt]) => [
+          error.message,
+          attempt,
+        ]),
+      ).toEqual([
+        ['timeout', 1],
+        ['overloaded', 2],
+      ]);
+    });
+
+    it('should not retry errors that would fail again', async () => {
+      const request = vi
+        .fn()
+        .mockRejectedValue(new ProviderApiError('bad request', 400));
+
+      await expect(withRetry(request, 3, 0)).rejects.toThrow('bad request');
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up after the retry limit', async () => {
+      const request = vi
+        .fn()
+        .mockRejectedValue(new ProviderApiError('slow down', 429));
+
+      await expect(withRetry(request, 2, 0)).rejects.toThrow('slow down');
+      expect(request).toHaveBeenCalledTimes(3);
+    });
+
+    it('should stop retrying once aborted', async () => {
+      const controller = new AbortController();
+      const request = vi.fn().mockImplementation(async () => {
+        controller.abort();
+        throw new ProviderApiError('slow down', 429);
+      });
+
+      await expect(
+        withRetry(request, 3, 0, undefined, controller.signal),
+      ).rejects.toThrow('slow down');
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop listening for aborts after each wait', async () => {
+      const controller = new AbortController();
+      const remove = vi.spyOn(controller.signal, 'removeEventListener');
+      const request = vi
+        .fn()
+        .mockRejectedValueOnce(new ProviderApiError('slow down', 429))
+        .mockResolvedValue('ok');
+
+      await expect(
+        withRetry(request, 2, 0, undefined, controller.signal),
+      ).resolves.toBe('ok');
+      expect(remove).toHaveBeenCalledWith('abort', expect.any(Function));
+    });
+
+    it('should not wait out a long Retry-After', async () => {
+      const request = vi
+        .fn()
+        .mockRejectedValue(
+          new ProviderApiError('slow down', 429, MAX_RETRY_AFTER + 1),
+        );
+
+      await expect(withRetry(request, 3, 0)).rejects.toThrow('slow down');
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Streaming', () => {
+    async function* chunks(...parts: string[]) {
+      yield* parts.map((part) => Buffer.from(part));
+    }
+
+    it('should split events across chunks', async () => {
+      const events: string[] = [];
+      for await (const data of readEvents(
+        chunks('event: delta\ndata: {"a"', ':1}\n\ndata: x\r\n', '\r\ndata: y'),
+      )) {
+        events.push(data);
+      }
+      expect(events).toEqual(['{"a":1}', 'x', 'y']);
+    });
+
+    it('should collect the text and stop at [DONE]', async () => {
+      const tokens: string[] = [];
+      const text = await collectStream<{ text?: string }>(
+        chunks(
+          'data: {"text":"feat: "}\n\n',
+          'data: {}\n\ndata: {"text":"añadir"}\n\n',
+          'data: [DONE]\n\ndata: {"text":"ignored"}\n\n',
+        ),
+        (event) => event.text,
+        (token) => tokens.push(token),
+      );
+      expect(text).toBe('feat: añadir');
+      expect(tokens).toEqual(['feat: ', 'añadir']);
+    });
+
+    it('should fail a stream that stops sending', async () => {
+      const destroy = vi.fn();
+      const stalled = {
+        destroy,
+        async *[Symbol.asyncIterator]() {
+          yield Buffer.from('data: {"text":"feat"}\n\n');
+          await new Promise(() => {});
+        },
+      };
+      const error = await collectStream<{ text?: string }>(
+        stalled,
+        (event) => event.text,
+        () => {},
+        undefined,
+        10,
+      ).catch((error) => error);
+      expect(error).toBeInstanceOf(ProviderApiError);
+      expect(error.message).toContain('stalled');
+      expect(isRetryableError(error)).toBe(true);
+      expect(destroy).toHaveBeenCalled();
+    });
+
+    it('should decode characters split between chunks', async () => {
+      const bytes = Buffer.from('data: {"text":"ñ"}\n\n');
+      async function* split() {
+        yield bytes.subarray(0, 16);
+        yield bytes.subarray(16);
+      }
+      await expect(
+        collectStream<{ text?: string }>(
+          split(),
+          (event) => event.text,
+          () => {},
+        ),
+      ).resolves.toBe('ñ');
+    });
+  });
+
+  describe('retryDelay', () => {
+    it('should honor Retry-After', () => {
+      const error = new ProviderApiError('slow down', 429, 7);
+      expect(retryDelay(error, 0, 1000)).toBe(7000);
+    });
+
+    it('should back off exponentially with jitter', () => {
+      const error = new ProviderApiError('overloaded', 503);
+      expect(retryDelay(error, 0, 1000, () => 0)).toBe(500);
+      expect(retryDelay(error, 2, 1000, () => 0)).toBe(2000);
+      expect(retryDelay(error, 2, 1000, () => 1)).toBe(4000);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should read seconds and HTTP dates', () => {
+      const now = Date.parse('2025-01-01T00:00:00Z');
+      expect(parseRetryAfter('12', now)).toBe(12);
+      expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:30 GMT', now)).toBe(30);
+      expect(parseRetryAfter('soon', now)).toBeUndefined();
+      expect(parseRetryAfter(undefined, now)).toBeUndefined();
+    });
+  });
+});
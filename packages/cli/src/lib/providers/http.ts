@@ -0,0 +1,324 @@
+import axios, { type AxiosError } from 'axios';
+import type {
+  ApiKeyValidation,
+  ModelRequest,
+  ProviderRequestOptions,
+} from './types.js';
+
+// Timeouts (ms) for key validation and generation requests
+export const VALIDATE_TIMEOUT = 15000;
+export const GENERATE_TIMEOUT = 60000;
+
+// Default response length for commit messages
+export const DEFAULT_MAX_TOKENS = 200;
+
+// Prompt used when validating an API key
+export const VALIDATE_PROMPT = 'Say "OK"';
+
+// Retries after a failed request before giving up on the provider
+export const RETRIES = 2;
+const RETRY_DELAY = 1000;
+
+// Longer Retry-After waits fail over to the next provider instead
+export const MAX_RETRY_AFTER = 30;
+
+// HTTP statuses worth another try: timeout, rate limit, server trouble
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504, 529]);
+
+// Network error codes worth another try
+const RETRYABLE_CODES = new Set([
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'EAI_AGAIN',
+  'ENOTFOUND',
+]);
+
+/**
+ * A provider error that keeps the HTTP status of the failed request
+ */
+export class ProviderApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    /** Seconds to wait, from the Retry-After header */
+    public readonly retryAfter?: number,
+    /** Network error code, e.g. ECONNABORTED for a timeout */
+    public readonly code?: string,
+  ) {
+    super(message);
+    this.name = 'ProviderApiError';
+  }
+}
+
+/**
+ * Seconds to wait from a Retry-After header (seconds or an HTTP date)
+ */
+export function parseRetryAfter(
+  header: unknown,
+  now: number = Date.now(),
+): number | undefined {
+  if (typeof header !== 'string' && typeof header !== 'number') {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds, 0);
+  }
+  const date = Date.parse(String(header));
+  return Number.isNaN(date) ? undefined : Math.max((date - now) / 1000, 0);
+}
+
+/**
+ * Wrap a failed request in a ProviderApiError with a readable message
+ */
+export function apiError(error: AxiosError, message: string): ProviderApiError {
+  return new ProviderApiError(
+    message,
+    error.response?.status,
+    parseRetryAfter(error.response?.headers?.['retry-after']),
+    error.code,
+  );
+}
+
+/**
+ * Whether another try may succeed: rate limits, timeouts, network
+ * and server errors. Bad keys and bad requests fail the same way again.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof ProviderApiError || axios.isAxiosError(error)) {
+    const status =
+      error instanceof ProviderApiError ? error.status : error.response?.status;
+    if (status !== undefined) {
+      return RETRYABLE_STATUSES.has(status);
+    }
+    return !!error.code && RETRYABLE_CODES.has(error.code);
+  }
+  return false;
+}
+
+/**
+ * Milliseconds to wait before the next try: the Retry-After header when
+ * given, otherwise exponential backoff with jitter so parallel requests
+ * do not retry in lockstep
+ */
+export function retryDelay(
+  error: unknown,
+  attempt: number,
+  delay: number = RETRY_DELAY,
+  random: () => number = Math.random,
+): number {
+  const retryAfter =
+    error instanceof ProviderApiError ? error.retryAfter : undefined;
+  if (retryAfter !== undefined) {
+    return retryAfter * 1000;
+  }
+  const backoff = delay * 2 ** attempt;
+  return Math.round(backoff / 2 + (random() * backoff) / 2);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      reject(new Error('Request aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', abort, { once: true });
+  });
+}
+
+/**
+ * Run a request, retrying errors that may go away with exponential
+ * backoff. onRetry is told about each failed try before the wait.
+ * An aborted signal stops the retries.
+ */
+export async function withRetry<T>(
+  request: () => Promise<T>,
+  retries: number = RETRIES,
+  delay: number = RETRY_DELAY,
+  onRetry?: (error: unknown, wait: number, attempt: number) => void,
+  signal?: AbortSignal,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (attempt >= retries || signal?.aborted || !isRetryableError(error)) {
+        throw error;
+      }
+      const wait = retryDelay(error, attempt, delay);
+      if (wait > MAX_RETRY_AFTER * 1000) {
+        throw error;
+      }
+      onRetry?.(error, wait, attempt + 1);
+      await sleep(wait, signal);
+    }
+  }
+}
+
+/**
+ * Read the data of each server-sent event from a response stream
+ */
+export async function* readEvents(
+  stream: AsyncIterable<Buffer | string>,
+): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let data: string[] = [];
+  for await (const chunk of stream) {
+    buffer +=
+      typeof chunk === 'string'
+        ? chunk
+        : decoder.decode(chunk, { stream: true });
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      // A blank line ends an event
+      if (line === '' && data.length > 0) {
+        yield data.join('\n');
+        data = [];
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).replace(/^ /, ''));
+      }
+    }
+  }
+  if (buffer.startsWith('data:')) {
+    data.push(buffer.slice(5).replace(/^ /, ''));
+  }
+  if (data.length > 0) {
+    yield data.join('\n');
+  }
+}
+
+/**
+ * The next item of an iterator, or a timeout error after ms without one
+ */
+async function nextWithin<T>(
+  iterator: AsyncIterator<T>,
+  ms: number,
+): Promise<IteratorResult<T>> {
+  let timer: NodeJS.Timeout | undefined;
+  const idle = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () =>
+        reject(
+          new ProviderApiError(
+            `The response stream stalled (nothing for ${ms / 1000}s).`,
+            undefined,
+            undefined,
+            'ETIMEDOUT',
+          ),
+        ),
+      ms,
+    );
+  });
+  try {
+    return await Promise.race([iterator.next(), idle]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Collect a streamed response: each event is parsed as JSON, the text
+ * it adds is passed to onToken and the whole text is returned. Every
+ * event is also passed to onEvent, e.g. to read usage counts. A stream
+ * that sends nothing for idleTimeout ms is closed and fails as a
+ * timeout, so it can be retried.
+ */
+export async function collectStream<T>(
+  stream: AsyncIterable<Buffer | string>,
+  textOf: (event: T) => string | undefined,
+  onToken: (text: string) => void,
+  onEvent?: (event: T) => void,
+  idleTimeout: number = GENERATE_TIMEOUT,
+): Promise<string> {
+  const events = readEvents(stream);
+  let text = '';
+  try {
+    for (;;) {
+      const { done, value: data } = await nextWithin(events, idleTimeout);
+      // OpenAI-compatible APIs end the stream with a marker
+      if (done || data === '[DONE]') {
+        break;
+      }
+      const event = JSON.parse(data) as T;
+      onEvent?.(event);
+      const piece = textOf(event);
+      if (piece) {
+        text += piece;
+        onToken(piece);
+      }
+    }
+  } catch (error) {
+    // A stalled reader cannot be stopped, so close the connection under it
+    (stream as { destroy?: () => void }).destroy?.();
+    throw error;
+  }
+  await events.return(undefined);
+  return text;
+}
+
+/**
+ * Resolve a generation request from the configured settings
+ */
+export function generationRequest(
+  prompt: string,
+  options: ProviderRequestOptions,
+  defaultModel: string,
+): ModelRequest {
+  return {
+    model: options.model || defaultModel,
+    prompt,
+    maxTokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+    temperature: options.temperature,
+    timeout: options.timeout ?? GENERATE_TIMEOUT,
+    signal: options.signal,
+    onToken: options.onToken,
+    onUsage: options.onUsage,
+  };
+}
+
+/**
+ * Resolve a minimal request used to validate credentials and model
+ */
+export function validationRequest(
+  options: ProviderRequestOptions,
+  defaultModel: string,
+): ModelRequest {
+  return {
+    model: options.model || defaultModel,
+    prompt: VALIDATE_PROMPT,
+    maxTokens: 5,
+    timeout: VALIDATE_TIMEOUT,
+  };
+}
+
+/**
+ * Run a minimal request and map the outcome to a key validation result
+ */
+export async function checkApiKey(
+  request: () => Promise<unknown>,
+): Promise<ApiKeyValidation> {
+  try {
+    await request();
+    return { valid: true };
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      if (error.response?.status === 401 || error.response?.status === 403) {
+        return { valid: false, error: 'Invalid API key' };
+      }
+      if (error.response?.status === 429) {
+        // Rate limited but key is valid
+        return { valid: true };
+      }
+      return { valid: false, error: error.message };
+    }
+    return { valid: false, error: 'Connection error' };
+  }
+}
@@ -0,0 +1,28 @@
+import type { AiProviderDefinition } from './types.js';
+
+export const OFFLINE_PROVIDER = 'offline';
+
+/**
+ * Rule-based commit messages from the staged file list, with no network
+ * or key. generateCommitMessages builds them itself; other prompts
+ * (branch names, pull requests, split plans) need a real model.
+ */
+export const offlineProvider: AiProviderDefinition = {
+  id: OFFLINE_PROVIDER,
+  displayName: 'Offline',
+  label: 'Offline (no AI)',
+  description: 'Rule-based messages from the changed files, no network',
+  keyUrl: '',
+  defaultModel: 'rules',
+  requiresApiKey: false,
+
+  async generate() {
+    throw new Error(
+      'The offline provider only writes commit messages. Pick an AI provider with --profile or GIT_AI_PROVIDER.',
+    );
+  },
+
+  async validate() {
+    return { valid: true };
+  },
+};
@@ -0,0 +1,60 @@
+import axios from 'axios';
+import { bearerAuth, chatCompletion } from './chat-completions.js';
+import {
+  apiError,
+  checkApiKey,
+  generationRequest,
+  validationRequest,
+} from './http.js';
+import type { AiProviderDefinition } from './types.js';
+
+const URL = 'https://api.openai.com/v1/chat/completions';
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+/**
+ * OpenAI (GPT) provider
+ */
+export const openaiProvider: AiProviderDefinition = {
+  id: 'openai',
+  displayName: 'OpenAI',
+  label: 'OpenAI (GPT)',
+  description: 'Use OpenAI GPT API',
+  keyUrl: 'https://platform.openai.com/api-keys',
+  defaultModel: DEFAULT_MODEL,
+  envKeys: ['OPENAI_API_KEY'],
+  models: ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1-mini', 'gpt-4.1'],
+  diffTokenBudget: (model) => (model.startsWith('gpt-3.5') ? 3000 : 12000),
+
+  async generate(prompt, options) {
+    try {
+      const text = await chatCompletion(
+        URL,
+        bearerAuth(options.apiKey),
+        generationRequest(prompt, options, DEFAULT_MODEL),
+        true,
+      );
+      if (!text) {
+        throw new Error('Empty response from OpenAI');
+      }
+      return text.trim();
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        if (error.response?.status === 401) {
+          throw new Error('Invalid OpenAI API key. Please run setup again.');
+        }
+        throw apiError(error, `OpenAI API error: ${error.message}`);
+      }
+      throw error;
+    }
+  },
+
+  validate(options) {
+    return checkApiKey(() =>
+      chatCompletion(
+        URL,
+        bearerAuth(options.apiKey),
+        validationRequest(options, DEFAULT_MODEL),
+      ),
+    );
+  },
+};
@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  findProvider,
+  getProvider,
+  hasProvider,
+  listProviders,
+  registerProvider,
+  unregisterProvider,
+} from './registry.js';
+import type { AiProviderDefinition } from './types.js';
+
+const inHouseProvider: AiProviderDefinition = {
+  id: 'in-house',
+  displayName: 'In-House',
+  description: 'Use the in-house gateway',
+  keyUrl: 'https://example.com/keys',
+  defaultModel: 'in-house-1',
+  generate: async (prompt) => `feat: ${prompt.length}`,
+  validate: async () => ({ valid: true }),
+};
+
+describe('Provider Registry', () => {
+  afterEach(() => {
+    unregisterProvider('in-house');
+  });
+
+  describe('Built-in providers', () => {
+    it('should register the built-in providers in order', () => {
+      expect(listProviders().map((provider) => provider.id)).toEqual([
+        'gemini',
+        'openai',
+        'anthropic',
+        'github',
+        'custom',
+        'offline',
+      ]);
+    });
+
+    it('should expose display name and key URL', () => {
+      const gemini = getProvider('gemini');
+      expect(gemini.displayName).toBe('Gemini');
+      expect(gemini.keyUrl).toContain('aistudio.google.com');
+    });
+  });
+
+  describe('Registration', () => {
+    it('should register a custom provider', async () => {
+      registerProvider(inHouseProvider);
+      expect(hasProvider('in-house')).toBe(true);
+      await expect(
+        getProvider('in-house').generate('abc', { apiKey: 'key' }),
+      ).resolves.toBe('feat: 3');
+    });
+
+    it('should reject a provider without generate', () => {
+      expect(() =>
+        registerProvider({ id: 'broken' } as AiProviderDefinition),
+      ).toThrow('Invalid AI provider');
+    });
+
+    it('should throw for unknown providers', () => {
+      expect(findProvider('missing')).toBeUndefined();
+      expect(hasProvider(undefined)).toBe(false);
+      expect(() => getProvider('missing')).toThrow(
+        'Unknown AI provider: missing',
+      );
+    });
+  });
+});
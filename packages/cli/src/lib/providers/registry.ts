@@ -0,0 +1,89 @@
+import path from 'path';
+import { anthropicProvider } from './anthropic.js';
+import { customProvider } from './custom.js';
+import { geminiProvider } from './gemini.js';
+import { githubProvider } from './github.js';
+import { offlineProvider } from './offline.js';
+import { openaiProvider } from './openai.js';
+import type { AiProviderDefinition } from './types.js';
+
+const providers = new Map<string, AiProviderDefinition>();
+
+/**
+ * Register an AI provider (replaces any provider with the same id)
+ */
+export function registerProvider(provider: AiProviderDefinition): void {
+  if (!provider.id || typeof provider.generate !== 'function') {
+    throw new Error('Invalid AI provider: missing id or generate function');
+  }
+  providers.set(provider.id, provider);
+}
+
+/**
+ * Remove a registered provider
+ */
+export function unregisterProvider(id: string): boolean {
+  return providers.delete(id);
+}
+
+/**
+ * Check if a provider is registered
+ */
+export function hasProvider(id: string | undefined): boolean {
+  return !!id && providers.has(id);
+}
+
+/**
+ * Find a provider by id
+ */
+export function findProvider(id: string): AiProviderDefinition | undefined {
+  return providers.get(id);
+}
+
+/**
+ * Get a provider by id, throwing if it is not registered
+ */
+export function getProvider(id: string): AiProviderDefinition {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`Unknown AI provider: ${id}`);
+  }
+  return provider;
+}
+
+/**
+ * List all registered providers in registration order
+ */
+export function listProviders(): AiProviderDefinition[] {
+  return [...providers.values()];
+}
+
+/**
+ * Load provider plugins from module paths.
+ * A plugin module exports a provider (or an array of providers) as its
+ * default export or as `provider`/`providers`.
+ */
+export async function loadProviderPlugins(modules: string[]): Promise<void> {
+  for (const modulePath of modules) {
+    const resolved = modulePath.startsWith('.')
+      ? path.resolve(modulePath)
+      : modulePath;
+    const plugin = await import(resolved);
+    const exported =
+      plugin.providers ?? plugin.provider ?? plugin.default ?? plugin;
+    const definitions = Array.isArray(exported) ? exported : [exported];
+    definitions.forEach((definition: AiProviderDefinition) =>
+      registerProvider(definition),
+    );
+  }
+}
+
+// Built-in providers
+[
+  geminiProvider,
+  openaiProvider,
+  anthropicProvider,
+  githubProvider,
+  customProvider,
+  offlineProvider,
+].forEach(registerProvider);
@@ -0,0 +1,104 @@
+/**
+ * Connection settings for providers that talk to a user-configured endpoint
+ */
+export interface EndpointSettings {
+  /** Base URL, e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+  /** Model name sent with each request */
+  model: string;
+  /** Header carrying the API key (default: Authorization with Bearer) */
+  authHeader?: string;
+}
+
+/**
+ * Model and generation parameters (unset values use provider defaults)
+ */
+export interface GenerationSettings {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  /** Request timeout in milliseconds */
+  timeout?: number;
+  /** Token budget for the condensed diff in the prompt */
+  diffTokens?: number;
+}
+
+/**
+ * Options passed to a provider for a single request
+ */
+export interface ProviderRequestOptions
+  extends GenerationSettings, StreamOptions {
+  apiKey: string;
+  endpoint?: EndpointSettings;
+}
+
+/**
+ * Tokens used by a request, as reported by the provider
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Cancellation, streaming and usage reporting of a single request
+ */
+export interface StreamOptions {
+  /** Aborts the request, e.g. on Ctrl-C */
+  signal?: AbortSignal;
+  /** Stream the response, receiving each piece of text as it arrives */
+  onToken?: (text: string) => void;
+  /** Receives the token counts when the response includes them */
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+/**
+ * A fully resolved request to a model
+ */
+export interface ModelRequest extends StreamOptions {
+  model: string;
+  prompt: string;
+  maxTokens: number;
+  temperature?: number;
+  timeout: number;
+}
+
+/**
+ * Result of validating an API key against a provider
+ */
+export interface ApiKeyValidation {
+  valid: boolean;
+  error?: string;
+}
+
+/**
+ * An AI provider that can turn a prompt into a commit message
+ */
+export interface AiProviderDefinition {
+  /** Identifier stored in config (e.g. "gemini") */
+  id: string;
+  /** Human readable name shown in prompts */
+  displayName: string;
+  /** Name shown in the provider picker (defaults to displayName) */
+  label?: string;
+  /** Short description shown in the provider picker */
+  description: string;
+  /** Where the user can create an API key */
+  keyUrl: string;
+  /** Model used when none is configured */
+  defaultModel: string;
+  /** Suggested models shown in the model picker */
+  models?: string[];
+  /** Environment variables that may hold the API key */
+  envKeys?: string[];
+  /** Whether an API key must be provided (default: true) */
+  requiresApiKey?: boolean;
+  /** Whether setup must ask for an endpoint (base URL, model) */
+  usesEndpoint?: boolean;
+  /** Token budget for the diff with a given model (default: 2000) */
+  diffTokenBudget?(model: string): number;
+  /** Send a prompt and return the trimmed response text */
+  generate(prompt: string, options: ProviderRequestOptions): Promise<string>;
+  /** Check that the credentials work with a minimal request */
+  validate(options: ProviderRequestOptions): Promise<ApiKeyValidation>;
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import {
+  describeRedaction,
+  isWithheld,
+  redactDiff,
+  redactText,
+  type RedactionSettings,
+} from './redact.js';
+
+// Built at runtime so the fixtures do not trip scanners on this repo
+const AWS_KEY = ['AKIA', 'Z7QWERTY4UIOP2AS'].join('');
+
+const SETTINGS: RedactionSettings = {
+  redactSecrets: true,
+  redactEmails: true,
+  redactPatterns: [],
+  redactPaths: [],
+};
+
+const DIFF = `diff --git a/src/app.ts b/src/app.ts
+index 1111111..2222222 100644
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -1,2 +1,2 @@
+-const owner = 'old@example.com';
++const owner = 'jane.doe@corp.io';
+ const region = 'eu-west-1';
+diff --git a/config/prod.yml b/config/prod.yml
+index 3333333..4444444 100644
+--- a/config/prod.yml
++++ b/config/prod.yml
+@@ -3,1 +3,1 @@ database:
+-db_host: 10.0.0.1
++db_host: 10.0.0.2`;
+
+describe('Redaction', () => {
+  describe('redactText', () => {
+    it('should mask known secrets and keep the name of generic ones', () => {
+      const { text, masked } = redactText(
+        `key = "${AWS_KEY}"\napi_key: "9fQ2xL7pK3mW8vR1tZ6y"\ntoken = process.env.TOKEN`,
+        SETTINGS,
+      );
+      expect(text).toBe(
+        'key = "[REDACTED:aws-access-key]"\napi_key: "[REDACTED:generic-secret]"\ntoken = process.env.TOKEN',
+      );
+      expect(masked).toBe(2);
+    });
+
+    it('should mask emails and custom patterns', () => {
+      const { text } = redactText('Contact ops@corp.io about ACME-1234', {
+        ...SETTINGS,
+        redactPatterns: ['ACME-\\d+'],
+      });
+      expect(text).toBe('Contact [REDACTED:email] about [REDACTED:pattern]');
+    });
+
+    it('should leave text alone when switched off', () => {
+      const text = `ops@corp.io ${AWS_KEY}`;
+      expect(
+        redactText(text, {
+          ...SETTINGS,
+          redactSecrets: false,
+          redactEmails: false,
+        }).text,
+      ).toBe(text);
+    });
+
+    it('should keep the marker of a diff line starting with an email', () => {
+      const { text, masked } = redactText(
+        '+alice@corp.com\n-bob+git@corp.com\n Jane <jane@corp.com>',
+        SETTINGS,
+      );
+      expect(text).toBe(
+        '+[REDACTED:email]\n-[REDACTED:email]\n Jane <[REDACTED:email]>',
+      );
+      expect(masked).toBe(3);
+    });
+
+    it('should reject invalid patterns', () => {
+      expect(() =>
+        redactText('x', { ...SETTINGS, redactPatterns: ['('] }),
+      ).toThrow('Invalid redact pattern: (');
+    });
+  });
+
+  describe('redactDiff', () => {
+    it('should send only the names of withheld files', () => {
+      const redaction = redactDiff(DIFF, {
+        ...SETTINGS,
+        redactPaths: ['config/**'],
+      });
+      expect(redaction.withheld).toEqual(['config/prod.yml']);
+      expect(redaction.text).toContain('diff --git a/config/prod.yml');
+      expect(redaction.text.endsWith('\n@@ -3,1 +3,1 @@')).toBe(true);
+      expect(redaction.text).not.toContain('database:');
+      expect(redaction.text).not.toContain('10.0.0');
+      expect(redaction.text).toContain("+const owner = '[REDACTED:email]';");
+      expect(describeRedaction(redaction)).toBe(
+        'Masked 2 values and withheld the content of config/prod.yml before sending to the AI.',
+      );
+    });
+
+    it('should report nothing when nothing matches', () => {
+      const redaction = redactDiff(DIFF, { ...SETTINGS, redactEmails: false });
+      expect(redaction.text).toBe(DIFF);
+      expect(describeRedaction(redaction)).toBeUndefined();
+    });
+  });
+
+  describe('isWithheld', () => {
+    it('should match globs at any depth', () => {
+      const settings = { ...SETTINGS, redactPaths: ['**/*.pem', 'secrets/*'] };
+      expect(isWithheld('server.pem', settings)).toBe(true);
+      expect(isWithheld('deploy/certs/server.pem', settings)).toBe(true);
+      expect(isWithheld('secrets/prod.json', settings)).toBe(true);
+      expect(isWithheld('secrets/nested/prod.json', settings)).toBe(false);
+    });
+  });
+});
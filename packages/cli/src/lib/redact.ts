@@ -0,0 +1,177 @@
+import chalk from 'chalk';
+import { parseDiff, type FileDiff } from './diff.js';
+import type { ProjectSettings } from './project-config.js';
+import { CONTENT_RULES, globToRegExp, looksLikeSecret } from './scan.js';
+import { getSettings } from './settings.js';
+
+// The local part cannot start with + or -, so the marker of a diff line
+// like "+alice@corp.com" stays in place
+const EMAIL =
+  /[A-Za-z0-9._%][A-Za-z0-9._%+-]*@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g;
+
+// The ranges of a hunk header, without the function context git adds
+const HUNK_RANGE = /^@@ [^@]* @@/;
+
+export type RedactionSettings = Pick<
+  Required<ProjectSettings>,
+  'redactSecrets' | 'redactEmails' | 'redactPatterns' | 'redactPaths'
+>;
+
+export interface RedactedText {
+  text: string;
+  /** Number of values replaced */
+  masked: number;
+}
+
+export interface RedactedDiff extends RedactedText {
+  /** Files whose content was left out */
+  withheld: string[];
+}
+
+/**
+ * Placeholder sent instead of a masked value
+ */
+export function placeholder(kind: string): string {
+  return `[REDACTED:${kind}]`;
+}
+
+function compilePatterns(patterns: string[]): RegExp[] {
+  return patterns.map((pattern) => {
+    try {
+      return new RegExp(pattern, 'g');
+    } catch {
+      throw new Error(`Invalid redact pattern: ${pattern}`);
+    }
+  });
+}
+
+/**
+ * Mask secrets, emails and the custom patterns in a piece of text
+ */
+export function redactText(
+  text: string,
+  settings: RedactionSettings,
+): RedactedText {
+  let masked = 0;
+  let result = text;
+
+  if (settings.redactSecrets) {
+    for (const rule of CONTENT_RULES) {
+      const pattern = new RegExp(rule.pattern.source, `${rule.pattern.flags}g`);
+      result = result.replace(pattern, (match, ...groups) => {
+        const value: string = rule.group ? groups[rule.group - 1] : match;
+        if (!value || !looksLikeSecret(rule, value)) {
+          return match;
+        }
+        masked++;
+        // Keep the name in "api_key = ..." so the model knows what changed
+        const start = match.lastIndexOf(value);
+        return `${match.slice(0, start)}${placeholder(rule.id)}${match.slice(start + value.length)}`;
+      });
+    }
+  }
+  if (settings.redactEmails) {
+    result = result.replace(EMAIL, () => {
+      masked++;
+      return placeholder('email');
+    });
+  }
+  for (const pattern of compilePatterns(settings.redactPatterns)) {
+    result = result.replace(pattern, (match) => {
+      if (!match) {
+        return match;
+      }
+      masked++;
+      return placeholder('pattern');
+    });
+  }
+  return { text: result, masked };
+}
+
+/**
+ * Whether a file's content must not be sent (redactPaths)
+ */
+export function isWithheld(file: string, settings: RedactionSettings): boolean {
+  return settings.redactPaths.some((glob) => globToRegExp(glob).test(file));
+}
+
+/**
+ * A file diff with just its header and hunk ranges, no content. The
+ * text after the second @@ is a line of the file, so it goes too.
+ */
+export function withholdContent(file: FileDiff): FileDiff {
+  return {
+    ...file,
+    hunks: file.hunks.map((hunk) => [HUNK_RANGE.exec(hunk[0])?.[0] ?? '@@']),
+    additions: 0,
+    deletions: 0,
+  };
+}
+
+/**
+ * Redact a diff: files matching redactPaths keep only their names,
+ * the rest is masked like any other text
+ */
+export function redactDiff(
+  diff: string,
+  settings: RedactionSettings,
+): RedactedDiff {
+  const withheld: string[] = [];
+  const sections = parseDiff(diff).map((file) => {
+    if (!isWithheld(file.path, settings)) {
+      return file;
+    }
+    withheld.push(file.path);
+    return withholdContent(file);
+  });
+  const joined =
+    withheld.length > 0
+      ? sections
+          .map((file) => [...file.header, ...file.hunks.flat()].join('\n'))
+          .join('\n')
+      : diff;
+  return { ...redactText(joined, settings), withheld };
+}
+
+/**
+ * Say what was redacted, e.g. "Masked 2 values before sending to the AI."
+ */
+export function describeRedaction(redaction: RedactedDiff): string | undefined {
+  const parts = [
+    redaction.masked > 0 &&
+      `masked ${redaction.masked} value${redaction.masked === 1 ? '' : 's'}`,
+    redaction.withheld.length > 0 &&
+      `withheld the content of ${redaction.withheld.join(', ')}`,
+  ].filter(Boolean);
+  if (parts.length === 0) {
+    return undefined;
+  }
+  const text = `${parts.join(' and ')} before sending to the AI.`;
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Redact a diff with the configured settings, telling the user what
+ * was left out
+ */
+export function redactForAi(
+  diff: string,
+  settings: RedactionSettings = getSettings(),
+): string {
+  const redaction = redactDiff(diff, settings);
+  const notice = describeRedaction(redaction);
+  if (notice) {
+    console.log(chalk.gray(notice));
+  }
+  return redaction.text;
+}
+
+/**
+ * The final form of every prompt sent to a provider
+ */
+export function redactPrompt(
+  prompt: string,
+  settings: RedactionSettings = getSettings(),
+): string {
+  return redactText(prompt, settings).text;
+}
@@ -0,0 +1,313 @@
+import crypto from 'crypto';
+import path from 'path';
+import { parseDiff } from './diff.js';
+
+// Marker that allows a single line, e.g. a test fixture
+export const ALLOW_MARKER = 'git-ai:allow';
+
+// Minimum Shannon entropy (bits per character) for generic secrets
+const MIN_SECRET_ENTROPY = 3.5;
+
+// Values that look like placeholders rather than real secrets
+const PLACEHOLDER =
+  /x{4,}|\*{4,}|example|changeme|placeholder|your[_-]|<.*>|\$\{/i;
+
+export interface Finding {
+  path: string;
+  line?: number;
+  rule: string;
+  message: string;
+  /** Short hash of the matched value, for allowlisting it */
+  fingerprint?: string;
+}
+
+export interface ContentRule {
+  id: string;
+  description: string;
+  pattern: RegExp;
+  /** Capture group holding the secret (default: the whole match) */
+  group?: number;
+  /** Only report values with at least this entropy */
+  minEntropy?: number;
+}
+
+/**
+ * Credential formats matched in added lines
+ */
+export const CONTENT_RULES: ContentRule[] = [
+  {
+    id: 'private-key',
+    description: 'private key',
+    pattern:
+      /-----BEGIN (?:RSA |EC |DSA |OPENSSH |PGP |ENCRYPTED )?PRIVATE KEY(?: BLOCK)?-----/,
+  },
+  {
+    id: 'aws-access-key',
+    description: 'AWS access key',
+    pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/,
+  },
+  {
+    id: 'github-token',
+    description: 'GitHub token',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/,
+  },
+  {
+    id: 'slack-token',
+    description: 'Slack token',
+    pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/,
+  },
+  {
+    id: 'stripe-key',
+    description: 'Stripe secret key',
+    pattern: /\b[sr]k_live_[0-9A-Za-z]{20,}/,
+  },
+  {
+    id: 'google-api-key',
+    description: 'Google API key',
+    pattern: /\bAIza[0-9A-Za-z_-]{35}\b/,
+  },
+  {
+    id: 'anthropic-key',
+    description: 'Anthropic API key',
+    pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/,
+  },
+  {
+    id: 'openai-key',
+    description: 'OpenAI API key',
+    pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{32,}/,
+  },
+  {
+    id: 'generic-secret',
+    description: 'high-entropy secret',
+    pattern:
+      /[\w.-]*(?:api[_-]?key|secret|token|passw(?:or)?d|pwd|credential)[\w.-]*["']?\s*[:=]\s*["']?([A-Za-z0-9+/=_~.-]{12,})/i,
+    group: 1,
+    minEntropy: MIN_SECRET_ENTROPY,
+  },
+];
+
+interface PathRule {
+  id: string;
+  description: string;
+  pattern: RegExp;
+}
+
+/**
+ * Files that usually hold credentials, matched against the file name
+ */
+export const PATH_RULES: PathRule[] = [
+  {
+    id: 'env-file',
+    description: '.env files usually hold secrets',
+    pattern: /^\.env(?!\.(?:example|sample|template|dist)$)(?:\..+)?$/,
+  },
+  {
+    id: 'ssh-key',
+    description: 'SSH private key',
+    pattern: /^id_(?:rsa|dsa|ecdsa|ed25519)$/,
+  },
+  {
+    id: 'key-file',
+    description: 'key or certificate store',
+    pattern: /\.(?:pem|key|p12|pfx|jks|keystore|kdbx)$/,
+  },
+  {
+    id: 'credentials-file',
+    description: 'credentials file',
+    pattern: /^(?:\.netrc|\.pgpass|\.htpasswd|credentials(?:\.json)?)$/,
+  },
+];
+
+/**
+ * Shannon entropy in bits per character
+ */
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Short, stable id of a secret value that does not reveal it
+ */
+export function fingerprint(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex').slice(0, 12);
+}
+
+/**
+ * Show just enough of a secret to recognize it
+ */
+export function maskSecret(value: string): string {
+  return value.length <= 12
+    ? `${value.slice(0, 2)}…`
+    : `${value.slice(0, 4)}…${value.slice(-4)}`;
+}
+
+/**
+ * Parse a size like "5MB", "500 KB" or "1048576" into bytes
+ */
+export function parseSize(size: string): number {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?\s*$/i.exec(size);
+  if (!match) {
+    throw new Error(`Invalid size "${size}". Use e.g. 500KB or 5MB.`);
+  }
+  const units: Record<string, number> = {
+    b: 1,
+    kb: 1024,
+    mb: 1024 ** 2,
+    gb: 1024 ** 3,
+  };
+  return Math.round(Number(match[1]) * units[(match[2] ?? 'b').toLowerCase()]);
+}
+
+/**
+ * Format bytes as KB or MB
+ */
+export function formatSize(bytes: number): string {
+  return bytes >= 1024 ** 2
+    ? `${(bytes / 1024 ** 2).toFixed(1)} MB`
+    : `${Math.ceil(bytes / 1024)} KB`;
+}
+
+/**
+ * Find credentials in added lines and sensitive file names
+ */
+export function scanDiff(diff: string): Finding[] {
+  const findings: Finding[] = [];
+  for (const file of parseDiff(diff)) {
+    if (file.change === 'deleted') {
+      continue;
+    }
+    const name = path.posix.basename(file.path);
+    for (const rule of PATH_RULES) {
+      if (rule.pattern.test(name)) {
+        findings.push({
+          path: file.path,
+          rule: rule.id,
+          message: rule.description,
+        });
+      }
+    }
+
+    for (const hunk of file.hunks) {
+      // New line numbers from "@@ -a,b +c,d @@"
+      let line = Number(/\+(\d+)/.exec(hunk[0])?.[1] ?? 1);
+      for (const text of hunk.slice(1)) {
+        if (text.startsWith('-') || text.startsWith('\\')) {
+          continue;
+        }
+        if (text.startsWith('+') && !text.includes(ALLOW_MARKER)) {
+          findings.push(...scanLine(text.slice(1), file.path, line));
+        }
+        line++;
+      }
+    }
+  }
+  return findings;
+}
+
+/**
+ * Whether a rule's match is a real secret. Generated secrets mix
+ * letters and digits; code like process.env.X does not.
+ */
+export function looksLikeSecret(rule: ContentRule, value: string): boolean {
+  return (
+    rule.minEntropy === undefined ||
+    (shannonEntropy(value) >= rule.minEntropy &&
+      /\d/.test(value) &&
+      !PLACEHOLDER.test(value))
+  );
+}
+
+function scanLine(text: string, file: string, line: number): Finding[] {
+  const findings: Finding[] = [];
+  for (const rule of CONTENT_RULES) {
+    const match = rule.pattern.exec(text);
+    const value = match?.[rule.group ?? 0];
+    if (!value || !looksLikeSecret(rule, value)) {
+      continue;
+    }
+    findings.push({
+      path: file,
+      line,
+      rule: rule.id,
+      message: `${rule.description} (${maskSecret(value)})`,
+      fingerprint: fingerprint(value),
+    });
+    // One finding per line is enough
+    break;
+  }
+  return findings;
+}
+
+/**
+ * Files over the size limit
+ */
+export function checkFileSizes(
+  files: { path: string; size: number }[],
+  limit: number,
+): Finding[] {
+  return files
+    .filter((file) => file.size > limit)
+    .map((file) => ({
+      path: file.path,
+      rule: 'large-file',
+      message: `${formatSize(file.size)}, over the ${formatSize(limit)} limit`,
+    }));
+}
+
+/**
+ * Regex for a path glob: "*" stays within a directory and "**" crosses
+ * them, so a leading "**" also matches files at the root
+ */
+export function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .replace(/^\*\*\//, '')
+    .split('**')
+    .map((part) =>
+      part
+        .split('*')
+        .map((piece) => piece.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('[^/]*'),
+    )
+    .join('.*');
+  return new RegExp(`^${glob.startsWith('**/') ? '(?:.*/)?' : ''}${source}$`);
+}
+
+/**
+ * Drop allowlisted findings. Entries are path globs, "rule:<id>" or
+ * the fingerprint of a value.
+ */
+export function filterAllowed(
+  findings: Finding[],
+  allowlist: string[],
+): Finding[] {
+  const globs = allowlist
+    .filter((entry) => !entry.startsWith('rule:'))
+    .map(globToRegExp);
+  return findings.filter(
+    (finding) =>
+      !allowlist.includes(`rule:${finding.rule}`) &&
+      !(finding.fingerprint && allowlist.includes(finding.fingerprint)) &&
+      !globs.some((glob) => glob.test(finding.path)),
+  );
+}
+
+/**
+ * One line per finding, e.g. "src/config.ts:12  AWS access key (AKIA…MPLE)  [3f2a…]"
+ */
+export function formatFinding(finding: Finding): string {
+  const location =
+    finding.line !== undefined
+      ? `${finding.path}:${finding.line}`
+      : finding.path;
+  const id = finding.fingerprint ?? `rule:${finding.rule}`;
+  return `${location}  ${finding.message}  [${id}]`;
+}
@@ -0,0 +1,146 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createEncryptedFileStore,
+  decryptValue,
+  deriveKey,
+  encryptValue,
+  keychainStore,
+} from './secrets.js';
+
+describe('Secret Storage', () => {
+  describe('Encryption', () => {
+    it('should round-trip a value', () => {
+      const key = deriveKey('passphrase', crypto.randomBytes(16));
+      const encrypted = encryptValue(key, 'sk-secret');
+      expect(encrypted.data).not.toContain('sk-secret');
+      expect(decryptValue(key, encrypted)).toBe('sk-secret');
+    });
+
+    it('should fail with the wrong key', () => {
+      const salt = crypto.randomBytes(16);
+      const encrypted = encryptValue(deriveKey('right', salt), 'sk-secret');
+      expect(() => decryptValue(deriveKey('wrong', salt), encrypted)).toThrow();
+    });
+  });
+
+  describe('Keychain Store', () => {
+    let dir: string;
+
+    // A secret-tool on PATH that prints and exits as given
+    const fakeSecretTool = (script: string) => {
+      const tool = path.join(dir, 'secret-tool');
+      fs.writeFileSync(tool, `#!/bin/sh\n${script}\n`, { mode: 0o755 });
+      vi.stubEnv('PATH', `${dir}${path.delimiter}${process.env.PATH}`);
+    };
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-ai-keychain-'));
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should be available when the Secret Service answers', () => {
+      fakeSecretTool('exit 0');
+      expect(keychainStore.isAvailable()).toBe(true);
+    });
+
+    it('should not be available without D-Bus', () => {
+      fakeSecretTool(
+        'echo "secret-tool: Cannot autolaunch D-Bus without X11 \\$DISPLAY" >&2\nexit 1',
+      );
+      expect(keychainStore.isAvailable()).toBe(false);
+    });
+
+    it('should list the stored accounts', async () => {
+      fakeSecretTool(
+        [
+          'echo "[/org/freedesktop/secrets/collection/login/1]"',
+          'echo "label = git-ai (openai)"',
+          'echo "attribute.account = openai" >&2',
+          'echo "attribute.account = work:gemini"',
+        ].join('\n'),
+      );
+      expect((await keychainStore.accounts()).sort()).toEqual([
+        'openai',
+        'work:gemini',
+      ]);
+    });
+  });
+
+  describe('Encrypted File Store', () => {
+    let dir: string;
+    let file: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-ai-secrets-'));
+      file = path.join(dir, 'secrets.enc');
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should store keys encrypted with private permissions', async () => {
+      const store = createEncryptedFileStore(file, async () => 'passphrase');
+      await store.set('openai', 'sk-secret');
+
+      expect(store.has('openai')).toBe(true);
+      expect(fs.readFileSync(file, 'utf-8')).not.toContain('sk-secret');
+      if (process.platform !== 'win32') {
+        expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+      }
+
+      const reader = createEncryptedFileStore(file, async () => 'passphrase');
+      await expect(reader.get('openai')).resolves.toBe('sk-secret');
+    });
+
+    it('should reject an incorrect passphrase', async () => {
+      await createEncryptedFileStore(file, async () => 'passphrase').set(
+        'openai',
+        'sk-secret',
+      );
+
+      const reader = createEncryptedFileStore(file, async () => 'wrong');
+      await expect(reader.get('openai')).rejects.toThrow(
+        'Incorrect passphrase',
+      );
+    });
+
+    it('should remove the file when the last key is deleted', async () => {
+      const store = createEncryptedFileStore(file, async () => 'passphrase');
+      await store.set('openai', 'sk-secret');
+
+      await expect(store.delete('openai')).resolves.toBe(true);
+      expect(fs.existsSync(file)).toBe(false);
+      await expect(store.get('openai')).resolves.toBeUndefined();
+    });
+
+    it('should list the stored accounts without the passphrase', async () => {
+      await createEncryptedFileStore(file, async () => 'passphrase').set(
+        'openai',
+        'sk-1',
+      );
+      const store = createEncryptedFileStore(file, async () => {
+        throw new Error('No prompt expected');
+      });
+      expect(await store.accounts()).toEqual(['openai']);
+    });
+
+    it('should use the new salt when the file is created again', async () => {
+      const store = createEncryptedFileStore(file, async () => 'passphrase');
+      await store.set('openai', 'sk-old');
+      await store.delete('openai');
+      await store.set('gemini', 'gm-new');
+
+      const reader = createEncryptedFileStore(file, async () => 'passphrase');
+      await expect(reader.get('gemini')).resolves.toBe('gm-new');
+    });
+  });
+});
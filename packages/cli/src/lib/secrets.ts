@@ -0,0 +1,302 @@
+import crypto from 'crypto';
+import { execa, execaSync } from 'execa';
+import fs from 'fs';
+
+export type SecretBackend = 'keychain' | 'encrypted' | 'plaintext';
+
+export const SECRET_BACKENDS: SecretBackend[] = [
+  'keychain',
+  'encrypted',
+  'plaintext',
+];
+
+// Service attribute used for Secret Service entries
+const SECRET_SERVICE = 'git-ai';
+
+// How long the Secret Service may take to answer the availability probe
+const KEYCHAIN_PROBE_TIMEOUT = 5000;
+
+export const PASSPHRASE_ENV_VAR = 'GIT_AI_PASSPHRASE';
+
+/**
+ * A place to keep API keys outside the plaintext config file
+ */
+export interface SecretStore {
+  backend: SecretBackend;
+  // Human readable location, used when showing where a key comes from
+  description: string;
+  isAvailable(): boolean;
+  has(account: string): boolean;
+  get(account: string): Promise<string | undefined>;
+  set(account: string, secret: string): Promise<void>;
+  delete(account: string): Promise<boolean>;
+  // Every account with a stored secret
+  accounts(): Promise<string[]>;
+}
+
+/**
+ * Linux Secret Service (GNOME Keyring, KWallet) through `secret-tool`
+ */
+export const keychainStore: SecretStore = {
+  backend: 'keychain',
+  description: 'Secret Service (secret-tool)',
+
+  isAvailable() {
+    // Unlike lookup, search succeeds with no matches, so a failure means
+    // secret-tool is missing or cannot reach the Secret Service (no D-Bus)
+    try {
+      execaSync('secret-tool', ['search', 'service', SECRET_SERVICE], {
+        timeout: KEYCHAIN_PROBE_TIMEOUT,
+      });
+      return true;
+    } catch {
+      return false;
+    }
+  },
+
+  has(account) {
+    try {
+      const { stdout } = execaSync('secret-tool', [
+        'lookup',
+        'service',
+        SECRET_SERVICE,
+        'account',
+        account,
+      ]);
+      return stdout.length > 0;
+    } catch {
+      return false;
+    }
+  },
+
+  async get(account) {
+    try {
+      const { stdout } = await execa('secret-tool', [
+        'lookup',
+        'service',
+        SECRET_SERVICE,
+        'account',
+        account,
+      ]);
+      return stdout || undefined;
+    } catch {
+      return undefined;
+    }
+  },
+
+  async set(account, secret) {
+    await execa(
+      'secret-tool',
+      [
+        'store',
+        `--label=git-ai (${account})`,
+        'service',
+        SECRET_SERVICE,
+        'account',
+        account,
+      ],
+      { input: secret },
+    );
+  },
+
+  async delete(account) {
+    try {
+      await execa('secret-tool', [
+        'clear',
+        'service',
+        SECRET_SERVICE,
+        'account',
+        account,
+      ]);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+
+  async accounts() {
+    try {
+      // Attributes go to stdout or stderr depending on the version
+      const { all } = await execa(
+        'secret-tool',
+        ['search', '--all', 'service', SECRET_SERVICE],
+        { all: true },
+      );
+      return [...(all ?? '').matchAll(/^attribute\.account = (.*)$/gm)].map(
+        (match) => match[1].trim(),
+      );
+    } catch {
+      return [];
+    }
+  },
+};
+
+interface EncryptedValue {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+interface EncryptedFile {
+  version: 1;
+  salt: string;
+  // Known value encrypted with the key, used to verify the passphrase
+  check: EncryptedValue;
+  entries: Record<string, EncryptedValue>;
+}
+
+const CHECK_VALUE = 'git-ai';
+
+/**
+ * Encrypt a value with AES-256-GCM
+ */
+export function encryptValue(key: Buffer, value: string): EncryptedValue {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(value, 'utf-8'), cipher.final()]);
+  return {
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+/**
+ * Decrypt a value encrypted with encryptValue
+ */
+export function decryptValue(key: Buffer, value: EncryptedValue): string {
+  const decipher = crypto.createDecipheriv(
+    'aes-256-gcm',
+    key,
+    Buffer.from(value.iv, 'base64'),
+  );
+  decipher.setAuthTag(Buffer.from(value.tag, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(value.data, 'base64')),
+    decipher.final(),
+  ]).toString('utf-8');
+}
+
+/**
+ * Derive the encryption key from a passphrase
+ */
+export function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return crypto.scryptSync(passphrase, salt, 32);
+}
+
+/**
+ * Write a file readable only by the current user
+ */
+export function writePrivateFile(filePath: string, data: string): void {
+  fs.writeFileSync(filePath, data, { mode: 0o600 });
+  // writeFileSync keeps the mode of existing files
+  fs.chmodSync(filePath, 0o600);
+}
+
+/**
+ * Get the passphrase from the environment or by prompting
+ */
+async function readPassphrase(creating: boolean): Promise<string> {
+  const fromEnv = process.env[PASSPHRASE_ENV_VAR];
+  if (fromEnv) {
+    return fromEnv;
+  }
+  const { inputPassphrase } = await import('./prompt.js');
+  return inputPassphrase(creating);
+}
+
+/**
+ * Encrypted file protected by a passphrase (GIT_AI_PASSPHRASE or prompt)
+ */
+export function createEncryptedFileStore(
+  filePath: string,
+  getPassphrase: (creating: boolean) => Promise<string> = readPassphrase,
+): SecretStore {
+  // The derived key, reused while the file keeps the salt it came from
+  let cached: { salt: string; key: Buffer } | undefined;
+
+  const read = (): EncryptedFile | undefined =>
+    fs.existsSync(filePath)
+      ? JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+      : undefined;
+
+  // Unlock the file (or create it) and return its contents with the key
+  const unlock = async (): Promise<{ file: EncryptedFile; key: Buffer }> => {
+    const existing = read();
+    if (!existing) {
+      // A new file gets a new salt, so a key from an old file is no use
+      const salt = crypto.randomBytes(16);
+      const key = deriveKey(await getPassphrase(true), salt);
+      cached = { salt: salt.toString('base64'), key };
+      return {
+        file: {
+          version: 1,
+          salt: cached.salt,
+          check: encryptValue(key, CHECK_VALUE),
+          entries: {},
+        },
+        key,
+      };
+    }
+
+    const key =
+      cached?.salt === existing.salt
+        ? cached.key
+        : deriveKey(
+            await getPassphrase(false),
+            Buffer.from(existing.salt, 'base64'),
+          );
+    try {
+      decryptValue(key, existing.check);
+    } catch {
+      throw new Error('Incorrect passphrase for the encrypted key store.');
+    }
+    cached = { salt: existing.salt, key };
+    return { file: existing, key };
+  };
+
+  return {
+    backend: 'encrypted',
+    description: `encrypted file ${filePath}`,
+
+    isAvailable() {
+      return true;
+    },
+
+    has(account) {
+      return !!read()?.entries[account];
+    },
+
+    async get(account) {
+      if (!read()?.entries[account]) {
+        return undefined;
+      }
+      const { file, key } = await unlock();
+      return decryptValue(key, file.entries[account]);
+    },
+
+    async set(account, secret) {
+      const { file, key } = await unlock();
+      file.entries[account] = encryptValue(key, secret);
+      writePrivateFile(filePath, JSON.stringify(file, null, 2));
+    },
+
+    async delete(account) {
+      const file = read();
+      if (!file?.entries[account]) {
+        return false;
+      }
+      delete file.entries[account];
+      if (Object.keys(file.entries).length === 0) {
+        fs.unlinkSync(filePath);
+      } else {
+        writePrivateFile(filePath, JSON.stringify(file, null, 2));
+      }
+      return true;
+    },
+
+    async accounts() {
+      return Object.keys(read()?.entries ?? {});
+    },
+  };
+}
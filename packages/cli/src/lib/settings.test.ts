@@ -0,0 +1,102 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { readEnvSettings, resolveSettings } from './settings.js';
+
+describe('Settings', () => {
+  describe('readEnvSettings', () => {
+    it('should read values and comma-separated lists', () => {
+      expect(
+        readEnvSettings({
+          GIT_AI_COMMIT_STYLE: 'freeform',
+          GIT_AI_ALLOWED_TYPES: 'feat, fix ,,chore',
+        }),
+      ).toEqual({
+        commitStyle: 'freeform',
+        allowedTypes: ['feat', 'fix', 'chore'],
+      });
+    });
+
+    it('should read boolean flags', () => {
+      expect(readEnvSettings({ GIT_AI_FETCH_ISSUE: 'true' })).toEqual({
+        fetchIssue: true,
+      });
+      expect(readEnvSettings({ GIT_AI_FETCH_ISSUE: '0' })).toEqual({
+        fetchIssue: false,
+      });
+    });
+
+    it('should read numbers and JSON tables', () => {
+      expect(
+        readEnvSettings({
+          GIT_AI_MONTHLY_BUDGET: '12.5',
+          GIT_AI_PRICES: '{"my-model": {"input": 1, "output": 2}}',
+        }),
+      ).toEqual({
+        monthlyBudget: 12.5,
+        prices: { 'my-model': { input: 1, output: 2 } },
+      });
+      expect(() => readEnvSettings({ GIT_AI_PRICES: 'cheap' })).toThrow(
+        'Invalid GIT_AI_PRICES',
+      );
+    });
+
+    it('should ignore empty variables', () => {
+      expect(readEnvSettings({ GIT_AI_DEFAULT_BRANCH: '' })).toEqual({});
+    });
+  });
+
+  describe('resolveSettings', () => {
+    let root: string;
+
+    beforeEach(() => {
+      root = fs.mkdtempSync(path.join(os.tmpdir(), 'git-ai-settings-'));
+      fs.mkdirSync(path.join(root, '.git'));
+      fs.writeFileSync(
+        path.join(root, '.git-ai.json'),
+        JSON.stringify({ defaultBranch: 'develop', allowedScopes: ['api'] }),
+      );
+    });
+
+    afterEach(() => {
+      delete process.env.GIT_AI_DEFAULT_BRANCH;
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should report where each value came from', () => {
+      const settings = resolveSettings(root);
+      expect(settings.defaultBranch).toEqual({
+        value: 'develop',
+        source: path.join(root, '.git-ai.json'),
+      });
+      expect(settings.allowedScopes.value).toEqual(['api']);
+      expect(settings.promptTemplate.source).not.toBe(
+        path.join(root, '.git-ai.json'),
+      );
+    });
+
+    it('should keep redaction on when a project file turns it off', () => {
+      fs.writeFileSync(
+        path.join(root, '.git-ai.json'),
+        JSON.stringify({ redactSecrets: false, redactEmails: false }),
+      );
+      const settings = resolveSettings(root);
+      expect(settings.redactSecrets.source).not.toBe(
+        path.join(root, '.git-ai.json'),
+      );
+      expect(settings.redactEmails.source).not.toBe(
+        path.join(root, '.git-ai.json'),
+      );
+    });
+
+    it('should let the environment win over the project file', () => {
+      process.env.GIT_AI_DEFAULT_BRANCH = 'trunk';
+      const settings = resolveSettings(root);
+      expect(settings.defaultBranch).toEqual({
+        value: 'trunk',
+        source: 'env GIT_AI_DEFAULT_BRANCH',
+      });
+    });
+  });
+});
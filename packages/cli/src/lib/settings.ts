@@ -0,0 +1,168 @@
+import { getConfig, getConfigPath } from './config.js';
+import {
+  PROJECT_SETTING_KEYS,
+  findProjectConfig,
+  pickProjectSettings,
+  type ProjectSettings,
+} from './project-config.js';
+import { DEFAULT_TICKET_PATTERNS } from './ticket.js';
+
+export const DEFAULT_PROMPT_TEMPLATE = `You are an expert developer. Based on the following git diff, write a concise, professional commit message. Output only the message text, nothing else:`;
+
+export const DEFAULT_SETTINGS: Required<ProjectSettings> = {
+  commitStyle: 'conventional',
+  allowedTypes: [
+    'feat',
+    'fix',
+    'docs',
+    'style',
+    'refactor',
+    'perf',
+    'test',
+    'build',
+    'ci',
+    'chore',
+    'revert',
+  ],
+  allowedScopes: [],
+  jiraProjects: [],
+  promptTemplate: DEFAULT_PROMPT_TEMPLATE,
+  ignore: [],
+  defaultBranch: 'main',
+  protectedBranches: ['main', 'master'],
+  ticketPatterns: DEFAULT_TICKET_PATTERNS,
+  ticketPlacement: 'trailer',
+  fetchIssue: false,
+  secretAllowlist: [],
+  maxFileSize: '5MB',
+  redactSecrets: true,
+  redactEmails: true,
+  redactPatterns: [],
+  redactPaths: [],
+  fallbackProviders: [],
+  cache: true,
+  cacheTtl: '24h',
+  cacheMaxSize: '1MB',
+  usageLog: true,
+  prices: {},
+  monthlyBudget: 0,
+  budgetAction: 'warn',
+};
+
+// Environment variables for each setting (lists are comma-separated,
+// tables are JSON)
+export const SETTING_ENV_VARS: Record<keyof ProjectSettings, string> = {
+  commitStyle: 'GIT_AI_COMMIT_STYLE',
+  allowedTypes: 'GIT_AI_ALLOWED_TYPES',
+  allowedScopes: 'GIT_AI_ALLOWED_SCOPES',
+  jiraProjects: 'GIT_AI_JIRA_PROJECTS',
+  promptTemplate: 'GIT_AI_PROMPT_TEMPLATE',
+  ignore: 'GIT_AI_IGNORE',
+  defaultBranch: 'GIT_AI_DEFAULT_BRANCH',
+  protectedBranches: 'GIT_AI_PROTECTED_BRANCHES',
+  ticketPatterns: 'GIT_AI_TICKET_PATTERNS',
+  ticketPlacement: 'GIT_AI_TICKET_PLACEMENT',
+  fetchIssue: 'GIT_AI_FETCH_ISSUE',
+  secretAllowlist: 'GIT_AI_SECRET_ALLOWLIST',
+  maxFileSize: 'GIT_AI_MAX_FILE_SIZE',
+  redactSecrets: 'GIT_AI_REDACT_SECRETS',
+  redactEmails: 'GIT_AI_REDACT_EMAILS',
+  redactPatterns: 'GIT_AI_REDACT_PATTERNS',
+  redactPaths: 'GIT_AI_REDACT_PATHS',
+  fallbackProviders: 'GIT_AI_FALLBACK_PROVIDERS',
+  cache: 'GIT_AI_CACHE',
+  cacheTtl: 'GIT_AI_CACHE_TTL',
+  cacheMaxSize: 'GIT_AI_CACHE_MAX_SIZE',
+  usageLog: 'GIT_AI_USAGE_LOG',
+  prices: 'GIT_AI_PRICES',
+  monthlyBudget: 'GIT_AI_MONTHLY_BUDGET',
+  budgetAction: 'GIT_AI_BUDGET_ACTION',
+};
+
+export interface ResolvedSetting<T> {
+  value: T;
+  // Where the value came from, e.g. "default" or a file path
+  source: string;
+}
+
+export type ResolvedSettings = {
+  [K in keyof ProjectSettings]-?: ResolvedSetting<Required<ProjectSettings>[K]>;
+};
+
+/**
+ * Read settings from environment variables
+ */
+export function readEnvSettings(
+  env: NodeJS.ProcessEnv = process.env,
+): ProjectSettings {
+  const raw: Record<string, unknown> = {};
+  for (const key of PROJECT_SETTING_KEYS) {
+    const value = env[SETTING_ENV_VARS[key]];
+    if (value === undefined || value === '') {
+      continue;
+    }
+    const fallback = DEFAULT_SETTINGS[key];
+    if (Array.isArray(fallback)) {
+      raw[key] = value
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean);
+    } else if (typeof fallback === 'boolean') {
+      raw[key] = value === 'true' || value === '1';
+    } else if (typeof fallback === 'number') {
+      raw[key] = Number(value);
+    } else if (typeof fallback === 'object') {
+      try {
+        raw[key] = JSON.parse(value);
+      } catch {
+        throw new Error(`Invalid ${SETTING_ENV_VARS[key]}: expected JSON.`);
+      }
+    } else {
+      raw[key] = value;
+    }
+  }
+  return pickProjectSettings(raw);
+}
+
+/**
+ * Merge settings in a fixed order, later layers winning:
+ * defaults < global config < project config < environment
+ */
+export function resolveSettings(cwd: string = process.cwd()): ResolvedSettings {
+  const project = findProjectConfig(cwd);
+  const layers: { source: string; settings: ProjectSettings }[] = [
+    { source: getConfigPath(), settings: pickProjectSettings(getConfig()) },
+    ...(project ? [{ source: project.path, settings: project.settings }] : []),
+    { source: 'environment', settings: readEnvSettings() },
+  ];
+
+  const resolved = {} as Record<string, ResolvedSetting<unknown>>;
+  for (const key of PROJECT_SETTING_KEYS) {
+    resolved[key] = { value: DEFAULT_SETTINGS[key], source: 'default' };
+    for (const layer of layers) {
+      const value = layer.settings[key];
+      if (value !== undefined) {
+        const source =
+          layer.source === 'environment'
+            ? `env ${SETTING_ENV_VARS[key]}`
+            : layer.source;
+        resolved[key] = { value, source };
+      }
+    }
+  }
+  return resolved as ResolvedSettings;
+}
+
+/**
+ * Get the merged settings values
+ */
+export function getSettings(
+  cwd: string = process.cwd(),
+): Required<ProjectSettings> {
+  const resolved = resolveSettings(cwd);
+  const settings = {} as Record<string, unknown>;
+  for (const key of PROJECT_SETTING_KEYS) {
+    settings[key] = resolved[key].value;
+  }
+  return settings as Required<ProjectSettings>;
+}
@@ -0,0 +1,203 @@
+import { execa } from 'execa';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { applyToIndex, getWorkingTreeDiff } from './git.js';
+import {
+  buildPatch,
+  buildSplitPrompt,
+  describeUnit,
+  formatPlan,
+  parsePlan,
+  parsePlanText,
+  splitUnits,
+  unplannedUnits,
+} from './split.js';
+
+const DIFF = `diff --git a/src/app.ts b/src/app.ts
+index 1111111..2222222 100644
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -1,3 +1,4 @@
+ import a from 'a';
++import b from 'b';
+
+ const x = 1;
+@@ -20,3 +21,3 @@ function run() {
+-  return x;
++  return b(x);
+ }
+diff --git a/src/new.ts b/src/new.ts
+new file mode 100644
+index 0000000..3333333
+--- /dev/null
++++ b/src/new.ts
+@@ -0,0 +1 @@
++export const y = 2;
+`;
+
+describe('Split', () => {
+  describe('splitUnits', () => {
+    it('should split modified files by hunk and keep new files whole', () => {
+      const units = splitUnits(DIFF);
+      expect(units.map((unit) => [unit.id, unit.file.path, unit.hunk])).toEqual(
+        [
+          [1, 'src/app.ts', 0],
+          [2, 'src/app.ts', 1],
+          [3, 'src/new.ts', undefined],
+        ],
+      );
+      expect(describeUnit(units[1])).toBe('src/app.ts @@ -20,3 +21,3 @@');
+      expect(describeUnit(units[2])).toBe('src/new.ts (added)');
+    });
+  });
+
+  describe('buildSplitPrompt', () => {
+    it('should number every change and include its content', () => {
+      const prompt = buildSplitPrompt(splitUnits(DIFF), 2000);
+      expect(prompt).toContain('[1] src/app.ts @@ -1,3 +1,4 @@');
+      expect(prompt).toContain('+  return b(x);');
+      expect(prompt).toContain('[3] src/new.ts (added)');
+    });
+
+    it('should cut long changes to their share of the budget', () => {
+      const prompt = buildSplitPrompt(splitUnits(DIFF), 6);
+      expect(prompt).toContain('more lines omitted');
+    });
+  });
+
+  describe('parsePlan', () => {
+    it('should read a fenced JSON plan', () => {
+      const units = splitUnits(DIFF);
+      const plan = parsePlan(
+        '```json\n{"commits": [{"title": "Add y", "changes": [3]}, {"title": "Use b", "changes": ["1", 2]}]}\n```',
+        units,
+      );
+      expect(plan.map((group) => group.title)).toEqual(['Add y', 'Use b']);
+      expect(plan[1].units.map((unit) => unit.id)).toEqual([1, 2]);
+    });
+
+    it('should ignore unknown or repeated changes and keep left-out ones', () => {
+      const units = splitUnits(DIFF);
+      const plan = parsePlan(
+        '{"commits": [{"title": "A", "changes": [1, 1, 9]}]}',
+        units,
+      );
+      expect(plan).toHaveLength(2);
+      expect(plan[0].units.map((unit) => unit.id)).toEqual([1]);
+      expect(plan[1].title).toBe('Remaining changes');
+      expect(plan[1].units.map((unit) => unit.id)).toEqual([2, 3]);
+    });
+
+    it('should reject responses without a plan', () => {
+      expect(() => parsePlan('Sure! Here you go.', splitUnits(DIFF))).toThrow(
+        'Could not read the commit plan',
+      );
+    });
+  });
+
+  describe('parsePlanText', () => {
+    it('should read back an edited plan', () => {
+      const units = splitUnits(DIFF);
+      const text = formatPlan(parsePlan('{"commits": []}', units)).replace(
+        '  2  src/app.ts @@ -20,3 +21,3 @@\n',
+        '',
+      );
+      const plan = parsePlanText(`${text}\ncommit: Second\n2`, units);
+      expect(plan.map((group) => group.title)).toEqual([
+        'Remaining changes',
+        'Second',
+      ]);
+      expect(plan[0].units.map((unit) => unit.id)).toEqual([1, 3]);
+      expect(unplannedUnits(plan, units)).toEqual([]);
+    });
+
+    it('should report changes that are left out', () => {
+      const units = splitUnits(DIFF);
+      const plan = parsePlanText('commit: Only one\n1', units);
+      expect(unplannedUnits(plan, units).map((unit) => unit.id)).toEqual([
+        2, 3,
+      ]);
+    });
+
+    it('should reject unknown and repeated changes', () => {
+      const units = splitUnits(DIFF);
+      expect(() => parsePlanText('commit: A\n7', units)).toThrow(
+        'Unknown change 7.',
+      );
+      expect(() => parsePlanText('commit: A\n1\ncommit: B\n1', units)).toThrow(
+        'more than one commit',
+      );
+      expect(() => parsePlanText('1\ncommit: A', units)).toThrow(
+        'before the first "commit:" line',
+      );
+    });
+  });
+
+  describe('buildPatch', () => {
+    it('should keep the file header and only the selected hunks', () => {
+      const units = splitUnits(DIFF);
+      const patch = buildPatch([units[1]]);
+      expect(patch).toContain('--- a/src/app.ts\n+++ b/src/app.ts\n');
+      expect(patch).toContain('+  return b(x);');
+      expect(patch).not.toContain('+import b');
+      expect(patch).not.toContain('src/new.ts');
+      expect(patch.endsWith('\n')).toBe(true);
+    });
+  });
+
+  describe('applying a plan', () => {
+    let root: string;
+    let cwd: string;
+
+    const git = (...args: string[]) =>
+      execa('git', ['-c', 'user.name=T', '-c', 'user.email=t@t', ...args]);
+
+    beforeEach(async () => {
+      cwd = process.cwd();
+      vi.stubEnv('GIT_CONFIG_GLOBAL', '/dev/null');
+      vi.stubEnv('GIT_CONFIG_NOSYSTEM', '1');
+      vi.stubEnv('GIT_CONFIG_COUNT', '0');
+      root = fs.mkdtempSync(path.join(os.tmpdir(), 'git-ai-split-'));
+      process.chdir(root);
+      const lines = Array.from({ length: 30 }, (_, i) => `line ${i + 1}`);
+      fs.writeFileSync('a.txt', `${lines.join('\n')}\n`);
+      await git('init', '-q');
+      await git('add', '.');
+      await git('commit', '-qm', 'initial');
+
+      lines[0] = 'first changed';
+      lines[29] = 'last changed';
+      fs.writeFileSync('a.txt', `${lines.join('\n')}\n`);
+      fs.writeFileSync('b.txt', 'new file\n');
+    });
+
+    afterEach(() => {
+      process.chdir(cwd);
+      vi.unstubAllEnvs();
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should stage hunks of one file in separate commits', async () => {
+      const units = splitUnits(await getWorkingTreeDiff());
+      expect(units.map(describeUnit)).toEqual([
+        'a.txt @@ -1,4 +1,4 @@',
+        'a.txt @@ -27,4 +27,4 @@',
+        'b.txt (added)',
+      ]);
+
+      // Later hunk first: git finds it despite the line offset
+      await applyToIndex(buildPatch([units[1], units[2]]));
+      const { stdout: staged } = await git('diff', '--cached', '--stat');
+      expect(staged).toContain('a.txt');
+      expect(staged).toContain('b.txt');
+      await git('commit', '-qm', 'first');
+
+      await applyToIndex(buildPatch([units[0]]));
+      await git('commit', '-qm', 'second');
+      const { stdout: status } = await git('status', '--porcelain');
+      expect(status).toBe('');
+    });
+  });
+});
@@ -0,0 +1,320 @@
+import chalk from 'chalk';
+import {
+  getDiffTokenBudget,
+  requestCompletion,
+  resolveGenerationSettings,
+} from './ai.js';
+import type { AiProvider } from './config.js';
+import {
+  estimateTokens,
+  isNoiseFile,
+  parseDiff,
+  type FileDiff,
+} from './diff.js';
+import { withProgress } from './progress.js';
+import { getProvider } from './providers/registry.js';
+import type { GenerationSettings } from './providers/types.js';
+import {
+  describeRedaction,
+  isWithheld,
+  redactText,
+  withholdContent,
+} from './redact.js';
+import { getSettings } from './settings.js';
+
+// Response length for the plan, which lists every change id
+const PLAN_MAX_TOKENS = 2000;
+
+/**
+ * One piece of the working tree diff the model can place in a commit:
+ * a hunk of a modified text file, or a whole file otherwise
+ */
+export interface SplitUnit {
+  id: number;
+  file: FileDiff;
+  /** Index into file.hunks, undefined for the whole file */
+  hunk?: number;
+}
+
+/**
+ * A planned commit and the changes it contains
+ */
+export interface SplitGroup {
+  title: string;
+  units: SplitUnit[];
+}
+
+export const PLAN_HELP = `
+# Each "commit:" line starts a commit; the numbered lines below it are
+# the changes it contains. Move lines to regroup them, reorder commits,
+# or delete a line to leave that change uncommitted.
+`;
+
+/**
+ * Whether a file can be committed hunk by hunk. Added, deleted, renamed,
+ * binary and mode changes only apply as a whole.
+ */
+function isSplittable(file: FileDiff): boolean {
+  return (
+    file.change === 'modified' &&
+    !file.binary &&
+    file.hunks.length > 1 &&
+    !file.header.some((line) => line.startsWith('old mode'))
+  );
+}
+
+/**
+ * Break a diff into numbered units
+ */
+export function splitUnits(diff: string): SplitUnit[] {
+  const units: SplitUnit[] = [];
+  for (const file of parseDiff(diff)) {
+    if (isSplittable(file)) {
+      file.hunks.forEach((_, hunk) =>
+        units.push({ id: units.length + 1, file, hunk }),
+      );
+    } else {
+      units.push({ id: units.length + 1, file });
+    }
+  }
+  return units;
+}
+
+/**
+ * One-line description, e.g. "src/a.ts @@ -10,6 +10,8 @@"
+ */
+export function describeUnit(unit: SplitUnit): string {
+  if (unit.hunk !== undefined) {
+    const range = /^@@ [^@]+ @@/.exec(unit.file.hunks[unit.hunk][0]);
+    return `${unit.file.path} ${range?.[0] ?? ''}`.trimEnd();
+  }
+  const change = unit.file.binary
+    ? `${unit.file.change}, binary`
+    : unit.file.change;
+  return unit.file.oldPath
+    ? `${unit.file.oldPath} -> ${unit.file.path} (${change})`
+    : `${unit.file.path} (${change})`;
+}
+
+/**
+ * Content of a unit, cut to a token allowance
+ */
+function renderUnit(unit: SplitUnit, allowance: number): string {
+  if (unit.file.binary || isNoiseFile(unit.file)) {
+    return '';
+  }
+  const lines =
+    unit.hunk !== undefined
+      ? unit.file.hunks[unit.hunk].slice(1)
+      : unit.file.hunks.flat().filter((line) => !line.startsWith('@@'));
+  const shown: string[] = [];
+  let used = 0;
+  for (const line of lines) {
+    used += estimateTokens(`${line}\n`);
+    if (used > allowance) {
+      shown.push(`[... ${lines.length - shown.length} more lines omitted ...]`);
+      break;
+    }
+    shown.push(line);
+  }
+  return shown.join('\n');
+}
+
+/**
+ * Prompt asking the model to group the units into commits. Every unit
+ * gets an equal share of the token budget.
+ */
+export function buildSplitPrompt(units: SplitUnit[], budget: number): string {
+  const allowance = Math.floor(budget / Math.max(units.length, 1));
+  const changes = units.map((unit) =>
+    [`[${unit.id}] ${describeUnit(unit)}`, renderUnit(unit, allowance)]
+      .filter(Boolean)
+      .join('\n'),
+  );
+  return `Split the following uncommitted changes into a series of small, logical commits. Each numbered change is a whole file or one hunk of a file. Keep related changes together (e.g. a feature with its tests) and order the commits so each builds on the ones before it. Put every change in exactly one commit.
+Answer with JSON only, in this form:
+{"commits": [{"title": "short description", "changes": [1, 2]}]}
+
+Changes:
+${changes.join('\n\n')}`;
+}
+
+/**
+ * Read the model's JSON plan. Changes it left out are put in a final
+ * commit so nothing is lost.
+ */
+export function parsePlan(response: string, units: SplitUnit[]): SplitGroup[] {
+  const json = /\{[\s\S]*\}/.exec(response)?.[0];
+  let commits: unknown;
+  try {
+    commits = json ? JSON.parse(json).commits : undefined;
+  } catch {
+    // Reported below
+  }
+  if (!Array.isArray(commits)) {
+    throw new Error('Could not read the commit plan from the AI response.');
+  }
+
+  const byId = new Map(units.map((unit) => [unit.id, unit]));
+  const used = new Set<number>();
+  const groups: SplitGroup[] = [];
+  for (const entry of commits) {
+    const group: SplitGroup = { title: String(entry?.title ?? ''), units: [] };
+    const ids: unknown[] = Array.isArray(entry?.changes) ? entry.changes : [];
+    for (const id of ids.map(Number)) {
+      const unit = byId.get(id);
+      if (unit && !used.has(id)) {
+        used.add(id);
+        group.units.push(unit);
+      }
+    }
+    if (group.units.length > 0) {
+      groups.push(group);
+    }
+  }
+
+  const rest = units.filter((unit) => !used.has(unit.id));
+  if (rest.length > 0) {
+    groups.push({ title: 'Remaining changes', units: rest });
+  }
+  return groups;
+}
+
+/**
+ * The plan as text, for showing and editing
+ */
+export function formatPlan(groups: SplitGroup[]): string {
+  return groups
+    .map((group) =>
+      [
+        `commit: ${group.title}`,
+        ...group.units.map((unit) => `  ${unit.id}  ${describeUnit(unit)}`),
+      ].join('\n'),
+    )
+    .join('\n\n');
+}
+
+/**
+ * Read a plan edited by the user (see formatPlan). Changes that were
+ * deleted are left out of every commit.
+ */
+export function parsePlanText(text: string, units: SplitUnit[]): SplitGroup[] {
+  const byId = new Map(units.map((unit) => [unit.id, unit]));
+  const used = new Set<number>();
+  const groups: SplitGroup[] = [];
+
+  for (const raw of text.split('\n')) {
+    const line = raw.trim();
+    if (!line) {
+      continue;
+    }
+    const header = /^commit:\s*(.*)$/i.exec(line);
+    if (header) {
+      groups.push({ title: header[1], units: [] });
+      continue;
+    }
+    const id = /^(\d+)\b/.exec(line)?.[1];
+    if (!id) {
+      throw new Error(`Cannot read plan line: ${line}`);
+    }
+    const unit = byId.get(Number(id));
+    if (!unit) {
+      throw new Error(`Unknown change ${id}.`);
+    }
+    if (used.has(unit.id)) {
+      throw new Error(`Change ${id} is in more than one commit.`);
+    }
+    if (groups.length === 0) {
+      throw new Error(`Change ${id} comes before the first "commit:" line.`);
+    }
+    used.add(unit.id);
+    groups[groups.length - 1].units.push(unit);
+  }
+  return groups.filter((group) => group.units.length > 0);
+}
+
+/**
+ * Units the plan leaves uncommitted
+ */
+export function unplannedUnits(
+  groups: SplitGroup[],
+  units: SplitUnit[],
+): SplitUnit[] {
+  const planned = new Set(groups.flatMap((group) => group.units));
+  return units.filter((unit) => !planned.has(unit));
+}
+
+/**
+ * Patch with just the given units, for `git apply --cached`
+ */
+export function buildPatch(units: SplitUnit[]): string {
+  const files = new Map<FileDiff, Set<number> | 'all'>();
+  for (const unit of [...units].sort((a, b) => a.id - b.id)) {
+    const hunks = files.get(unit.file) ?? new Set<number>();
+    if (unit.hunk === undefined || hunks === 'all') {
+      files.set(unit.file, 'all');
+    } else {
+      files.set(unit.file, hunks.add(unit.hunk));
+    }
+  }
+
+  const lines: string[] = [];
+  for (const [file, hunks] of files) {
+    lines.push(...file.header);
+    file.hunks.forEach((hunk, i) => {
+      if (hunks === 'all' || hunks.has(i)) {
+        lines.push(...hunk);
+      }
+    });
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Ask the configured AI provider how to split the changes into commits
+ */
+export async function planCommits(
+  units: SplitUnit[],
+  provider: AiProvider,
+  apiKey: string,
+  overrides: GenerationSettings = {},
+): Promise<SplitGroup[]> {
+  const definition = getProvider(provider);
+  const generation = resolveGenerationSettings(provider, overrides);
+  const budget = getDiffTokenBudget(definition, generation);
+
+  // Withheld files are listed by name only
+  const settings = getSettings();
+  const withheld = new Set<string>();
+  const visible = units.map((unit) => {
+    if (!isWithheld(unit.file.path, settings)) {
+      return unit;
+    }
+    withheld.add(unit.file.path);
+    return { ...unit, file: withholdContent(unit.file) };
+  });
+  const redaction = {
+    ...redactText(buildSplitPrompt(visible, budget), settings),
+    withheld: [...withheld],
+  };
+  const notice = describeRedaction(redaction);
+  if (notice) {
+    console.log(chalk.gray(notice));
+  }
+
+  const response = await withProgress(
+    `Planning commits for ${units.length} changes with AI...`,
+    (progress) =>
+      requestCompletion(
+        definition,
+        {
+          ...generation,
+          maxTokens: Math.max(generation.maxTokens ?? 0, PLAN_MAX_TOKENS),
+        },
+        apiKey,
+        redaction.text,
+        progress,
+      ),
+  );
+  return parsePlan(response, units);
+}
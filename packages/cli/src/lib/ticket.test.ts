@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addTicket,
+  addTrailers,
+  buildTicketContext,
+  DEFAULT_TICKET_PATTERNS,
+  findTickets,
+  finishCommitMessage,
+  issueNumber,
+} from './ticket.js';
+
+describe('Tickets', () => {
+  describe('findTickets', () => {
+    it('should find Jira ids in branch names', () => {
+      expect(
+        findTickets('feature/PROJ-482-add-sso', DEFAULT_TICKET_PATTERNS),
+      ).toEqual(['PROJ-482']);
+    });
+
+    it('should turn numeric ids into GitHub issues', () => {
+      expect(findTickets('42-fix-crash', DEFAULT_TICKET_PATTERNS)).toEqual([
+        '#42',
+      ]);
+      expect(findTickets('fix/issue-7', DEFAULT_TICKET_PATTERNS)).toEqual([
+        '#7',
+      ]);
+      expect(issueNumber('#42')).toBe(42);
+      expect(issueNumber('PROJ-1')).toBeUndefined();
+    });
+
+    it('should ignore branches without tickets', () => {
+      expect(findTickets('main', DEFAULT_TICKET_PATTERNS)).toEqual([]);
+      expect(findTickets('release/2024-01', DEFAULT_TICKET_PATTERNS)).toEqual(
+        [],
+      );
+    });
+
+    it('should support custom patterns with a capture group', () => {
+      expect(findTickets('bug_1234_login', ['bug_(\\d+)'])).toEqual(['#1234']);
+      expect(() => findTickets('x', ['('])).toThrow('Invalid ticket pattern');
+    });
+  });
+
+  describe('addTicket', () => {
+    it('should add a Refs trailer', () => {
+      expect(addTicket('feat: add sso', 'PROJ-482', 'trailer')).toBe(
+        'feat: add sso\n\nRefs: PROJ-482',
+      );
+    });
+
+    it('should add a prefix', () => {
+      expect(addTicket('feat: add sso', 'PROJ-482', 'prefix')).toBe(
+        '[PROJ-482] feat: add sso',
+      );
+    });
+
+    it('should not repeat a ticket already in the message', () => {
+      expect(addTicket('PROJ-482: add sso', 'PROJ-482', 'trailer')).toBe(
+        'PROJ-482: add sso',
+      );
+      expect(addTicket('fix: see #420', '#42', 'trailer')).toBe(
+        'fix: see #420\n\nRefs: #42',
+      );
+    });
+  });
+
+  describe('addTrailers', () => {
+    it('should append to an existing trailer block', () => {
+      const message = 'feat: add sso\n\nBody text.\n\nRefs: PROJ-482';
+      expect(addTrailers(message, ['Closes #12'])).toBe(
+        `${message}\nCloses #12`,
+      );
+    });
+
+    it('should skip trailers that are already present', () => {
+      const message = 'fix: crash\n\nSigned-off-by: A <a@example.com>';
+      expect(addTrailers(message, ['Signed-off-by: A <a@example.com>'])).toBe(
+        message,
+      );
+    });
+  });
+
+  it('should combine tickets and trailers', () => {
+    expect(
+      finishCommitMessage('feat: add sso', ['PROJ-482'], 'trailer', [
+        'Co-authored-by: B <b@example.com>',
+      ]),
+    ).toBe(
+      'feat: add sso\n\nRefs: PROJ-482\nCo-authored-by: B <b@example.com>',
+    );
+  });
+
+  it('should describe tickets and issues for the prompt', () => {
+    const context = buildTicketContext(['#42'], {
+      title: 'Crash on start',
+      body: 'Steps...',
+    });
+    expect(context).toContain('Related tickets: #42.');
+    expect(context).toContain('Issue title: Crash on start');
+    expect(buildTicketContext([])).toBe('');
+  });
+});
@@ -0,0 +1,135 @@
+import type { TicketPlacement } from './project-config.js';
+
+/**
+ * Branch patterns for ticket ids. The first capture group is used when
+ * present; numeric ids are GitHub issues and become "#42".
+ */
+export const DEFAULT_TICKET_PATTERNS = [
+  '[A-Z][A-Z0-9]+-\\d+',
+  '^(\\d+)-',
+  '(?:^|/)(?:issue|gh)-(\\d+)',
+];
+
+// Issue body characters added to the prompt
+const MAX_ISSUE_BODY = 1000;
+
+const TRAILER_LINE = /^([A-Za-z][\w-]*: \S.*|(Closes|Fixes|Resolves) #\d+)$/;
+
+export interface IssueDetails {
+  title: string;
+  body: string;
+}
+
+/**
+ * Find ticket ids in a branch name, e.g. feature/PROJ-482-add-sso
+ */
+export function findTickets(branch: string, patterns: string[]): string[] {
+  const tickets: string[] = [];
+  for (const pattern of patterns) {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern, 'g');
+    } catch {
+      throw new Error(`Invalid ticket pattern: ${pattern}`);
+    }
+    for (const match of branch.matchAll(regex)) {
+      const id = match[1] ?? match[0];
+      const ticket = /^\d+$/.test(id) ? `#${id}` : id;
+      if (!tickets.includes(ticket)) {
+        tickets.push(ticket);
+      }
+    }
+  }
+  return tickets;
+}
+
+/**
+ * GitHub issue number of a ticket id ("#42" -> 42)
+ */
+export function issueNumber(ticket: string): number | undefined {
+  const match = /^#(\d+)$/.exec(ticket);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Extra prompt context describing the related tickets
+ */
+export function buildTicketContext(
+  tickets: string[],
+  issue?: IssueDetails,
+): string {
+  const lines: string[] = [];
+  if (tickets.length > 0) {
+    lines.push(`Related tickets: ${tickets.join(', ')}.`);
+  }
+  if (issue) {
+    const body =
+      issue.body.length > MAX_ISSUE_BODY
+        ? `${issue.body.slice(0, MAX_ISSUE_BODY)}...`
+        : issue.body;
+    lines.push(`Issue title: ${issue.title}`, `Issue description:\n${body}`);
+  }
+  if (lines.length > 0) {
+    lines.push('Do not add ticket ids or trailers; they are added for you.');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Add a trailer block to a message, skipping trailers already present
+ */
+export function addTrailers(message: string, trailers: string[]): string {
+  const lines = message.trimEnd().split('\n');
+  const missing = trailers.filter(
+    (trailer, i) => !lines.includes(trailer) && trailers.indexOf(trailer) === i,
+  );
+  if (missing.length === 0) {
+    return message.trimEnd();
+  }
+
+  // Append to an existing trailer block after the header
+  const lastBlank = lines.lastIndexOf('');
+  const block = lastBlank > 0 ? lines.slice(lastBlank + 1) : [];
+  const hasBlock =
+    block.length > 0 && block.every((line) => TRAILER_LINE.test(line));
+  return [...lines, ...(hasBlock ? [] : ['']), ...missing].join('\n');
+}
+
+function mentionsTicket(message: string, ticket: string): boolean {
+  const escaped = ticket.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^\\w-])${escaped}(?![\\w-])`).test(message);
+}
+
+/**
+ * Put the ticket in the message as a [PROJ-1] prefix or a Refs trailer,
+ * unless the message already mentions it
+ */
+export function addTicket(
+  message: string,
+  ticket: string,
+  placement: TicketPlacement,
+): string {
+  if (placement === 'none' || mentionsTicket(message, ticket)) {
+    return message;
+  }
+  if (placement === 'prefix') {
+    return `[${ticket}] ${message}`;
+  }
+  return addTrailers(message, [`Refs: ${ticket}`]);
+}
+
+/**
+ * Add the ticket ids and trailers to a commit message
+ */
+export function finishCommitMessage(
+  message: string,
+  tickets: string[],
+  placement: TicketPlacement,
+  trailers: string[] = [],
+): string {
+  const withTickets = tickets.reduce(
+    (result, ticket) => addTicket(result, ticket, placement),
+    message,
+  );
+  return addTrailers(withTickets, trailers);
+}
@@ -0,0 +1,198 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  BudgetExceededError,
+  checkBudget,
+  createUsageLog,
+  estimateCost,
+  findPrice,
+  formatCost,
+  formatUsageTable,
+  summarizeUsage,
+  trackUsage,
+  type UsageLog,
+  type UsageRecord,
+} from './usage.js';
+
+function record(fields: Partial<UsageRecord>): UsageRecord {
+  return {
+    time: new Date(2026, 9, 19, 12).getTime(),
+    provider: 'openai',
+    model: 'gpt-4o-mini',
+    repo: '/code/app',
+    inputTokens: 1000,
+    outputTokens: 100,
+    estimated: false,
+    latency: 1000,
+    outcome: 'ok',
+    ...fields,
+  };
+}
+
+describe('Usage Module', () => {
+  describe('trackUsage', () => {
+    let dir: string;
+    let log: UsageLog;
+    const call = {
+      provider: 'openai',
+      model: 'gpt-4o-mini',
+      prompt: 'x'.repeat(40),
+    };
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-ai-usage-'));
+      log = createUsageLog(path.join(dir, 'usage.jsonl'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should record the usage the provider reports', async () => {
+      await expect(
+        trackUsage(
+          call,
+          async (onUsage) => {
+            onUsage({ inputTokens: 30, outputTokens: 4 });
+            return 'feat: add';
+          },
+          log,
+        ),
+      ).resolves.toBe('feat: add');
+      expect(log.read()).toEqual([
+        expect.objectContaining({
+          provider: 'openai',
+          model: 'gpt-4o-mini',
+          inputTokens: 30,
+          outputTokens: 4,
+          estimated: false,
+          outcome: 'ok',
+        }),
+      ]);
+    });
+
+    it('should estimate tokens without usage and record failures', async () => {
+      await trackUsage(call, async () => 'feat: add tokens', log);
+      await expect(
+        trackUsage(
+          call,
+          async () => {
+            throw new Error('Rate limited');
+          },
+          log,
+        ),
+      ).rejects.toThrow('Rate limited');
+
+      const [estimated, failed] = log.read();
+      expect(estimated).toMatchObject({
+        inputTokens: 10,
+        outputTokens: 4,
+        estimated: true,
+      });
+      expect(failed).toMatchObject({
+        inputTokens: 0,
+        outputTokens: 0,
+        outcome: 'error',
+        error: 'Rate limited',
+      });
+    });
+  });
+
+  describe('Prices', () => {
+    it('should prefer provider/model prices and allow additions', () => {
+      const prices = {
+        'github/gpt-4o-mini': { input: 0, output: 0 },
+        llama3: { input: 0.1, output: 0.1 },
+      };
+      expect(findPrice('openai', 'gpt-4o-mini', prices)?.input).toBe(0.15);
+      expect(findPrice('github', 'gpt-4o-mini', prices)?.input).toBe(0);
+      expect(findPrice('custom', 'llama3', prices)).toEqual(prices.llama3);
+      expect(findPrice('custom', 'mistral', prices)).toBeUndefined();
+    });
+
+    it('should estimate the cost per million tokens', () => {
+      expect(estimateCost(record({}))).toBeCloseTo(0.00021);
+      expect(estimateCost(record({ model: 'unknown' }))).toBeUndefined();
+      expect(formatCost(0.00021)).toBe('$0.0002');
+      expect(formatCost(12)).toBe('$12.00');
+    });
+  });
+
+  describe('summarizeUsage', () => {
+    const records = [
+      record({}),
+      record({ time: new Date(2026, 9, 18).getTime(), outcome: 'error' }),
+      record({ provider: 'custom', model: 'llama3', repo: undefined }),
+    ];
+
+    it('should group by day, newest first', () => {
+      expect(
+        summarizeUsage(records, 'day').map(({ key, calls, failed }) => ({
+          key,
+          calls,
+          failed,
+        })),
+      ).toEqual([
+        { key: '2026-10-19', calls: 2, failed: 0 },
+        { key: '2026-10-18', calls: 1, failed: 1 },
+      ]);
+    });
+
+    it('should count calls without a price', () => {
+      expect(summarizeUsage(records, 'provider')).toEqual([
+        expect.objectContaining({
+          key: 'openai/gpt-4o-mini',
+          calls: 2,
+          inputTokens: 2000,
+          unpriced: 0,
+        }),
+        expect.objectContaining({ key: 'custom/llama3', cost: 0, unpriced: 1 }),
+      ]);
+      expect(summarizeUsage(records, 'repo').map(({ key }) => key)).toEqual([
+        '/code/app',
+        '(no repository)',
+      ]);
+    });
+
+    it('should format an aligned table', () => {
+      expect(
+        formatUsageTable(
+          summarizeUsage([record({ estimated: true })], 'provider'),
+          'Provider/model',
+        ).split('\n'),
+      ).toEqual([
+        'Provider/model      Calls  Failed  Input  Output  Latency     Cost',
+        'openai/gpt-4o-mini      1       0  ~1000    ~100     1.0s  $0.0002',
+      ]);
+    });
+  });
+
+  describe('checkBudget', () => {
+    const now = new Date(2026, 9, 19).getTime();
+    const records = [
+      record({ inputTokens: 10_000_000, outputTokens: 0 }),
+      // Last month does not count
+      record({ time: new Date(2026, 8, 30).getTime(), inputTokens: 1e9 }),
+    ];
+
+    it('should compare this month with the budget', () => {
+      expect(
+        checkBudget({ monthlyBudget: 0, prices: {} }, records, now),
+      ).toBeUndefined();
+      expect(
+        checkBudget({ monthlyBudget: 5, prices: {} }, records, now),
+      ).toEqual({ budget: 5, spent: 1.5, exceeded: false });
+      const status = checkBudget(
+        { monthlyBudget: 1, prices: {} },
+        records,
+        now,
+      );
+      expect(status?.exceeded).toBe(true);
+      expect(new BudgetExceededError(status!).message).toContain(
+        'Monthly AI budget of $1.00 reached ($1.50 spent this month)',
+      );
+    });
+  });
+});
@@ -0,0 +1,364 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getConfigDir } from './config.js';
+import { estimateTokens } from './diff.js';
+import { getRepoRoot } from './git.js';
+import type { ModelPrice, ProjectSettings } from './project-config.js';
+import type { TokenUsage } from './providers/types.js';
+
+const USAGE_FILE = path.join(getConfigDir(), 'usage.jsonl');
+
+// USD per million tokens, as listed by the providers
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
+  'claude-3-5-haiku-latest': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet-latest': { input: 3, output: 15 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+};
+
+export type UsageOutcome = 'ok' | 'error' | 'cancelled';
+
+/**
+ * One provider call in the usage log
+ */
+export interface UsageRecord {
+  /** When the call started (ms since epoch) */
+  time: number;
+  provider: string;
+  model: string;
+  /** Root of the repository the call was made in */
+  repo?: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** Counted from the text because the provider sent no usage */
+  estimated: boolean;
+  /** Milliseconds until the answer or the failure */
+  latency: number;
+  outcome: UsageOutcome;
+  error?: string;
+}
+
+export interface UsageLog {
+  path: string;
+  append(record: UsageRecord): void;
+  read(): UsageRecord[];
+}
+
+/**
+ * Usage records appended to a file, one JSON object per line
+ */
+export function createUsageLog(filePath: string): UsageLog {
+  return {
+    path: filePath,
+
+    append(record) {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 });
+      fs.appendFileSync(filePath, `${JSON.stringify(record)}\n`, {
+        mode: 0o600,
+      });
+    },
+
+    read() {
+      if (!fs.existsSync(filePath)) {
+        return [];
+      }
+      const records: UsageRecord[] = [];
+      for (const line of fs.readFileSync(filePath, 'utf-8').split('\n')) {
+        try {
+          records.push(JSON.parse(line));
+        } catch {
+          // Blank or cut-off line
+        }
+      }
+      return records;
+    },
+  };
+}
+
+/**
+ * The usage log in the config directory
+ */
+export const usageLog = createUsageLog(USAGE_FILE);
+
+/**
+ * A provider call to record
+ */
+export interface TrackedCall {
+  provider: string;
+  model: string;
+  prompt: string;
+  signal?: AbortSignal;
+}
+
+let repoRoot: Promise<string | undefined> | undefined;
+
+/**
+ * Run a provider call and log its usage, latency and outcome. Without
+ * usage counts in the response, tokens are estimated from the text.
+ */
+export async function trackUsage(
+  call: TrackedCall,
+  generate: (onUsage: (usage: TokenUsage) => void) => Promise<string>,
+  log: UsageLog = usageLog,
+): Promise<string> {
+  repoRoot ??= getRepoRoot().catch(() => undefined);
+  const started = Date.now();
+  let reported: TokenUsage | undefined;
+  const record = async (
+    fields: Pick<UsageRecord, 'outcome' | 'error'>,
+    estimate?: TokenUsage,
+  ) => {
+    const usage = reported ?? estimate ?? { inputTokens: 0, outputTokens: 0 };
+    log.append({
+      time: started,
+      provider: call.provider,
+      model: call.model,
+      repo: await repoRoot,
+      ...usage,
+      estimated: !reported && !!estimate,
+      latency: Date.now() - started,
+      ...fields,
+    });
+  };
+
+  let text: string;
+  try {
+    text = await generate((usage) => {
+      reported = usage;
+    });
+  } catch (error) {
+    await record({
+      outcome: call.signal?.aborted ? 'cancelled' : 'error',
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+  await record(
+    { outcome: 'ok' },
+    {
+      inputTokens: estimateTokens(call.prompt),
+      outputTokens: estimateTokens(text),
+    },
+  );
+  return text;
+}
+
+/**
+ * Price of a model: provider/model first, then the model alone
+ */
+export function findPrice(
+  provider: string,
+  model: string,
+  prices: Record<string, ModelPrice> = {},
+): ModelPrice | undefined {
+  const table = { ...DEFAULT_PRICES, ...prices };
+  return table[`${provider}/${model}`] ?? table[model];
+}
+
+/**
+ * Estimated USD cost of a call, or undefined without a price
+ */
+export function estimateCost(
+  record: UsageRecord,
+  prices?: Record<string, ModelPrice>,
+): number | undefined {
+  const price = findPrice(record.provider, record.model, prices);
+  return (
+    price &&
+    (record.inputTokens * price.input + record.outputTokens * price.output) /
+      1_000_000
+  );
+}
+
+/**
+ * Calls, tokens and cost of one group of records
+ */
+export interface UsageSummary {
+  key: string;
+  calls: number;
+  failed: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Some token counts were estimated */
+  estimated: boolean;
+  /** Mean milliseconds per call */
+  latency: number;
+  /** USD of the calls with a known price */
+  cost: number;
+  /** Calls whose model has no price */
+  unpriced: number;
+}
+
+export type UsageGrouping = 'day' | 'provider' | 'repo';
+
+/**
+ * Local date of a timestamp, e.g. 2026-10-19
+ */
+export function dayOf(time: number): string {
+  const date = new Date(time);
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('-');
+}
+
+function groupKey(record: UsageRecord, by: UsageGrouping): string {
+  if (by === 'day') {
+    return dayOf(record.time);
+  }
+  if (by === 'provider') {
+    return `${record.provider}/${record.model}`;
+  }
+  return record.repo
+    ? record.repo.replace(os.homedir(), '~')
+    : '(no repository)';
+}
+
+/**
+ * Sum records by day (newest first), provider/model or repository
+ * (most expensive first)
+ */
+export function summarizeUsage(
+  records: UsageRecord[],
+  by: UsageGrouping,
+  prices?: Record<string, ModelPrice>,
+): UsageSummary[] {
+  const groups = new Map<string, UsageSummary>();
+  for (const record of records) {
+    const key = groupKey(record, by);
+    const summary = groups.get(key) ?? {
+      key,
+      calls: 0,
+      failed: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      estimated: false,
+      latency: 0,
+      cost: 0,
+      unpriced: 0,
+    };
+    const cost = estimateCost(record, prices);
+    summary.latency =
+      (summary.latency * summary.calls + record.latency) / (summary.calls + 1);
+    summary.calls++;
+    summary.failed += record.outcome === 'ok' ? 0 : 1;
+    summary.inputTokens += record.inputTokens;
+    summary.outputTokens += record.outputTokens;
+    summary.estimated ||= record.estimated;
+    summary.cost += cost ?? 0;
+    summary.unpriced += cost === undefined ? 1 : 0;
+    groups.set(key, summary);
+  }
+  const summaries = [...groups.values()];
+  return by === 'day'
+    ? summaries.sort((a, b) => b.key.localeCompare(a.key))
+    : summaries.sort((a, b) => b.cost - a.cost || b.calls - a.calls);
+}
+
+/**
+ * Format USD, with more digits for the small amounts single calls cost
+ */
+export function formatCost(usd: number): string {
+  return `$${usd > 0 && usd < 0.01 ? usd.toFixed(4) : usd.toFixed(2)}`;
+}
+
+/**
+ * Format summaries as an aligned table. Estimated token counts are
+ * marked with ~ and groups with unpriced calls with +.
+ */
+export function formatUsageTable(
+  summaries: UsageSummary[],
+  heading: string,
+): string {
+  const rows = [
+    [heading, 'Calls', 'Failed', 'Input', 'Output', 'Latency', 'Cost'],
+    ...summaries.map((summary) => [
+      summary.key,
+      String(summary.calls),
+      String(summary.failed),
+      `${summary.estimated ? '~' : ''}${summary.inputTokens}`,
+      `${summary.estimated ? '~' : ''}${summary.outputTokens}`,
+      `${(summary.latency / 1000).toFixed(1)}s`,
+      `${formatCost(summary.cost)}${summary.unpriced > 0 ? '+' : ''}`,
+    ]),
+  ];
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => row[column].length)),
+  );
+  return rows
+    .map((row) =>
+      row
+        .map((cell, column) =>
+          column === 0
+            ? cell.padEnd(widths[column])
+            : cell.padStart(widths[column]),
+        )
+        .join('  '),
+    )
+    .join('\n');
+}
+
+/**
+ * Start of the current calendar month (local time)
+ */
+export function monthStart(now: number = Date.now()): number {
+  const date = new Date(now);
+  return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+}
+
+/**
+ * Spending this month against the monthly budget
+ */
+export interface BudgetStatus {
+  budget: number;
+  spent: number;
+  exceeded: boolean;
+}
+
+/**
+ * Compare this month's estimated cost with monthlyBudget. Returns
+ * undefined when no budget is set.
+ */
+export function checkBudget(
+  settings: Pick<Required<ProjectSettings>, 'monthlyBudget' | 'prices'>,
+  records?: UsageRecord[],
+  now: number = Date.now(),
+): BudgetStatus | undefined {
+  if (!(settings.monthlyBudget > 0)) {
+    return undefined;
+  }
+  const start = monthStart(now);
+  const spent = (records ?? usageLog.read())
+    .filter((record) => record.time >= start)
+    .reduce(
+      (sum, record) => sum + (estimateCost(record, settings.prices) ?? 0),
+      0,
+    );
+  return {
+    budget: settings.monthlyBudget,
+    spent,
+    exceeded: spent >= settings.monthlyBudget,
+  };
+}
+
+/**
+ * Thrown instead of calling a provider once the monthly budget is
+ * spent and budgetAction is block
+ */
+export class BudgetExceededError extends Error {
+  constructor(status: BudgetStatus) {
+    super(
+      `Monthly AI budget of ${formatCost(status.budget)} reached (${formatCost(status.spent)} spent this month). Raise monthlyBudget or set budgetAction to warn.`,
+    );
+    this.name = 'BudgetExceededError';
+  }
+}